@@ -9,6 +9,9 @@ const APP_SHELL = [
     withBase("icons/icon-192.png"),
     withBase("icons/icon-512.png")
 ];
+// Shared files wait here until the page picks them up; see src/launchFiles.ts.
+const SHARE_CACHE = "img2dmg-share";
+const SHARE_TARGET = withBase("share-target");
 const FORCE_REFRESH = new Set([
     withBase("manifest.webmanifest"),
     withBase("favicon.png"),
@@ -32,14 +35,43 @@ self.addEventListener("activate", (event) => {
         caches
             .keys()
             .then((keys) =>
-                Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)))
+                Promise.all(
+                    keys
+                        .filter((key) => key !== CACHE_NAME && key !== SHARE_CACHE)
+                        .map((key) => caches.delete(key))
+                )
             )
             .then(() => self.clients.claim())
     );
 });
 
+const receiveShare = async (request) => {
+    const formData = await request.formData();
+    const files = formData.getAll("images").filter((entry) => entry instanceof File);
+    await caches.delete(SHARE_CACHE);
+    const cache = await caches.open(SHARE_CACHE);
+    await Promise.all(
+        files.map((file, index) =>
+            cache.put(
+                `${SHARE_TARGET}/${index}`,
+                new Response(file, {
+                    headers: {
+                        "Content-Type": file.type,
+                        "X-File-Name": encodeURIComponent(file.name)
+                    }
+                })
+            )
+        )
+    );
+    return Response.redirect(`${BASE_URL}?share-target`, 303);
+};
+
 self.addEventListener("fetch", (event) => {
     const { request } = event;
+    if (request.method === "POST" && new URL(request.url).pathname === SHARE_TARGET) {
+        event.respondWith(receiveShare(request));
+        return;
+    }
     if (request.method !== "GET") {
         return;
     }
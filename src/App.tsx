@@ -1,37 +1,240 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import JSZip from "jszip";
-
-const DMG_PALETTE = [
-    { r: 15, g: 56, b: 15 },
-    { r: 48, g: 98, b: 48 },
-    { r: 139, g: 172, b: 15 },
-    { r: 155, g: 188, b: 15 }
-];
-
-const GRAY_PALETTE = [
-    { r: 15, g: 15, b: 15 },
-    { r: 86, g: 86, b: 86 },
-    { r: 170, g: 170, b: 170 },
-    { r: 240, g: 240, b: 240 }
-];
-
-const SUPPORTED_EXTS = ["png", "jpg", "jpeg", "webp"] as const;
-
-type Status = "queued" | "processing" | "done" | "error";
+import { ALPHA_MODES, AlphaMode, AlphaSettings, DEFAULT_ALPHA } from "./core/alpha";
+import { DEFAULT_DITHER, DITHER_MODES, DitherMode } from "./core/dither";
+import {
+    AUTO_PALETTE,
+    BUILT_IN_PALETTES,
+    CGB_PALETTE,
+    DMG_PALETTE,
+    Palette,
+    Rgb,
+    toHex
+} from "./core/palettes";
+import {
+    buildTileset,
+    DEFAULT_TILE_OPTIONS,
+    TILE_BUDGETS,
+    TileBudget,
+    tileData,
+    TileDataExt,
+    tilemapData
+} from "./core/tiles";
+import {
+    DEFAULT_RESIZE,
+    MAX_CUSTOM_SIZE,
+    RESAMPLE_MODES,
+    Resample,
+    RESIZE_FITS,
+    ResizeFit,
+    ResizeSettings,
+    RgbaImage,
+    SIZE_PRESETS,
+    SizePreset
+} from "./core/resize";
+import {
+    archiveName,
+    baseName,
+    extFromName,
+    isSupportedExt,
+    mimeForExt,
+    outputFileName
+} from "./core/files";
+import {
+    archivePartName,
+    DEFAULT_ZIP_COMPRESSION,
+    DEFAULT_ZIP_SPLIT,
+    splitArchives,
+    streamZip,
+    ZIP_COMPRESSIONS,
+    ZIP_SPLIT_SIZES,
+    ZipCompression,
+    ZipEntry
+} from "./core/archive";
+import { extractPalette } from "./core/autoPalette";
+import {
+    CAMERA_HEIGHT,
+    CAMERA_SLOTS,
+    CAMERA_WIDTH,
+    CameraSource,
+    freeSlot,
+    readCameraSave,
+    shadeLevels,
+    THUMBNAIL_SIZE,
+    usedSlots,
+    writeCameraPhoto
+} from "./core/camera";
+import {
+    DecodeFailure,
+    DecodeSettings,
+    DEFAULT_DECODE,
+    failureLabel,
+    failureOf,
+    MAX_PIXEL_OPTIONS,
+    OVERSIZE_MODES,
+    OversizeMode,
+    SNIFF_BYTES,
+    sniffImageType
+} from "./core/decode";
+import { encodeGray2Png } from "./core/png";
+import {
+    DEFAULT_MANIFEST_FORMAT,
+    MANIFEST_FORMATS,
+    ManifestEntry,
+    manifestEntry,
+    manifestFile,
+    ManifestFormat
+} from "./core/manifest";
+import {
+    ARCHIVE_NAME_TOKENS,
+    dateToken,
+    DEFAULT_ARCHIVE_TEMPLATE,
+    DEFAULT_FILE_TEMPLATE,
+    FILE_NAME_TOKENS,
+    indexToken,
+    MAX_TEMPLATE_LENGTH,
+    NameToken,
+    templateError,
+    uniqueNames,
+    uniqueSymbols
+} from "./core/naming";
+import {
+    cgbAttributes,
+    CgbImage,
+    cgbPaletteData,
+    cgbPaletteWords,
+    countIssues
+} from "./core/cgb";
+import {
+    COLOR_MATCHINGS,
+    ColorMatching,
+    ConvertSettings,
+    DEFAULT_COLOR_MATCHING,
+    DEFAULT_HARDWARE,
+    Hardware,
+    HARDWARE_MODES,
+    imageOklab,
+    ItemOverrides,
+    withOverrides
+} from "./core/pipeline";
+import { DEFAULT_TONE, ToneSettings } from "./core/tone";
+import {
+    ANIMATION_FORMATS,
+    AnimationFormat,
+    animationFormat,
+    ConvertedFrame,
+    DEFAULT_ANIMATION_FORMAT,
+    encodeSpriteStrip,
+    stripLevels
+} from "./core/animation";
+import {
+    DEFAULT_OUTPUT_FORMAT,
+    OUTPUT_FORMATS,
+    OutputFormat,
+    outputFormat
+} from "./core/output";
+import {
+    SourceFormat,
+    spritesToGbdkC,
+    spritesToRgbdsAsm,
+    toGbdkC,
+    toRgbdsAsm,
+    toSymbol
+} from "./core/sourceExport";
+import {
+    countOverLimit,
+    DEFAULT_SPRITE,
+    OBJ_SIZES,
+    ObjSize,
+    SPRITE_SLICINGS,
+    SpriteSettings,
+    SpriteSheet,
+    SpriteSlicing,
+    spriteTileData
+} from "./core/sprites";
+import { readImageZip, splitPath, ZipSkip } from "./core/zip";
+import CompareViewer from "./components/CompareViewer";
+import ItemSettings from "./components/ItemSettings";
+import PaletteManager from "./components/PaletteManager";
+import PresetManager from "./components/PresetManager";
+import ToneControls from "./components/ToneControls";
+import { copyPng, fetchImageFile, readImageUrl } from "./clipboard";
+import { deflate, loadPreviewImage } from "./convert";
+import {
+    DownloadFile,
+    downloadBlob,
+    downloadFiles,
+    downloadUrl,
+    pickArchiveSinks
+} from "./download";
+import {
+    loadActivePaletteId,
+    loadCustomPalettes,
+    saveActivePaletteId,
+    saveCustomPalettes
+} from "./paletteStorage";
+import { onLaunchFiles, takeSharedFiles } from "./launchFiles";
+import { Preset, presetHash, PresetSettings, readPresetHash } from "./core/presets";
+import { loadLastPresetId, loadPresets, saveLastPresetId, savePresets } from "./presetStorage";
+import {
+    canStoreSession,
+    clearSession,
+    loadSession,
+    requestPersistentStorage,
+    saveItems,
+    saveSettings,
+    storageEstimate,
+    StoredItem
+} from "./sessionStore";
+import { createWorkerPool, WorkerPool } from "./workerPool";
+
+type Status = "queued" | "processing" | "done" | "error" | "cancelled";
 
 type Item = {
     id: string;
     name: string;
     ext: string;
     file: File;
+    /** Folder inside the ZIP the image came from, "" or undefined at the root. */
+    folder?: string;
+    /** Game Boy Camera save slot the photo or thumbnail was read from. */
+    camera?: CameraSource;
+    /** Settings this card uses instead of the global ones. */
+    overrides?: ItemOverrides;
+    /** Settings key of the last conversion run, to tell which items a change affects. */
+    convertedKey?: string;
     status: Status;
+    /** Identifies the conversion run so results from superseded runs are dropped. */
+    jobId?: string;
+    /** 0..1 while processing. */
+    progress?: number;
     blobUrl?: string;
+    /** Converted file behind blobUrl, kept so the session can be stored. */
+    output?: Blob;
+    /** Shade level per pixel (0 darkest), kept for tile export. */
+    levels?: Uint8Array;
+    /** Converted frames when the source was animated. */
+    frames?: ConvertedFrame[];
+    /** Palette the levels index, which differs per item with auto matching. */
+    palette?: Rgb[];
+    /** Per-tile palettes of stills converted in CGB mode. */
+    cgb?: CgbImage;
+    /** Frames, tiles and metasprites of stills converted in sprite mode. */
+    sprites?: SpriteSheet;
     width?: number;
     height?: number;
+    sourceWidth?: number;
+    sourceHeight?: number;
+    /** An oversize animation converted from its first frame alone. */
+    firstFrameOnly?: boolean;
     error?: string;
+    /** What kind of problem stopped the source from decoding, when that was it. */
+    errorReason?: DecodeFailure;
     selected: boolean;
 };
 
+/** A Game Boy Camera save that converted photos can be written back into. */
+type CameraSave = { name: string; data: Uint8Array };
+
 type DeferredPromptEvent = Event & {
     prompt: () => Promise<void>;
     userChoice: Promise<{ outcome: "accepted" | "dismissed"; platform: string }>;
@@ -39,118 +242,283 @@ type DeferredPromptEvent = Event & {
 
 const fileId = () => crypto.randomUUID();
 
-const extFromName = (name: string) =>
-    name.toLowerCase().split(".").pop() ?? "";
+type ZipContents = "png" | SourceFormat;
 
-const baseName = (name: string) => {
-    const parts = name.split(".");
-    parts.pop();
-    return parts.join(".") || name;
+type ImportReport = {
+    zipName: string;
+    imported: number;
+    skipped: ZipSkip[];
 };
 
-type PaletteMode = "dmg" | "gray";
+/** Skipped entries listed in the import report before it summarizes the rest. */
+const REPORT_LIMIT = 30;
+
+const inFolder = (folder: string | undefined, name: string) => (folder ? `${folder}/${name}` : name);
+
+const sniffFile = async (file: Blob) =>
+    sniffImageType(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+
+/** Hex SHA-256 of a file, for export manifests. */
+const sha256Hex = async (blob: Blob) => {
+    const data = await blob.arrayBuffer();
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+    return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const tokenList = (tokens: NameToken[]) => tokens.map((token) => `{${token.value}}`).join(" ");
+
+const TEMPLATE_HINT =
+    `File names take ${tokenList(FILE_NAME_TOKENS)}, ZIP names ` +
+    `${tokenList(ARCHIVE_NAME_TOKENS)}. Hover a field for details.`;
+
+/** "{name}: source name without its extension", one token per line, for field titles. */
+const tokenHelp = (tokens: NameToken[]) =>
+    tokens.map((token) => `{${token.value}}: ${token.label}`).join("\n");
+
+/** "slot01", as camera photos are named after their 1-based slot. */
+const slotName = (slot: number) => `slot${String(slot + 1).padStart(2, "0")}`;
 
-const isSupportedExt = (ext: string) =>
-    SUPPORTED_EXTS.includes(ext as (typeof SUPPORTED_EXTS)[number]);
+const cameraLabel = (camera: CameraSource) =>
+    `Camera slot ${camera.slot + 1}${camera.thumbnail ? " thumbnail" : ""}` +
+    (camera.deleted ? " (deleted)" : "");
 
-const mimeForExt = (ext: string) => {
-    switch (ext) {
-        case "jpg":
-        case "jpeg":
-            return "image/jpeg";
-        case "webp":
-            return "image/webp";
-        default:
-            return "image/png";
+/** Longest side of the tone preview, small enough to requantize on every change. */
+const TONE_PREVIEW_SIZE = 160;
+
+/** Longest side of the images a batch palette is extracted from. */
+const PALETTE_SAMPLE_SIZE = 256;
+
+/** Sprite transparent color choices, by color index. */
+const COLOR_LABELS = ["Color 0 (lightest)", "Color 1", "Color 2", "Color 3 (darkest)"];
+
+/** How a card lists the settings it overrides. */
+const OVERRIDE_LABELS: Record<keyof ItemOverrides, string> = {
+    palette: "palette",
+    dither: "dithering",
+    resize: "size",
+    tone: "tone"
+};
+
+/** Debounce for writing the list to IndexedDB. */
+const SESSION_SAVE_DELAY = 400;
+
+const formatBytes = (bytes: number) => {
+    const units = ["B", "KB", "MB", "GB"];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit += 1;
     }
+    return `${value.toFixed(unit ? 1 : 0)} ${units[unit]}`;
 };
 
-const downloadBlob = (blob: Blob, filename: string) => {
-    const url = URL.createObjectURL(blob);
-    const anchor = document.createElement("a");
-    anchor.href = url;
-    anchor.download = filename;
-    document.body.appendChild(anchor);
-    anchor.click();
-    anchor.remove();
-    URL.revokeObjectURL(url);
+const cgbSummary = (cgb: CgbImage) => {
+    const flagged = countIssues(cgb);
+    const palettes = `, ${cgb.palettes.length} palette${cgb.palettes.length === 1 ? "" : "s"}`;
+    return flagged ? `${palettes}, ${flagged} tiles flagged` : palettes;
 };
 
-const downloadUrl = (url: string, filename: string) => {
-    const anchor = document.createElement("a");
-    anchor.href = url;
-    anchor.download = filename;
-    document.body.appendChild(anchor);
-    anchor.click();
-    anchor.remove();
+const overrideSummary = (overrides: ItemOverrides) => {
+    const keys = Object.keys(overrides) as (keyof ItemOverrides)[];
+    return `Own ${keys.map((key) => OVERRIDE_LABELS[key]).join(", ")}`;
 };
 
-const convertToDmg = async (file: File, palette: typeof DMG_PALETTE) => {
-    const bitmap = await createImageBitmap(file);
-    const canvas = document.createElement("canvas");
-    canvas.width = bitmap.width;
-    canvas.height = bitmap.height;
-    const ctx = canvas.getContext("2d", { willReadFrequently: true });
-    if (!ctx) {
-        throw new Error("Canvas not supported");
-    }
+const spriteSummary = (sheet: SpriteSheet) => {
+    const over = countOverLimit(sheet);
+    const frames = `, ${sheet.frames.length} sprite frame${sheet.frames.length === 1 ? "" : "s"}`;
+    return over ? `${frames}, ${over} over 3 colors` : frames;
+};
 
-    ctx.drawImage(bitmap, 0, 0);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-
-    for (let i = 0; i < data.length; i += 4) {
-        const alpha = data[i + 3];
-        if (alpha === 0) {
-            continue;
-        }
-        const lum = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
-        const level = Math.min(3, Math.max(0, Math.floor(lum / 64)));
-        const shade = palette[level];
-        data[i] = shade.r;
-        data[i + 1] = shade.g;
-        data[i + 2] = shade.b;
+/** Sprite tiles and metasprite tables in place of the background tileset. */
+const spriteSourceFiles = (
+    sheet: SpriteSheet,
+    symbol: string,
+    sourceName: string,
+    format: SourceFormat
+): DownloadFile[] => {
+    if (format === "asm") {
+        return [{ name: `${symbol}.asm`, data: spritesToRgbdsAsm(symbol, sheet, sourceName) }];
     }
+    const { header, source } = spritesToGbdkC(symbol, sheet, sourceName);
+    return [
+        { name: `${symbol}.h`, data: header },
+        { name: `${symbol}.c`, data: source }
+    ];
+};
 
-    ctx.putImageData(imageData, 0, 0);
+const toStoredItem = (item: Item): StoredItem => {
+    const { jobId: _jobId, progress: _progress, blobUrl: _blobUrl, status, ...rest } = item;
+    // A conversion in flight is stored as queued and runs again after reload.
+    return status === "processing" ? { ...rest, status: "queued" } : { ...rest, status };
+};
 
-    const blob = await new Promise<Blob>((resolve, reject) => {
-        canvas.toBlob((result) => {
-            if (result) {
-                resolve(result);
-            } else {
-                reject(new Error("Failed to encode image"));
-            }
-        }, "image/png");
-    });
+/** Items stored before they had their own key were converted with the session's settings. */
+const fromStoredItem = (stored: StoredItem, sessionKey?: string): Item => {
+    const item = { ...stored, convertedKey: stored.convertedKey ?? sessionKey };
+    return item.status === "done" && item.output
+        ? { ...item, blobUrl: URL.createObjectURL(item.output) }
+        : { ...item, status: item.status === "done" ? "queued" : item.status };
+};
 
+/** Drops an item's output and queues it to convert again. */
+const requeued = (item: Item): Item => {
+    if (item.blobUrl) {
+        URL.revokeObjectURL(item.blobUrl);
+    }
     return {
-        blob,
-        width: canvas.width,
-        height: canvas.height
+        ...item,
+        status: "queued",
+        jobId: undefined,
+        progress: undefined,
+        blobUrl: undefined,
+        output: undefined,
+        levels: undefined,
+        frames: undefined,
+        palette: undefined,
+        cgb: undefined,
+        sprites: undefined,
+        width: undefined,
+        height: undefined,
+        sourceWidth: undefined,
+        sourceHeight: undefined,
+        firstFrameOnly: undefined,
+        error: undefined,
+        errorReason: undefined
     };
 };
 
+const THEME_VARS = ["--dmg-dark", "--dmg-mid", "--dmg-light", "--dmg-ghost"];
+
 const App = () => {
     const [items, setItems] = useState<Item[]>([]);
-    const [paletteMode, setPaletteMode] = useState<PaletteMode>("dmg");
-    const [busy, setBusy] = useState(false);
+    const [customPalettes, setCustomPalettes] = useState<Palette[]>(loadCustomPalettes);
+    const [paletteId, setPaletteId] = useState(() => loadActivePaletteId() ?? DMG_PALETTE.id);
+    const [paletteManagerOpen, setPaletteManagerOpen] = useState(false);
+    const [presets, setPresets] = useState<Preset[]>(loadPresets);
+    const [lastPresetId, setLastPresetId] = useState(loadLastPresetId);
+    const [presetManagerOpen, setPresetManagerOpen] = useState(false);
+    const [comparingId, setComparingId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const cardRefs = useRef(new Map<string, HTMLElement>());
+    const [tileExt, setTileExt] = useState<TileDataExt>("2bpp");
+    const [tileDedupeFlips, setTileDedupeFlips] = useState(DEFAULT_TILE_OPTIONS.dedupeFlips);
+    const [tileBudget, setTileBudget] = useState<TileBudget>(DEFAULT_TILE_OPTIONS.budget);
+    const [zipContents, setZipContents] = useState<ZipContents>("png");
+    const [zipCompression, setZipCompression] = useState<ZipCompression>(DEFAULT_ZIP_COMPRESSION);
+    const [zipSplit, setZipSplit] = useState(DEFAULT_ZIP_SPLIT);
+    const [fileTemplate, setFileTemplate] = useState(DEFAULT_FILE_TEMPLATE);
+    const [archiveTemplate, setArchiveTemplate] = useState(DEFAULT_ARCHIVE_TEMPLATE);
+    const [manifestFormat, setManifestFormat] = useState<ManifestFormat>(DEFAULT_MANIFEST_FORMAT);
+    /** Archive being written and overall progress (0..1) of a batch download. */
+    const [zipExport, setZipExport] = useState<{ name: string; progress: number } | null>(null);
+    const zipAbortRef = useRef<AbortController | null>(null);
+    const [ditherMode, setDitherMode] = useState<DitherMode>(DEFAULT_DITHER.mode);
+    const [ditherStrength, setDitherStrength] = useState(DEFAULT_DITHER.strength);
+    const [resize, setResize] = useState<ResizeSettings>(DEFAULT_RESIZE);
+    const [sprite, setSprite] = useState<SpriteSettings>(DEFAULT_SPRITE);
+    const [decode, setDecode] = useState<DecodeSettings>(DEFAULT_DECODE);
+    const [alpha, setAlpha] = useState<AlphaSettings>(DEFAULT_ALPHA);
+    const [tone, setTone] = useState<ToneSettings>(DEFAULT_TONE);
+    const [tonePreview, setTonePreview] = useState<RgbaImage | null>(null);
+    const [animation, setAnimation] = useState<AnimationFormat>(DEFAULT_ANIMATION_FORMAT);
+    const [output, setOutput] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+    const [matching, setMatching] = useState<ColorMatching>(DEFAULT_COLOR_MATCHING);
+    const [hardware, setHardware] = useState<Hardware>(DEFAULT_HARDWARE);
+    const [extracting, setExtracting] = useState(false);
     const [dragActive, setDragActive] = useState(false);
     const [message, setMessage] = useState<string | null>(null);
+    const [importReports, setImportReports] = useState<ImportReport[]>([]);
+    const [cameraSave, setCameraSave] = useState<CameraSave | null>(null);
+    const [cameraThumbnails, setCameraThumbnails] = useState(false);
     const [hoveredPreview, setHoveredPreview] = useState<{ url: string; name: string } | null>(null);
     const [installPrompt, setInstallPrompt] = useState<DeferredPromptEvent | null>(null);
     const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-    const activePalette = paletteMode === "dmg" ? DMG_PALETTE : GRAY_PALETTE;
+    const poolRef = useRef<WorkerPool | null>(null);
+    const [sessionReady, setSessionReady] = useState(false);
+    const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(
+        null
+    );
+    /** Last stored version of each item, to write only what changed. */
+    const storedItemsRef = useRef(new Map<string, Item>());
+    const persistRequestedRef = useRef(false);
+    /** Preset from a shared link, read once since the hash is cleared after reading it. */
+    const linkedPresetRef = useRef<ReturnType<typeof readPresetHash> | undefined>(undefined);
+
+    const palettes = useMemo(() => [...BUILT_IN_PALETTES, ...customPalettes], [customPalettes]);
+    const activePalette = palettes.find((palette) => palette.id === paletteId) ?? DMG_PALETTE;
+    const cgbMode = hardware === "cgb";
+    /** Names output files after the palette, or "auto"/"cgb" when each image has its own. */
+    const namingPalette = cgbMode
+        ? CGB_PALETTE
+        : matching === "auto"
+          ? AUTO_PALETTE
+          : activePalette;
+    /** Everything an item's output depends on, with its overrides applied. */
+    const settingsKey = (overrides?: ItemOverrides) => {
+        const palette = overrides?.palette ?? activePalette;
+        const itemDither = overrides?.dither ?? { mode: ditherMode, strength: ditherStrength };
+        return JSON.stringify([
+            // CGB mode and auto matching ignore the palette, so palette changes don't re-queue.
+            cgbMode || matching === "auto" ? "auto" : palette.colors.map(toHex).join(""),
+            hardware,
+            matching,
+            itemDither.mode,
+            itemDither.strength,
+            overrides?.resize ?? resize,
+            overrides?.tone ?? tone,
+            animation,
+            output,
+            sprite,
+            alpha,
+            decode
+        ]);
+    };
+    const convertKey = settingsKey();
+    const convertSettings = (): ConvertSettings => ({
+        hardware,
+        palette: activePalette.colors,
+        matching,
+        dither,
+        resize,
+        tone,
+        animation,
+        output,
+        sprite,
+        alpha,
+        decode
+    });
+    // An invalid template falls back to the default until it is fixed.
+    const fileTemplateError = templateError(fileTemplate, FILE_NAME_TOKENS);
+    const archiveTemplateError = templateError(archiveTemplate, ARCHIVE_NAME_TOKENS);
+    const fileNames = fileTemplateError ? DEFAULT_FILE_TEMPLATE : fileTemplate;
+    const archiveNames = archiveTemplateError ? DEFAULT_ARCHIVE_TEMPLATE : archiveTemplate;
+    const itemOrder = items.map((item) => item.id).join(",");
+    const dither = useMemo(
+        () => ({ mode: ditherMode, strength: ditherStrength }),
+        [ditherMode, ditherStrength]
+    );
+    const previewFile = items[0]?.file;
+    // With auto matching the header shows the first extracted palette.
+    const autoPalette = matching === "auto" ? items.find((item) => item.palette)?.palette : null;
+    const headerColors = autoPalette ?? activePalette.colors;
     const paletteSwatches = useMemo(
-        () => activePalette.map((c) => `rgb(${c.r}, ${c.g}, ${c.b})`),
-        [activePalette]
+        () => headerColors.map((c) => `rgb(${c.r}, ${c.g}, ${c.b})`),
+        [headerColors]
     );
+    const nextPalette = palettes[(palettes.indexOf(activePalette) + 1) % palettes.length];
 
     const queuedCount = items.filter((item) => item.status === "queued").length;
+    const activeCount = items.filter(
+        (item) => item.status === "queued" || item.status === "processing"
+    ).length;
     const doneItems = items.filter((item) => item.status === "done");
     const selectedItems = doneItems.filter((item) => item.selected);
 
+    const comparing = doneItems.find((item) => item.id === comparingId);
+    const editing = items.find((item) => item.id === editingId);
+
     const hasItems = items.length > 0;
     const hasDoneItems = doneItems.length > 0;
 
@@ -160,8 +528,132 @@ const App = () => {
     };
 
     useEffect(() => {
-        document.body.setAttribute("data-theme", paletteMode);
-    }, [paletteMode]);
+        document.body.setAttribute("data-theme", activePalette.id === "gray" ? "gray" : "dmg");
+        const builtInTheme = activePalette.id === "gray" || activePalette.id === DMG_PALETTE.id;
+        THEME_VARS.forEach((name, index) => {
+            if (builtInTheme) {
+                document.body.style.removeProperty(name);
+            } else {
+                document.body.style.setProperty(name, `#${toHex(activePalette.colors[index])}`);
+            }
+        });
+    }, [activePalette]);
+
+    useEffect(() => {
+        saveActivePaletteId(activePalette.id);
+    }, [activePalette.id]);
+
+    useEffect(() => {
+        saveCustomPalettes(customPalettes);
+    }, [customPalettes]);
+
+    const savePalette = (palette: Palette) => {
+        setCustomPalettes((prev) =>
+            prev.some((entry) => entry.id === palette.id)
+                ? prev.map((entry) => (entry.id === palette.id ? palette : entry))
+                : [...prev, palette]
+        );
+    };
+
+    useEffect(() => {
+        savePresets(presets);
+    }, [presets]);
+
+    const presetSettings = (): PresetSettings => ({
+        hardware,
+        palette: { name: activePalette.name, colors: activePalette.colors },
+        matching,
+        dither,
+        resize,
+        tone,
+        alpha,
+        sprite,
+        decode,
+        animation,
+        output,
+        tileExt,
+        tileDedupeFlips,
+        tileBudget,
+        zipContents,
+        zipCompression,
+        zipSplit,
+        fileTemplate,
+        archiveTemplate,
+        manifestFormat
+    });
+
+    /** Sets every option from a preset, reusing a palette with the same colors when there is one. */
+    const applyPresetSettings = (settings: PresetSettings) => {
+        const colors = settings.palette.colors.map(toHex).join("");
+        const known = palettes.find((palette) => palette.colors.map(toHex).join("") === colors);
+        if (known) {
+            setPaletteId(known.id);
+        } else {
+            const { name, colors: shades } = settings.palette;
+            const palette = { id: fileId(), name, colors: shades };
+            savePalette(palette);
+            setPaletteId(palette.id);
+        }
+        setHardware(settings.hardware);
+        setMatching(settings.matching);
+        setDitherMode(settings.dither.mode);
+        setDitherStrength(settings.dither.strength);
+        setResize(settings.resize);
+        setTone(settings.tone);
+        setSprite(settings.sprite);
+        setDecode(settings.decode);
+        setAlpha(settings.alpha);
+        setAnimation(settings.animation);
+        setOutput(settings.output);
+        setTileExt(settings.tileExt);
+        setTileDedupeFlips(settings.tileDedupeFlips);
+        setTileBudget(settings.tileBudget);
+        setZipContents(settings.zipContents);
+        setZipCompression(settings.zipCompression);
+        setZipSplit(settings.zipSplit);
+        setFileTemplate(settings.fileTemplate);
+        setArchiveTemplate(settings.archiveTemplate);
+        setManifestFormat(settings.manifestFormat);
+    };
+
+    const applyPreset = (preset: Preset) => {
+        applyPresetSettings(preset.settings);
+        setLastPresetId(preset.id);
+        saveLastPresetId(preset.id);
+        setToast(`Applied preset ${preset.name}.`);
+    };
+
+    const saveCurrentPreset = (name: string) => {
+        const preset = { id: fileId(), name, settings: presetSettings() };
+        setPresets((prev) => [...prev, preset]);
+        setLastPresetId(preset.id);
+        saveLastPresetId(preset.id);
+        setToast(`Saved preset ${name}.`);
+    };
+
+    const deletePreset = (id: string) => {
+        setPresets((prev) => prev.filter((preset) => preset.id !== id));
+    };
+
+    const copyPresetLink = async (preset: Preset | null) => {
+        const hash = preset
+            ? presetHash(preset.name, preset.settings)
+            : presetHash("Shared settings", presetSettings());
+        const url = `${window.location.origin}${window.location.pathname}${hash}`;
+        try {
+            await navigator.clipboard.writeText(url);
+            setToast("Link copied. Opening it applies the same settings.");
+        } catch {
+            window.prompt("Copy this link:", url);
+        }
+    };
+
+    const deletePalette = (id: string) => {
+        setCustomPalettes((prev) => prev.filter((entry) => entry.id !== id));
+        if (id === paletteId) {
+            setPaletteId(DMG_PALETTE.id);
+        }
+    };
 
     useEffect(() => {
         const handleBeforeInstall = (event: Event) => {
@@ -192,81 +684,334 @@ const App = () => {
     };
 
     useEffect(() => {
+        const pool = createWorkerPool();
+        poolRef.current = pool;
+        return () => {
+            pool.dispose();
+            poolRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        // Items whose own settings hide the change, and restored outputs that were
+        // converted with these settings, keep their output.
         setItems((prev) =>
             prev.map((item) => {
-                if (item.blobUrl) {
-                    URL.revokeObjectURL(item.blobUrl);
+                if (item.status === "queued" || item.convertedKey === settingsKey(item.overrides)) {
+                    return item;
                 }
-                return {
-                    ...item,
-                    status: "queued",
-                    blobUrl: undefined,
-                    width: undefined,
-                    height: undefined,
-                    error: undefined
-                };
+                if (item.jobId) {
+                    poolRef.current?.cancel(item.jobId);
+                }
+                return requeued(item);
             })
         );
-    }, [paletteMode]);
-
-    const enqueueFiles = useCallback((files: File[]) => {
-        const nextItems = files.map((file) => {
-            const ext = extFromName(file.name);
-            return {
-                id: fileId(),
-                name: file.name,
-                ext,
-                file,
-                status: "queued" as const,
-                selected: false
-            };
-        });
+    }, [convertKey]);
 
-        setItems((prev) => [...prev, ...nextItems]);
+    const refreshStorageUsage = useCallback(() => {
+        storageEstimate()
+            .then(setStorageUsage)
+            .catch(() => setStorageUsage(null));
     }, []);
 
-    const handleZip = useCallback(
-        async (zipFile: File) => {
-            const zip = await JSZip.loadAsync(zipFile);
-            const entries = Object.values(zip.files).filter((entry) => !entry.dir);
-
-            if (entries.length === 0) {
-                setToast("Zip is empty.");
-                return;
+    useEffect(() => {
+        // A shared link wins over the stored session; the last-used preset only fills in
+        // when there is neither.
+        if (linkedPresetRef.current === undefined) {
+            linkedPresetRef.current = readPresetHash(window.location.hash, fileId());
+        }
+        const linked = linkedPresetRef.current;
+        if (linked) {
+            window.history.replaceState(null, "", window.location.pathname);
+        }
+        const lastPreset = presets.find((preset) => preset.id === lastPresetId);
+        const applyStartupPreset = (restored: boolean) => {
+            if (linked) {
+                applyPresetSettings(linked.settings);
+                setToast(`Loaded settings from a shared link (${linked.name}).`);
+            } else if (lastPreset && !restored) {
+                applyPresetSettings(lastPreset.settings);
             }
+        };
+        if (!canStoreSession()) {
+            applyStartupPreset(false);
+            setSessionReady(true);
+            return;
+        }
+        // Strict mode runs this twice in development; only the last run restores.
+        let stale = false;
+        loadSession()
+            .then(({ items: stored, settings }) => {
+                if (stale) {
+                    return;
+                }
+                if (settings) {
+                    setDitherMode(settings.ditherMode);
+                    setDitherStrength(settings.ditherStrength);
+                    setResize(settings.resize);
+                    setSprite(settings.sprite ?? DEFAULT_SPRITE);
+                    setDecode(settings.decode ?? DEFAULT_DECODE);
+                    setAlpha(settings.alpha ?? DEFAULT_ALPHA);
+                    setTone(settings.tone);
+                    setAnimation(settings.animation);
+                    setOutput(settings.output ?? DEFAULT_OUTPUT_FORMAT);
+                    setMatching(settings.matching ?? DEFAULT_COLOR_MATCHING);
+                    setHardware(settings.hardware ?? DEFAULT_HARDWARE);
+                    setTileExt(settings.tileExt);
+                    setTileDedupeFlips(settings.tileDedupeFlips);
+                    setTileBudget(settings.tileBudget);
+                    setZipContents(settings.zipContents);
+                    setZipCompression(settings.zipCompression ?? DEFAULT_ZIP_COMPRESSION);
+                    setZipSplit(settings.zipSplit ?? DEFAULT_ZIP_SPLIT);
+                    setFileTemplate(settings.fileTemplate ?? DEFAULT_FILE_TEMPLATE);
+                    setArchiveTemplate(settings.archiveTemplate ?? DEFAULT_ARCHIVE_TEMPLATE);
+                    setManifestFormat(settings.manifestFormat ?? DEFAULT_MANIFEST_FORMAT);
+                }
+                applyStartupPreset(Boolean(settings));
+                const restored = stored.map((item) => fromStoredItem(item, settings?.convertedKey));
+                restored.forEach((item) => storedItemsRef.current.set(item.id, item));
+                setItems((prev) => [...restored, ...prev]);
+            })
+            .catch(() => {
+                if (stale) {
+                    return;
+                }
+                applyStartupPreset(false);
+                setToast("Couldn't restore the stored session.");
+            })
+            .finally(() => {
+                if (stale) {
+                    return;
+                }
+                setSessionReady(true);
+                refreshStorageUsage();
+            });
+        return () => {
+            stale = true;
+        };
+    }, [refreshStorageUsage]);
 
-            const firstExt = extFromName(entries[0].name);
-            if (!isSupportedExt(firstExt)) {
-                setToast("Zip contains unsupported image types.");
+    useEffect(() => {
+        if (!sessionReady || !canStoreSession()) {
+            return;
+        }
+        const timer = window.setTimeout(() => {
+            const stored = storedItemsRef.current;
+            const current = new Set(items.map((item) => item.id));
+            // Progress ticks aren't worth a write; a running item is stored once, as queued.
+            const put = items.filter(
+                (item) =>
+                    stored.get(item.id) !== item &&
+                    (item.status !== "processing" || !stored.has(item.id))
+            );
+            const remove = [...stored.keys()].filter((id) => !current.has(id));
+            if (!put.length && !remove.length) {
                 return;
             }
+            if (put.length && !persistRequestedRef.current) {
+                persistRequestedRef.current = true;
+                requestPersistentStorage();
+            }
+            saveItems(put.map(toStoredItem), remove)
+                .then(() => {
+                    put.forEach((item) => stored.set(item.id, item));
+                    remove.forEach((id) => stored.delete(id));
+                    refreshStorageUsage();
+                })
+                .catch((error: Error) => setToast(`Couldn't store the session: ${error.message}`));
+        }, SESSION_SAVE_DELAY);
+        return () => window.clearTimeout(timer);
+    }, [items, sessionReady, refreshStorageUsage]);
 
-            const mixed = entries.some((entry) => extFromName(entry.name) !== firstExt);
-            if (mixed) {
-                setToast("Zip must contain only one image extension type.");
+    useEffect(() => {
+        if (!sessionReady || !canStoreSession()) {
+            return;
+        }
+        saveSettings({
+            convertedKey: convertKey,
+            order: itemOrder ? itemOrder.split(",") : [],
+            ditherMode,
+            ditherStrength,
+            resize,
+            sprite,
+            decode,
+            alpha,
+            tone,
+            animation,
+            output,
+            matching,
+            hardware,
+            tileExt,
+            tileDedupeFlips,
+            tileBudget,
+            zipContents,
+            zipCompression,
+            zipSplit,
+            fileTemplate,
+            archiveTemplate,
+            manifestFormat
+        }).catch(() => undefined);
+    }, [
+        sessionReady,
+        convertKey,
+        itemOrder,
+        tileExt,
+        tileDedupeFlips,
+        tileBudget,
+        zipContents,
+        zipCompression,
+        zipSplit,
+        fileTemplate,
+        archiveTemplate,
+        manifestFormat
+    ]);
+
+    useEffect(() => {
+        if (!previewFile) {
+            setTonePreview(null);
+            return;
+        }
+        let stale = false;
+        loadPreviewImage(previewFile, TONE_PREVIEW_SIZE)
+            .then((image) => {
+                if (!stale) {
+                    setTonePreview(image);
+                }
+            })
+            .catch(() => setTonePreview(null));
+        return () => {
+            stale = true;
+        };
+    }, [previewFile]);
+
+    const updateResize = (patch: Partial<ResizeSettings>) => {
+        setResize((prev) => ({ ...prev, ...patch }));
+    };
+
+    const updateSprite = (patch: Partial<SpriteSettings>) => {
+        setSprite((prev) => ({ ...prev, ...patch }));
+    };
+
+    const updateAlpha = (patch: Partial<AlphaSettings>) => {
+        setAlpha((prev) => ({ ...prev, ...patch }));
+    };
+
+    const updateDecode = (patch: Partial<DecodeSettings>) => {
+        setDecode((prev) => ({ ...prev, ...patch }));
+    };
+
+    const enqueueFiles = useCallback(
+        (files: File[], folders?: string[], cameras?: CameraSource[]) => {
+            const nextItems = files.map((file, index) => {
+                const ext = extFromName(file.name);
+                return {
+                    id: fileId(),
+                    name: file.name,
+                    ext,
+                    file,
+                    folder: folders?.[index],
+                    camera: cameras?.[index],
+                    status: "queued" as const,
+                    selected: false
+                };
+            });
+
+            setItems((prev) => [...prev, ...nextItems]);
+        },
+        []
+    );
+
+    const handleZip = useCallback(
+        async (zipFile: File) => {
+            let contents;
+            try {
+                contents = await readImageZip(zipFile);
+            } catch (error) {
+                setToast(`${zipFile.name}: ${(error as Error).message}`);
                 return;
             }
 
-            const extracted: File[] = [];
-            for (const entry of entries) {
-                const data = await entry.async("arraybuffer");
-                const blob = new Blob([data], { type: mimeForExt(firstExt) });
-                extracted.push(new File([blob], entry.name, { type: blob.type }));
+            const paths = contents.images.map((image) => splitPath(image.name));
+            const extracted = contents.images.map(
+                (image, index) =>
+                    new File([image.data as BlobPart], paths[index].fileName, {
+                        type: mimeForExt(image.ext)
+                    })
+            );
+
+            enqueueFiles(extracted, paths.map((path) => path.folder));
+            if (contents.skipped.length) {
+                setImportReports((prev) => [
+                    ...prev,
+                    {
+                        zipName: zipFile.name,
+                        imported: contents.images.length,
+                        skipped: contents.skipped
+                    }
+                ]);
             }
-
-            enqueueFiles(extracted);
         },
         [enqueueFiles]
     );
 
+    /** Adds a camera save's photos, and thumbnails when asked, as gray PNGs. */
+    const handleCameraSave = useCallback(
+        async (saveFile: File) => {
+            const data = new Uint8Array(await saveFile.arrayBuffer());
+            let photos;
+            try {
+                photos = readCameraSave(data);
+            } catch (error) {
+                setToast(`${saveFile.name}: ${(error as Error).message}`);
+                return;
+            }
+            const folder = baseName(saveFile.name);
+            const files: File[] = [];
+            const cameras: CameraSource[] = [];
+            const add = async (name: string, width: number, height: number, levels: Uint8Array) => {
+                // Gray samples run black to white, the same order as shade levels.
+                const png = await encodeGray2Png(width, height, levels, deflate);
+                files.push(new File([png as BlobPart], `${name}.png`, { type: "image/png" }));
+            };
+            for (const photo of photos) {
+                const source = { save: saveFile.name, slot: photo.slot, deleted: photo.deleted };
+                const name = slotName(photo.slot);
+                await add(name, CAMERA_WIDTH, CAMERA_HEIGHT, photo.levels);
+                cameras.push({ ...source, thumbnail: false });
+                if (cameraThumbnails) {
+                    await add(`${name}-thumb`, THUMBNAIL_SIZE, THUMBNAIL_SIZE, photo.thumbnail);
+                    cameras.push({ ...source, thumbnail: true });
+                }
+            }
+            enqueueFiles(files, files.map(() => folder), cameras);
+            setCameraSave({ name: saveFile.name, data });
+            const deleted = photos.filter((photo) => photo.deleted).length;
+            setToast(
+                `${saveFile.name}: ${photos.length} photos` +
+                    (deleted ? `, ${deleted} of them deleted.` : ".")
+            );
+        },
+        [cameraThumbnails, enqueueFiles]
+    );
+
     const handleFiles = useCallback(
         async (files: FileList | File[]) => {
             const list = Array.from(files);
             const zips = list.filter((file) => extFromName(file.name) === "zip");
-            const images = list.filter((file) => isSupportedExt(extFromName(file.name)));
-
-            if (zips.length === 0 && images.length === 0) {
-                setToast("Drop images or a zip of images to convert.");
+            const saves = list.filter((file) => extFromName(file.name) === "sav");
+            const images = await Promise.all(
+                list.map(async (file) => {
+                    const ext = extFromName(file.name);
+                    if (ext === "zip" || ext === "sav") {
+                        return null;
+                    }
+                    // Images with a wrong or missing extension are recognised by their bytes.
+                    return isSupportedExt(ext) || (await sniffFile(file)) ? file : null;
+                })
+            ).then((found) => found.filter((file): file is File => Boolean(file)));
+
+            if (zips.length === 0 && saves.length === 0 && images.length === 0) {
+                setToast("Drop images, a zip of images or a Game Boy Camera .sav to convert.");
                 return;
             }
 
@@ -274,13 +1019,51 @@ const App = () => {
                 await handleZip(zip);
             }
 
+            for (const save of saves) {
+                await handleCameraSave(save);
+            }
+
             if (images.length) {
                 enqueueFiles(images);
             }
         },
-        [enqueueFiles, handleZip]
+        [enqueueFiles, handleZip, handleCameraSave]
     );
 
+    useEffect(() => {
+        takeSharedFiles()
+            .then((files) => (files.length ? handleFiles(files) : undefined))
+            .catch(() => setToast("Couldn't read the shared files."));
+        onLaunchFiles((files) => handleFiles(files));
+    }, [handleFiles]);
+
+    useEffect(() => {
+        const handlePaste = async (event: ClipboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            if (target?.closest("input, textarea, [contenteditable]") || !event.clipboardData) {
+                return;
+            }
+            const files = Array.from(event.clipboardData.files);
+            if (files.length) {
+                event.preventDefault();
+                await handleFiles(files);
+                return;
+            }
+            const url = readImageUrl(event.clipboardData.getData("text/plain"));
+            if (!url) {
+                return;
+            }
+            event.preventDefault();
+            try {
+                enqueueFiles([await fetchImageFile(url)]);
+            } catch (error) {
+                setToast((error as Error).message);
+            }
+        };
+        window.addEventListener("paste", handlePaste);
+        return () => window.removeEventListener("paste", handlePaste);
+    }, [enqueueFiles, handleFiles]);
+
     const handleDrop = useCallback(
         async (event: React.DragEvent<HTMLDivElement>) => {
             event.preventDefault();
@@ -297,53 +1080,220 @@ const App = () => {
     };
 
     useEffect(() => {
-        if (busy) {
+        const pool = poolRef.current;
+        if (!pool) {
             return;
         }
-        const next = items.find((item) => item.status === "queued");
-        if (!next) {
+        const running = items.filter((item) => item.status === "processing").length;
+        const starting = items
+            .filter((item) => item.status === "queued")
+            .slice(0, Math.max(0, pool.size - running));
+        if (!starting.length) {
             return;
         }
 
-        setBusy(true);
+        const settings = convertSettings();
+        const jobIds = new Map(starting.map((item) => [item.id, fileId()]));
+
         setItems((prev) =>
             prev.map((item) =>
-                item.id === next.id ? { ...item, status: "processing" } : item
+                jobIds.has(item.id) && item.status === "queued"
+                    ? {
+                          ...item,
+                          status: "processing",
+                          jobId: jobIds.get(item.id),
+                          progress: 0,
+                          convertedKey: settingsKey(item.overrides)
+                      }
+                    : item
             )
         );
 
-        convertToDmg(next.file, activePalette)
-            .then(({ blob, width, height }) => {
-                const blobUrl = URL.createObjectURL(blob);
-                setItems((prev) =>
-                    prev.map((item) => {
-                        if (item.id !== next.id) {
-                            return item;
-                        }
-                        if (item.blobUrl) {
-                            URL.revokeObjectURL(item.blobUrl);
-                        }
-                        return {
-                            ...item,
-                            status: "done",
-                            blobUrl,
-                            width,
-                            height
-                        };
-                    })
-                );
-            })
-            .catch((error) => {
+        starting.forEach((next) => {
+            const jobId = jobIds.get(next.id)!;
+            const isCurrent = (item: Item) =>
+                item.id === next.id && item.jobId === jobId && item.status === "processing";
+
+            pool.run(jobId, next.file, withOverrides(settings, next.overrides), (progress) => {
                 setItems((prev) =>
-                    prev.map((item) =>
-                        item.id === next.id
-                            ? { ...item, status: "error", error: error.message }
-                            : item
-                    )
+                    prev.map((item) => (isCurrent(item) ? { ...item, progress } : item))
                 );
             })
-            .finally(() => setBusy(false));
-    }, [busy, items]);
+                .then((result) => {
+                    const { blob, levels, frames, palette, cgb, sprites } = result;
+                    const { width, height, sourceWidth, sourceHeight, firstFrameOnly } = result;
+                    const blobUrl = URL.createObjectURL(blob);
+                    setItems((prev) => {
+                        if (!prev.some((item) => item.id === next.id)) {
+                            // Removed or cleared while converting.
+                            URL.revokeObjectURL(blobUrl);
+                            return prev;
+                        }
+                        return prev.map((item) => {
+                            if (item.id !== next.id) {
+                                return item;
+                            }
+                            if (!isCurrent(item)) {
+                                // Cancelled, or re-queued after a settings change.
+                                URL.revokeObjectURL(blobUrl);
+                                return item;
+                            }
+                            if (item.blobUrl) {
+                                URL.revokeObjectURL(item.blobUrl);
+                            }
+                            return {
+                                ...item,
+                                status: "done",
+                                progress: undefined,
+                                blobUrl,
+                                output: blob,
+                                levels,
+                                frames: frames ?? undefined,
+                                palette,
+                                cgb: cgb ?? undefined,
+                                sprites: sprites ?? undefined,
+                                width,
+                                height,
+                                sourceWidth,
+                                sourceHeight,
+                                firstFrameOnly
+                            };
+                        });
+                    });
+                })
+                .catch((error) => {
+                    setItems((prev) =>
+                        prev.map((item) =>
+                            isCurrent(item)
+                                ? {
+                                      ...item,
+                                      status: "error",
+                                      progress: undefined,
+                                      error: error.message,
+                                      errorReason: failureOf(error) ?? undefined
+                                  }
+                                : item
+                        )
+                    );
+                });
+        });
+    }, [items]);
+
+    const cancelItem = (id: string) => {
+        const target = items.find((item) => item.id === id);
+        if (target?.jobId) {
+            poolRef.current?.cancel(target.jobId);
+        }
+        setItems((prev) =>
+            prev.map((item) =>
+                item.id === id && (item.status === "queued" || item.status === "processing")
+                    ? { ...item, status: "cancelled", progress: undefined }
+                    : item
+            )
+        );
+    };
+
+    const cancelAll = () => {
+        poolRef.current?.cancelAll();
+        setItems((prev) =>
+            prev.map((item) =>
+                item.status === "queued" || item.status === "processing"
+                    ? { ...item, status: "cancelled", progress: undefined }
+                    : item
+            )
+        );
+    };
+
+    /** Queues a failed or cancelled item again. */
+    const retryItem = (id: string) => {
+        setItems((prev) => prev.map((item) => (item.id === id ? requeued(item) : item)));
+    };
+
+    const updateOverrides = (id: string, overrides: ItemOverrides | undefined) => {
+        const target = items.find((item) => item.id === id);
+        if (target?.jobId) {
+            poolRef.current?.cancel(target.jobId);
+        }
+        setItems((prev) =>
+            prev.map((item) => (item.id === id ? { ...requeued(item), overrides } : item))
+        );
+    };
+
+    const removeItem = (id: string) => {
+        const index = items.findIndex((item) => item.id === id);
+        const target = items[index];
+        if (!target) {
+            return;
+        }
+        if (target.jobId) {
+            poolRef.current?.cancel(target.jobId);
+        }
+        if (target.blobUrl) {
+            URL.revokeObjectURL(target.blobUrl);
+        }
+        setItems((prev) => prev.filter((item) => item.id !== id));
+        // Keyboard users land on the next card, or the previous one at the end.
+        const next = items[index + 1] ?? items[index - 1];
+        if (next) {
+            focusCard(next.id);
+        }
+    };
+
+    /** Moves an item to index in the list. */
+    const moveItem = (id: string, index: number) => {
+        setItems((prev) => {
+            const from = prev.findIndex((item) => item.id === id);
+            if (from === -1 || index < 0 || index >= prev.length || from === index) {
+                return prev;
+            }
+            const next = [...prev];
+            next.splice(index, 0, ...next.splice(from, 1));
+            return next;
+        });
+    };
+
+    /** Focuses a card once React has placed it, since moving a node drops its focus. */
+    const focusCard = (id: string) => {
+        window.requestAnimationFrame(() => cardRefs.current.get(id)?.focus());
+    };
+
+    /**
+     * Arrow keys move between cards and Alt+Arrow moves the card itself. Delete
+     * removes it and Enter opens its settings. Keys inside buttons and fields
+     * keep their usual meaning.
+     */
+    const handleCardKey = (event: React.KeyboardEvent<HTMLElement>, index: number) => {
+        if (event.target !== event.currentTarget) {
+            return;
+        }
+        const item = items[index];
+        const step =
+            event.key === "ArrowLeft" || event.key === "ArrowUp"
+                ? -1
+                : event.key === "ArrowRight" || event.key === "ArrowDown"
+                  ? 1
+                  : 0;
+        if (step) {
+            event.preventDefault();
+            const target = Math.min(items.length - 1, Math.max(0, index + step));
+            if (event.altKey) {
+                moveItem(item.id, target);
+                focusCard(item.id);
+            } else {
+                cardRefs.current.get(items[target].id)?.focus();
+            }
+        } else if (event.key === "Home" || event.key === "End") {
+            event.preventDefault();
+            const target = event.key === "Home" ? items[0] : items[items.length - 1];
+            cardRefs.current.get(target.id)?.focus();
+        } else if (event.key === "Delete" || event.key === "Backspace") {
+            event.preventDefault();
+            removeItem(item.id);
+        } else if (event.key === "Enter") {
+            event.preventDefault();
+            setEditingId(item.id);
+        }
+    };
 
     const toggleSelected = (id: string) => {
         setItems((prev) =>
@@ -362,6 +1312,7 @@ const App = () => {
     };
 
     const clearAll = () => {
+        poolRef.current?.cancelAll();
         items.forEach((item) => {
             if (item.blobUrl) {
                 URL.revokeObjectURL(item.blobUrl);
@@ -370,42 +1321,355 @@ const App = () => {
         setItems([]);
     };
 
-    const downloadSelectedZip = async () => {
-        if (!selectedItems.length) {
+    const clearStoredSession = async () => {
+        const confirmed = window.confirm(
+            "Remove the stored images and outputs from this device? The list will be emptied."
+        );
+        if (!confirmed) {
             return;
         }
-        const zip = new JSZip();
-        for (const item of selectedItems) {
-            if (!item.blobUrl) {
-                continue;
+        clearAll();
+        storedItemsRef.current.clear();
+        try {
+            await clearSession();
+            setToast("Stored session cleared.");
+        } catch (error) {
+            setToast(`Couldn't clear the stored session: ${(error as Error).message}`);
+        }
+        refreshStorageUsage();
+    };
+
+    /** A card's own palette names its files, unless CGB or auto matching ignore it. */
+    const itemNamingPalette = (item: Item) =>
+        namingPalette === activePalette
+            ? (item.overrides?.palette ?? activePalette)
+            : namingPalette;
+
+    const itemFileName = (item: Item, date = new Date()) =>
+        outputFileName(
+            item.name,
+            itemNamingPalette(item),
+            item.frames ? animationFormat(animation).ext : outputFormat(output).ext,
+            fileNames,
+            {
+                w: String(item.width ?? ""),
+                h: String(item.height ?? ""),
+                index: indexToken(items.indexOf(item), items.length),
+                date: dateToken(date)
             }
-            const response = await fetch(item.blobUrl);
-            const blob = await response.blob();
-            const suffix = paletteMode === "gray" ? "-gs" : "-dmg";
-            zip.file(`${baseName(item.name)}${suffix}.png`, blob);
+        );
+
+    /** Animations export every frame, laid out as a strip. */
+    const itemLevels = (item: Item) => {
+        if (!item.levels || !item.width || !item.height) {
+            throw new Error("Item has not been converted yet.");
         }
-        const zipped = await zip.generateAsync({ type: "blob" });
-        const zipName = paletteMode === "gray" ? "img2dmg-selected-gs.zip" : "img2dmg-selected.zip";
-        downloadBlob(zipped, zipName);
+        return item.frames
+            ? stripLevels({ width: item.width, height: item.height, frames: item.frames })
+            : { levels: item.levels, width: item.width, height: item.height };
     };
 
-    const downloadAllZip = async () => {
-        if (!doneItems.length) {
+    const itemTileset = (item: Item) => {
+        const { levels, width, height } = itemLevels(item);
+        const tileset = buildTileset(levels, width, height, {
+            dedupeFlips: tileDedupeFlips,
+            budget: tileBudget
+        });
+        // Tiles are shared across palettes; the attribute map picks each cell's palette.
+        return item.cgb
+            ? { ...tileset, attributes: cgbAttributes(tileset, item.cgb.tilePalettes) }
+            : tileset;
+    };
+
+    const sourceFiles = (
+        item: Item,
+        format: SourceFormat,
+        symbol = toSymbol(baseName(item.name))
+    ): DownloadFile[] => {
+        if (item.sprites) {
+            return spriteSourceFiles(item.sprites, symbol, item.name, format);
+        }
+        const tileset = itemTileset(item);
+        const palettes = item.cgb ? cgbPaletteWords(item.cgb.palettes) : undefined;
+        if (format === "asm") {
+            const data = toRgbdsAsm(symbol, tileset, item.name, palettes);
+            return [{ name: `${symbol}.asm`, data }];
+        }
+        const { header, source } = toGbdkC(symbol, tileset, item.name, palettes);
+        return [
+            { name: `${symbol}.h`, data: header },
+            { name: `${symbol}.c`, data: source }
+        ];
+    };
+
+    const copyItemPng = async (item: Item) => {
+        try {
+            const blob = item.output ?? (await (await fetch(item.blobUrl!)).blob());
+            await copyPng(blob);
+            setToast(`Copied ${baseName(item.name)} to the clipboard as PNG.`);
+        } catch (error) {
+            setToast(`Couldn't copy ${item.name}: ${(error as Error).message}`);
+        }
+    };
+
+    /**
+     * Writes a converted 128x112 still into the loaded camera save: back to its
+     * own slot when it came from that save, otherwise to the first free one.
+     */
+    const writeToCamera = (item: Item) => {
+        // CGB levels index a different palette per tile, so they have no single shade order.
+        if (!cameraSave || !item.levels || item.cgb) {
+            return;
+        }
+        const own = item.camera?.save === cameraSave.name && !item.camera.thumbnail;
+        const slot = own ? item.camera!.slot : freeSlot(cameraSave.data);
+        if (slot < 0) {
+            setToast(`${cameraSave.name} has no free slot. Delete a photo on the camera first.`);
+            return;
+        }
+        try {
+            const levels = item.palette ? shadeLevels(item.levels, item.palette) : item.levels;
+            const data = writeCameraPhoto(cameraSave.data, slot, levels);
+            setCameraSave({ ...cameraSave, data });
+            setToast(`Wrote ${baseName(item.name)} to slot ${slot + 1} of ${cameraSave.name}.`);
+        } catch (error) {
+            setToast(`${item.name}: ${(error as Error).message}`);
+        }
+    };
+
+    const downloadCameraSave = () => {
+        if (cameraSave) {
+            downloadBlob(new Blob([cameraSave.data as BlobPart]), cameraSave.name);
+        }
+    };
+
+    const exportTiles = async (item: Item) => {
+        const name = baseName(item.name);
+        if (item.sprites) {
+            const { tiles, frames } = item.sprites;
+            const data = spriteTileData(item.sprites);
+            await downloadFiles([{ name: `${name}.${tileExt}`, data }], `${name}-tiles.zip`);
+            setToast(`${name}: ${tiles.length} sprite tiles for ${frames.length} frames.`);
+            return;
+        }
+        try {
+            const tileset = itemTileset(item);
+            const files: DownloadFile[] = [
+                { name: `${name}.${tileExt}`, data: tileData(tileset) },
+                { name: `${name}.tilemap`, data: tilemapData(tileset) }
+            ];
+            if (tileset.attributes) {
+                files.push({ name: `${name}.attrmap`, data: tileset.attributes });
+            }
+            if (item.cgb) {
+                files.push({ name: `${name}.pal`, data: cgbPaletteData(item.cgb.palettes) });
+            }
+            await downloadFiles(files, `${name}-tiles.zip`);
+            setToast(
+                `${name}: ${tileset.tiles.length} unique tiles for ` +
+                    `${tileset.map.length} cells (budget ${tileBudget}).`
+            );
+        } catch (error) {
+            setToast(`${name}: ${(error as Error).message}`);
+        }
+    };
+
+    const exportStrip = async (item: Item) => {
+        if (!item.frames || !item.width || !item.height) {
+            return;
+        }
+        const data = await encodeSpriteStrip(
+            { width: item.width, height: item.height, frames: item.frames },
+            item.palette ?? activePalette.colors,
+            alpha.mode,
+            deflate
+        );
+        downloadBlob(
+            new Blob([data as BlobPart], { type: "image/png" }),
+            outputFileName(`${baseName(item.name)}-strip.png`, itemNamingPalette(item))
+        );
+    };
+
+    const saveItemPalette = (item: Item) => {
+        if (!item.palette) {
+            return;
+        }
+        const name = baseName(item.name);
+        savePalette({ id: crypto.randomUUID(), name, colors: item.palette });
+        setToast(`Saved the ${name} palette. Find it under Palettes.`);
+    };
+
+    /** Extracts one palette from the selected images (or all of them) and switches to it. */
+    const extractBatchPalette = async () => {
+        const sources = selectedItems.length ? selectedItems : items;
+        if (!sources.length) {
             return;
         }
-        const zip = new JSZip();
-        for (const item of doneItems) {
-            if (!item.blobUrl) {
-                continue;
+        setExtracting(true);
+        try {
+            const previews = await Promise.all(
+                sources.map((item) => loadPreviewImage(item.file, PALETTE_SAMPLE_SIZE))
+            );
+            const colors = extractPalette(previews.map((preview) => imageOklab(preview, tone)));
+            if (!colors) {
+                setToast("The images have no opaque pixels to pick colors from.");
+                return;
             }
-            const response = await fetch(item.blobUrl);
-            const blob = await response.blob();
-            const suffix = paletteMode === "gray" ? "-gs" : "-dmg";
-            zip.file(`${baseName(item.name)}${suffix}.png`, blob);
+            const name =
+                sources.length === 1
+                    ? `Auto ${baseName(sources[0].name)}`
+                    : `Auto ${sources.length} images`;
+            const palette = { id: crypto.randomUUID(), name, colors };
+            savePalette(palette);
+            setPaletteId(palette.id);
+            setMatching("nearest");
+            setToast(`Saved and applied ${name}. Rename or export it under Palettes.`);
+        } catch (error) {
+            setToast(`Couldn't extract a palette: ${(error as Error).message}`);
+        } finally {
+            setExtracting(false);
+        }
+    };
+
+    const exportSource = async (item: Item, format: SourceFormat) => {
+        const name = baseName(item.name);
+        try {
+            const zipLabel = format === "asm" ? "rgbds" : "gbdk";
+            await downloadFiles(sourceFiles(item, format), `${name}-${zipLabel}.zip`);
+        } catch (error) {
+            setToast(`${name}: ${(error as Error).message}`);
+        }
+    };
+
+    /** Manifest rows for the images among entries, hashing their sources. */
+    const manifestEntries = (entries: ZipEntry[], itemsByEntry: Map<ZipEntry, Item>) =>
+        Promise.all(
+            entries.flatMap((entry) => {
+                const item = itemsByEntry.get(entry);
+                if (!item) {
+                    return [];
+                }
+                return [
+                    sha256Hex(item.file).then(
+                        (sourceSha256): ManifestEntry =>
+                            manifestEntry({
+                                source: inFolder(item.folder, item.name),
+                                sourceSha256,
+                                output: entry.name,
+                                width: item.width ?? 0,
+                                height: item.height ?? 0,
+                                frames: item.frames?.length,
+                                paletteName: itemNamingPalette(item).name,
+                                settings: {
+                                    ...withOverrides(convertSettings(), item.overrides),
+                                    // Auto matching and CGB mode pick each image's colors.
+                                    palette: item.palette ?? activePalette.colors
+                                }
+                            })
+                    )
+                ];
+            })
+        );
+
+    /**
+     * Streams a batch into one or more archives of at most zipSplit bytes. The
+     * picker opens first, while the click still counts as a user gesture.
+     */
+    const downloadZip = async (zipItems: Item[], zipName: string) => {
+        const failed: string[] = [];
+        const date = new Date();
+        const names = uniqueNames(
+            zipItems.map((item) => inFolder(item.folder, itemFileName(item, date)))
+        );
+        const itemsByEntry = new Map<ZipEntry, Item>();
+        // Images with the same name would otherwise export clashing symbols and source files.
+        const symbolFor = uniqueSymbols();
+        const groups = zipItems.flatMap((item, index): ZipEntry[][] => {
+            if (!item.output) {
+                return [];
+            }
+            const image: ZipEntry = { name: names[index], data: item.output };
+            itemsByEntry.set(image, item);
+            const entries = [image];
+            if (zipContents !== "png") {
+                try {
+                    const symbol = symbolFor(baseName(item.name));
+                    sourceFiles(item, zipContents, symbol).forEach((file) =>
+                        entries.push({ name: inFolder(item.folder, file.name), data: file.data })
+                    );
+                } catch (error) {
+                    failed.push(`${baseName(item.name)}: ${(error as Error).message}`);
+                }
+            }
+            return [entries];
+        });
+        const parts = splitArchives(groups, zipSplit);
+        const partNames = parts.map((_, index) => archivePartName(zipName, index, parts.length));
+        const controller = new AbortController();
+        try {
+            const openSink = await pickArchiveSinks(partNames);
+            zipAbortRef.current = controller;
+            for (const [index, entries] of parts.entries()) {
+                const name = partNames[index];
+                setZipExport({ name, progress: index / parts.length });
+                const manifest =
+                    manifestFormat === "none"
+                        ? null
+                        : manifestFile(
+                              manifestFormat,
+                              await manifestEntries(entries, itemsByEntry),
+                              date
+                          );
+                const sink = await openSink(name);
+                const onProgress = (progress: number) =>
+                    setZipExport({ name, progress: (index + progress) / parts.length });
+                try {
+                    const options = { compression: zipCompression, signal: controller.signal };
+                    const files = manifest ? [...entries, manifest] : entries;
+                    await streamZip(files, { ...options, onProgress }, sink.write);
+                    await sink.close();
+                } catch (error) {
+                    await sink.abort().catch(() => undefined);
+                    throw error;
+                }
+            }
+            const written = parts.length > 1 ? `Wrote ${parts.length} archives. ` : "";
+            if (written || failed.length) {
+                const skipped = failed.length ? `Skipped source export. ${failed.join(" ")}` : "";
+                setToast(written + skipped);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) {
+                setToast("ZIP download cancelled.");
+            } else if ((error as Error).name !== "AbortError") {
+                setToast(`Couldn't write ${zipName}: ${(error as Error).message}`);
+            }
+        } finally {
+            if (zipAbortRef.current === controller) {
+                zipAbortRef.current = null;
+                setZipExport(null);
+            }
+        }
+    };
+
+    const batchArchiveName = (label: string, count: number) =>
+        archiveName(label, namingPalette, archiveNames, {
+            count: String(count),
+            date: dateToken(new Date())
+        });
+
+    const downloadSelectedZip = async () => {
+        if (!selectedItems.length) {
+            return;
+        }
+        await downloadZip(selectedItems, batchArchiveName("selected", selectedItems.length));
+    };
+
+    const downloadAllZip = async () => {
+        if (!doneItems.length) {
+            return;
         }
-        const zipped = await zip.generateAsync({ type: "blob" });
-        const zipName = paletteMode === "gray" ? "img2dmg-all-gs.zip" : "img2dmg-all.zip";
-        downloadBlob(zipped, zipName);
+        await downloadZip(doneItems, batchArchiveName("all", doneItems.length));
     };
 
     const queuedLabel = queuedCount ? `${queuedCount} in queue` : "";
@@ -456,10 +1720,8 @@ const App = () => {
                         className="btn ghost tiny"
                         type="button"
                         aria-label="Toggle palette"
-                        title={paletteMode === "dmg" ? "Switch to gray palette" : "Switch to DMG palette"}
-                        onClick={() =>
-                            setPaletteMode((prev) => (prev === "dmg" ? "gray" : "dmg"))
-                        }
+                        title={`Switch to ${nextPalette.name} palette`}
+                        onClick={() => setPaletteId(nextPalette.id)}
                     >
                         <span className="palette-toggle-icon" aria-hidden="true">
                             <svg viewBox="0 0 24 24" role="presentation">
@@ -474,9 +1736,23 @@ const App = () => {
                             </svg>
                         </span>
                     </button>
-                    {paletteSwatches.map((color) => (
-                        <span key={color} className="swatch" style={{ background: color }} />
+                    {paletteSwatches.map((color, index) => (
+                        <span key={index} className="swatch" style={{ background: color }} />
                     ))}
+                    <button
+                        className="btn ghost tiny"
+                        type="button"
+                        onClick={() => setPaletteManagerOpen(true)}
+                    >
+                        Palettes
+                    </button>
+                    <button
+                        className="btn ghost tiny"
+                        type="button"
+                        onClick={() => setPresetManagerOpen(true)}
+                    >
+                        Presets
+                    </button>
                 </div>
             </header>
 
@@ -497,7 +1773,7 @@ const App = () => {
                     ref={fileInputRef}
                     type="file"
                     multiple
-                    accept="image/png,image/jpeg,image/jpg,image/webp,.zip"
+                    accept="image/png,image/apng,image/gif,image/jpeg,image/jpg,image/webp,.apng,.zip,.sav"
                     onChange={(event) => {
                         if (event.target.files) {
                             handleFiles(event.target.files);
@@ -509,7 +1785,8 @@ const App = () => {
                 <div>
                     <p className="drop-title">Drop files here</p>
                     <p className="drop-sub">
-                        PNG, JPG, WEBP, or ZIP (single image extension type)
+                        PNG, APNG, GIF, JPG, WEBP, ZIP (folders and nested ZIPs included), or
+                        a Game Boy Camera .sav
                     </p>
                 </div>
                 <div className="drop-actions">
@@ -519,30 +1796,562 @@ const App = () => {
                     <button className="btn ghost" type="button" onClick={clearAll}>
                         Clear list
                     </button>
+                    <label className="field checkbox" title="Also import each photo's thumbnail">
+                        <input
+                            type="checkbox"
+                            checked={cameraThumbnails}
+                            onChange={(event) => setCameraThumbnails(event.target.checked)}
+                        />
+                        <span>Camera thumbnails</span>
+                    </label>
+                    {canStoreSession() ? (
+                        <button className="btn ghost" type="button" onClick={clearStoredSession}>
+                            Clear stored session
+                        </button>
+                    ) : null}
                 </div>
                 {queuedLabel ? <span className="queue">{queuedLabel}</span> : null}
             </section>
 
             {message ? <div className="toast">{message}</div> : null}
 
+            {importReports.length ? (
+                <section className="import-report">
+                    <div className="import-report-head">
+                        <strong>Skipped ZIP entries</strong>
+                        <button
+                            className="btn ghost tiny"
+                            type="button"
+                            onClick={() => setImportReports([])}
+                        >
+                            Dismiss
+                        </button>
+                    </div>
+                    {importReports.map((report, index) => (
+                        <div key={index}>
+                            <p>
+                                {report.zipName}: imported {report.imported}, skipped{" "}
+                                {report.skipped.length}.
+                            </p>
+                            <ul>
+                                {report.skipped.slice(0, REPORT_LIMIT).map((entry) => (
+                                    <li key={entry.name}>
+                                        {entry.name} ({entry.reason})
+                                    </li>
+                                ))}
+                                {report.skipped.length > REPORT_LIMIT ? (
+                                    <li>and {report.skipped.length - REPORT_LIMIT} more</li>
+                                ) : null}
+                            </ul>
+                        </div>
+                    ))}
+                </section>
+            ) : null}
+
+            {cameraSave ? (
+                <section className="camera-save">
+                    <span>
+                        Game Boy Camera: {cameraSave.name},{" "}
+                        {usedSlots(cameraSave.data).length} of {CAMERA_SLOTS} slots used
+                    </span>
+                    <button className="btn tiny" type="button" onClick={downloadCameraSave}>
+                        Download .sav
+                    </button>
+                    <button
+                        className="btn ghost tiny"
+                        type="button"
+                        onClick={() => setCameraSave(null)}
+                    >
+                        Close
+                    </button>
+                </section>
+            ) : null}
+
+            <section className="settings">
+                <label className="field">
+                    <span>Hardware</span>
+                    <select
+                        value={hardware}
+                        onChange={(event) => setHardware(event.target.value as Hardware)}
+                    >
+                        {HARDWARE_MODES.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className={`field ${cgbMode || matching === "auto" ? "disabled" : ""}`}>
+                    <span>Palette</span>
+                    <select
+                        value={activePalette.id}
+                        disabled={cgbMode || matching === "auto"}
+                        onChange={(event) => setPaletteId(event.target.value)}
+                    >
+                        {palettes.map((palette) => (
+                            <option key={palette.id} value={palette.id}>
+                                {palette.name}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className={`field ${cgbMode ? "disabled" : ""}`}>
+                    <span>Colors</span>
+                    <select
+                        value={matching}
+                        disabled={cgbMode}
+                        onChange={(event) => setMatching(event.target.value as ColorMatching)}
+                    >
+                        {COLOR_MATCHINGS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    className="btn ghost"
+                    type="button"
+                    disabled={!hasItems || extracting || cgbMode}
+                    title="Save 4 colors picked from the selected images (or all) as a palette"
+                    onClick={extractBatchPalette}
+                >
+                    {extracting ? "Extracting..." : "Extract palette"}
+                </button>
+                <label className={`field ${cgbMode ? "disabled" : ""}`}>
+                    <span>Dither</span>
+                    <select
+                        value={ditherMode}
+                        disabled={cgbMode}
+                        onChange={(event) => setDitherMode(event.target.value as DitherMode)}
+                    >
+                        {DITHER_MODES.map((mode) => (
+                            <option key={mode.value} value={mode.value}>
+                                {mode.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label
+                    className={`field ${cgbMode || ditherMode === "none" ? "disabled" : ""}`}
+                >
+                    <span>Strength {Math.round(ditherStrength * 100)}%</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(ditherStrength * 100)}
+                        disabled={cgbMode || ditherMode === "none"}
+                        onChange={(event) => setDitherStrength(Number(event.target.value) / 100)}
+                    />
+                </label>
+                <label className="field">
+                    <span>Size</span>
+                    <select
+                        value={resize.preset}
+                        onChange={(event) =>
+                            updateResize({ preset: event.target.value as SizePreset })
+                        }
+                    >
+                        {SIZE_PRESETS.map((preset) => (
+                            <option key={preset.value} value={preset.value}>
+                                {preset.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {resize.preset === "custom" ? (
+                    <>
+                        <label className="field">
+                            <span>Width</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_CUSTOM_SIZE}
+                                value={resize.width}
+                                onChange={(event) =>
+                                    updateResize({ width: Number(event.target.value) })
+                                }
+                            />
+                        </label>
+                        <label className="field">
+                            <span>Height</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_CUSTOM_SIZE}
+                                value={resize.height}
+                                onChange={(event) =>
+                                    updateResize({ height: Number(event.target.value) })
+                                }
+                            />
+                        </label>
+                    </>
+                ) : null}
+                {resize.preset !== "source" ? (
+                    <>
+                        <label className="field">
+                            <span>Scaling</span>
+                            <select
+                                value={resize.fit}
+                                onChange={(event) =>
+                                    updateResize({ fit: event.target.value as ResizeFit })
+                                }
+                            >
+                                {RESIZE_FITS.map((fit) => (
+                                    <option key={fit.value} value={fit.value}>
+                                        {fit.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="field">
+                            <span>Resample</span>
+                            <select
+                                value={resize.resample}
+                                onChange={(event) =>
+                                    updateResize({ resample: event.target.value as Resample })
+                                }
+                            >
+                                {RESAMPLE_MODES.map((mode) => (
+                                    <option key={mode.value} value={mode.value}>
+                                        {mode.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </>
+                ) : null}
+                {resize.preset !== "source" && resize.fit === "fill" ? (
+                    <>
+                        <label className="field">
+                            <span>Focus X {Math.round(resize.focusX * 100)}%</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(resize.focusX * 100)}
+                                onChange={(event) =>
+                                    updateResize({ focusX: Number(event.target.value) / 100 })
+                                }
+                            />
+                        </label>
+                        <label className="field">
+                            <span>Focus Y {Math.round(resize.focusY * 100)}%</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(resize.focusY * 100)}
+                                onChange={(event) =>
+                                    updateResize({ focusY: Number(event.target.value) / 100 })
+                                }
+                            />
+                        </label>
+                    </>
+                ) : null}
+                <label className="field">
+                    <span>Image limit</span>
+                    <select
+                        value={decode.maxPixels}
+                        onChange={(event) =>
+                            updateDecode({ maxPixels: Number(event.target.value) })
+                        }
+                    >
+                        {MAX_PIXEL_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="field">
+                    <span>Over the limit</span>
+                    <select
+                        value={decode.oversize}
+                        onChange={(event) =>
+                            updateDecode({ oversize: event.target.value as OversizeMode })
+                        }
+                    >
+                        {OVERSIZE_MODES.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="field">
+                    <span>Output</span>
+                    <select
+                        value={output}
+                        onChange={(event) => setOutput(event.target.value as OutputFormat)}
+                    >
+                        {OUTPUT_FORMATS.map((format) => (
+                            <option key={format.value} value={format.value}>
+                                {format.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="field">
+                    <span>Alpha</span>
+                    <select
+                        value={alpha.mode}
+                        onChange={(event) => updateAlpha({ mode: event.target.value as AlphaMode })}
+                    >
+                        {ALPHA_MODES.map((option) => (
+                            <option
+                                key={option.value}
+                                value={option.value}
+                                disabled={cgbMode && option.value === "color0"}
+                            >
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {alpha.mode === "flatten" ? (
+                    <label className="field">
+                        <span>Flatten onto</span>
+                        <select
+                            value={alpha.flattenColor}
+                            onChange={(event) =>
+                                updateAlpha({ flattenColor: Number(event.target.value) })
+                            }
+                        >
+                            {COLOR_LABELS.map((label, index) => (
+                                <option key={label} value={index}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                ) : (
+                    <label className="field">
+                        <span>Alpha cutoff</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={255}
+                            value={alpha.threshold}
+                            title="Pixels with less alpha become transparent"
+                            onChange={(event) =>
+                                updateAlpha({ threshold: Number(event.target.value) })
+                            }
+                        />
+                    </label>
+                )}
+                <label className={`field ${cgbMode ? "disabled" : ""}`}>
+                    <span>Sprites</span>
+                    <select
+                        value={sprite.slicing}
+                        disabled={cgbMode}
+                        onChange={(event) =>
+                            updateSprite({ slicing: event.target.value as SpriteSlicing })
+                        }
+                    >
+                        {SPRITE_SLICINGS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {sprite.slicing === "grid" && !cgbMode ? (
+                    <>
+                        <label className="field">
+                            <span>Frame width</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_CUSTOM_SIZE}
+                                value={sprite.cellWidth}
+                                onChange={(event) =>
+                                    updateSprite({ cellWidth: Number(event.target.value) })
+                                }
+                            />
+                        </label>
+                        <label className="field">
+                            <span>Frame height</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_CUSTOM_SIZE}
+                                value={sprite.cellHeight}
+                                onChange={(event) =>
+                                    updateSprite({ cellHeight: Number(event.target.value) })
+                                }
+                            />
+                        </label>
+                    </>
+                ) : null}
+                {sprite.slicing !== "off" && !cgbMode ? (
+                    <>
+                        <label className="field">
+                            <span>Transparent</span>
+                            <select
+                                value={sprite.transparentIndex ?? "none"}
+                                onChange={(event) =>
+                                    updateSprite({
+                                        transparentIndex:
+                                            event.target.value === "none"
+                                                ? null
+                                                : Number(event.target.value)
+                                    })
+                                }
+                            >
+                                <option value="none">Alpha only</option>
+                                {COLOR_LABELS.map((label, index) => (
+                                    <option key={label} value={index}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="field">
+                            <span>Objects</span>
+                            <select
+                                value={sprite.objSize}
+                                onChange={(event) =>
+                                    updateSprite({ objSize: event.target.value as ObjSize })
+                                }
+                            >
+                                {OBJ_SIZES.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </>
+                ) : null}
+                <label className="field">
+                    <span>Animation</span>
+                    <select
+                        value={animation}
+                        onChange={(event) => setAnimation(event.target.value as AnimationFormat)}
+                    >
+                        {ANIMATION_FORMATS.map((format) => (
+                            <option key={format.value} value={format.value}>
+                                {format.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="field">
+                    <span>Tile data</span>
+                    <select
+                        value={tileExt}
+                        onChange={(event) => setTileExt(event.target.value as TileDataExt)}
+                    >
+                        <option value="2bpp">.2bpp</option>
+                        <option value="chr">.chr</option>
+                    </select>
+                </label>
+                <label className="field">
+                    <span>VRAM budget</span>
+                    <select
+                        value={tileBudget}
+                        onChange={(event) => setTileBudget(Number(event.target.value) as TileBudget)}
+                    >
+                        {TILE_BUDGETS.map((budget) => (
+                            <option key={budget} value={budget}>
+                                {budget} tiles
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="field checkbox">
+                    <input
+                        type="checkbox"
+                        checked={tileDedupeFlips}
+                        onChange={(event) => setTileDedupeFlips(event.target.checked)}
+                    />
+                    <span>Dedupe flipped tiles</span>
+                </label>
+            </section>
+
+            <ToneControls
+                tone={tone}
+                onChange={setTone}
+                preview={tonePreview}
+                palette={activePalette.colors}
+                matching={matching}
+                hardware={hardware}
+                dither={dither}
+                alpha={alpha}
+            />
+
             <section className="controls">
                 <div className="stats">
                     <span>Total: {stats.total}</span>
                     <span>Done: {stats.done}</span>
                     <span>Selected: {stats.selected}</span>
+                    {storageUsage ? (
+                        <span title={`Browser quota: ${formatBytes(storageUsage.quota)}`}>
+                            Stored: {formatBytes(storageUsage.usage)}
+                        </span>
+                    ) : null}
                 </div>
                 <div className="control-actions">
+                    <label className="field inline">
+                        <span>ZIP contents</span>
+                        <select
+                            value={zipContents}
+                            onChange={(event) => setZipContents(event.target.value as ZipContents)}
+                        >
+                            <option value="png">PNG</option>
+                            <option value="c">PNG + GBDK C</option>
+                            <option value="asm">PNG + RGBDS ASM</option>
+                        </select>
+                    </label>
+                    <label className="field inline">
+                        <span>Compression</span>
+                        <select
+                            value={zipCompression}
+                            onChange={(event) =>
+                                setZipCompression(event.target.value as ZipCompression)
+                            }
+                        >
+                            {ZIP_COMPRESSIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="field inline">
+                        <span>Split ZIP</span>
+                        <select
+                            value={zipSplit}
+                            onChange={(event) => setZipSplit(Number(event.target.value))}
+                        >
+                            {ZIP_SPLIT_SIZES.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
                     <button className="btn ghost" type="button" onClick={selectAll}>
                         Select all
                     </button>
                     <button className="btn ghost" type="button" onClick={clearSelection}>
                         Clear selection
                     </button>
+                    <button
+                        className="btn ghost"
+                        type="button"
+                        onClick={cancelAll}
+                        disabled={!activeCount}
+                    >
+                        Cancel all
+                    </button>
                     <button
                         className="btn"
                         type="button"
                         onClick={downloadSelectedZip}
-                        disabled={!selectedItems.length}
+                        disabled={!selectedItems.length || Boolean(zipExport)}
                     >
                         Download selected ZIP
                     </button>
@@ -550,11 +2359,71 @@ const App = () => {
                         className="btn"
                         type="button"
                         onClick={downloadAllZip}
-                        disabled={!hasDoneItems}
+                        disabled={!hasDoneItems || Boolean(zipExport)}
                     >
                         Download all ZIP
                     </button>
                 </div>
+                <div className="name-templates">
+                    <label className="field inline">
+                        <span>File names</span>
+                        <input
+                            type="text"
+                            value={fileTemplate}
+                            maxLength={MAX_TEMPLATE_LENGTH}
+                            spellCheck={false}
+                            title={tokenHelp(FILE_NAME_TOKENS)}
+                            aria-invalid={Boolean(fileTemplateError)}
+                            onChange={(event) => setFileTemplate(event.target.value)}
+                        />
+                    </label>
+                    <label className="field inline">
+                        <span>ZIP names</span>
+                        <input
+                            type="text"
+                            value={archiveTemplate}
+                            maxLength={MAX_TEMPLATE_LENGTH}
+                            spellCheck={false}
+                            title={tokenHelp(ARCHIVE_NAME_TOKENS)}
+                            aria-invalid={Boolean(archiveTemplateError)}
+                            onChange={(event) => setArchiveTemplate(event.target.value)}
+                        />
+                    </label>
+                    <label className="field inline">
+                        <span>Manifest</span>
+                        <select
+                            value={manifestFormat}
+                            onChange={(event) =>
+                                setManifestFormat(event.target.value as ManifestFormat)
+                            }
+                        >
+                            {MANIFEST_FORMATS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <p className="palette-hint">
+                        {fileTemplateError || archiveTemplateError
+                            ? `${fileTemplateError ?? archiveTemplateError} ` +
+                              "Using the default names until it is fixed."
+                            : TEMPLATE_HINT}
+                    </p>
+                </div>
+                {zipExport ? (
+                    <div className="zip-progress">
+                        <span>Writing {zipExport.name}</span>
+                        <progress className="progress" max={1} value={zipExport.progress} />
+                        <button
+                            className="btn ghost tiny"
+                            type="button"
+                            onClick={() => zipAbortRef.current?.abort()}
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                ) : null}
                 <div className="selection-strip">
                     {selectedItems.length ? (
                         selectedItems.map((item) =>
@@ -587,8 +2456,42 @@ const App = () => {
                     </div>
                 ) : null}
 
-                {items.map((item) => (
-                    <article key={item.id} className="card">
+                {items.map((item, index) => (
+                    <article
+                        key={item.id}
+                        ref={(node) => {
+                            if (node) {
+                                cardRefs.current.set(item.id, node);
+                            } else {
+                                cardRefs.current.delete(item.id);
+                            }
+                        }}
+                        className={`card ${draggingId === item.id ? "dragging" : ""}`}
+                        tabIndex={0}
+                        aria-label={`${item.name}, ${item.status}`}
+                        draggable
+                        onDragStart={(event) => {
+                            // Firefox only starts a drag that carries data.
+                            event.dataTransfer.setData("text/plain", item.name);
+                            event.dataTransfer.effectAllowed = "move";
+                            setDraggingId(item.id);
+                        }}
+                        onDragEnd={() => setDraggingId(null)}
+                        onDragOver={(event) => {
+                            if (draggingId) {
+                                event.preventDefault();
+                                event.dataTransfer.dropEffect = "move";
+                            }
+                        }}
+                        onDrop={(event) => {
+                            if (draggingId) {
+                                event.preventDefault();
+                                moveItem(draggingId, index);
+                                setDraggingId(null);
+                            }
+                        }}
+                        onKeyDown={(event) => handleCardKey(event, index)}
+                    >
                         <div className="card-top">
                             <label
                                 className={`dmg-check ${item.status !== "done" ? "disabled" : ""}`}
@@ -603,10 +2506,30 @@ const App = () => {
                                 <span className="dmg-check-mark" aria-hidden="true" />
                             </label>
                             <span className={`status ${item.status}`}>{item.status}</span>
+                            <div className="card-tools">
+                                <button
+                                    className="btn ghost tiny"
+                                    type="button"
+                                    title="Settings for this image only"
+                                    onClick={() => setEditingId(item.id)}
+                                >
+                                    Settings
+                                </button>
+                                <button
+                                    className="btn ghost tiny"
+                                    type="button"
+                                    title="Remove from the list"
+                                    aria-label={`Remove ${item.name}`}
+                                    onClick={() => removeItem(item.id)}
+                                >
+                                    Remove
+                                </button>
+                            </div>
                         </div>
                         <div className="preview">
                             {item.status === "done" && item.blobUrl ? (
                                 <img
+                                    className="checker"
                                     src={item.blobUrl}
                                     alt={`${item.name} converted`}
                                     onMouseEnter={() =>
@@ -616,30 +2539,165 @@ const App = () => {
                                 />
                             ) : (
                                 <div className="preview-placeholder">
-                                    {item.status === "error" ? item.error : "Converting..."}
+                                    {item.status === "error" ? (
+                                        <span>
+                                            {item.errorReason ? (
+                                                <strong>{failureLabel(item.errorReason)}: </strong>
+                                            ) : null}
+                                            {item.error}
+                                        </span>
+                                    ) : null}
+                                    {item.status === "cancelled" ? "Cancelled" : null}
+                                    {item.status === "queued" ? "Queued" : null}
+                                    {item.status === "processing" ? (
+                                        <>
+                                            <span>
+                                                Converting {Math.round((item.progress ?? 0) * 100)}%
+                                            </span>
+                                            <progress
+                                                className="progress"
+                                                max={1}
+                                                value={item.progress ?? 0}
+                                            />
+                                        </>
+                                    ) : null}
+                                    {item.status === "queued" || item.status === "processing" ? (
+                                        <button
+                                            className="btn ghost tiny"
+                                            type="button"
+                                            onClick={() => cancelItem(item.id)}
+                                        >
+                                            Cancel
+                                        </button>
+                                    ) : null}
+                                    {item.status === "error" || item.status === "cancelled" ? (
+                                        <button
+                                            className="btn ghost tiny"
+                                            type="button"
+                                            onClick={() => retryItem(item.id)}
+                                        >
+                                            Retry
+                                        </button>
+                                    ) : null}
                                 </div>
                             )}
                         </div>
                         <div className="card-meta">
                             <div>
-                                <p className="name">{baseName(item.name)}</p>
+                                <p className="name">
+                                    {inFolder(item.folder, baseName(item.name))}
+                                </p>
                                 {item.width && item.height ? (
                                     <p className="size">
                                         {item.width} x {item.height}
+                                        {item.sourceWidth &&
+                                        (item.sourceWidth !== item.width ||
+                                            item.sourceHeight !== item.height)
+                                            ? ` (from ${item.sourceWidth} x ${item.sourceHeight})`
+                                            : null}
+                                        {item.frames ? `, ${item.frames.length} frames` : null}
+                                        {item.firstFrameOnly
+                                            ? ", first frame only: over the image limit"
+                                            : null}
+                                        {item.cgb ? cgbSummary(item.cgb) : null}
+                                        {item.sprites ? spriteSummary(item.sprites) : null}
+                                    </p>
+                                ) : null}
+                                {item.overrides ? (
+                                    <p className="size">{overrideSummary(item.overrides)}</p>
+                                ) : null}
+                                {item.camera ? (
+                                    <p className={item.camera.deleted ? "size flagged" : "size"}>
+                                        {cameraLabel(item.camera)}
                                     </p>
                                 ) : null}
                             </div>
                             {item.status === "done" && item.blobUrl ? (
-                                <button
-                                    className="btn tiny"
-                                    type="button"
-                                    onClick={() => {
-                                        const suffix = paletteMode === "gray" ? "-gs" : "-dmg";
-                                        downloadUrl(item.blobUrl!, `${baseName(item.name)}${suffix}.png`);
-                                    }}
-                                >
-                                    Download
-                                </button>
+                                <div className="card-actions">
+                                    <button
+                                        className="btn tiny"
+                                        type="button"
+                                        onClick={() =>
+                                            downloadUrl(item.blobUrl!, itemFileName(item))
+                                        }
+                                    >
+                                        Download
+                                    </button>
+                                    <button
+                                        className="btn ghost tiny"
+                                        type="button"
+                                        title="Copy the image to the clipboard as PNG"
+                                        onClick={() => copyItemPng(item)}
+                                    >
+                                        Copy PNG
+                                    </button>
+                                    <button
+                                        className="btn ghost tiny"
+                                        type="button"
+                                        title="Compare with the original"
+                                        onClick={() => setComparingId(item.id)}
+                                    >
+                                        Compare
+                                    </button>
+                                    <button
+                                        className="btn ghost tiny"
+                                        type="button"
+                                        title="Export 2bpp tile data and tilemap"
+                                        onClick={() => exportTiles(item)}
+                                    >
+                                        Tiles
+                                    </button>
+                                    {matching === "auto" && item.palette ? (
+                                        <button
+                                            className="btn ghost tiny"
+                                            type="button"
+                                            title="Save this image's colors as a palette"
+                                            onClick={() => saveItemPalette(item)}
+                                        >
+                                            Save palette
+                                        </button>
+                                    ) : null}
+                                    {cameraSave &&
+                                    !item.frames &&
+                                    !item.cgb &&
+                                    item.width === CAMERA_WIDTH &&
+                                    item.height === CAMERA_HEIGHT ? (
+                                        <button
+                                            className="btn ghost tiny"
+                                            type="button"
+                                            title={`Write into ${cameraSave.name}`}
+                                            onClick={() => writeToCamera(item)}
+                                        >
+                                            Write to .sav
+                                        </button>
+                                    ) : null}
+                                    {item.frames ? (
+                                        <button
+                                            className="btn ghost tiny"
+                                            type="button"
+                                            title="Export the frames as a sprite sheet strip"
+                                            onClick={() => exportStrip(item)}
+                                        >
+                                            Strip
+                                        </button>
+                                    ) : null}
+                                    <button
+                                        className="btn ghost tiny"
+                                        type="button"
+                                        title="GBDK-2020 .c and .h"
+                                        onClick={() => exportSource(item, "c")}
+                                    >
+                                        Export as C
+                                    </button>
+                                    <button
+                                        className="btn ghost tiny"
+                                        type="button"
+                                        title="RGBDS .asm"
+                                        onClick={() => exportSource(item, "asm")}
+                                    >
+                                        Export as ASM
+                                    </button>
+                                </div>
                             ) : null}
                         </div>
                     </article>
@@ -649,11 +2707,76 @@ const App = () => {
             {hoveredPreview ? (
                 <div className="zoom-overlay" aria-hidden="true">
                     <div className="zoom-frame">
-                        <img src={hoveredPreview.url} alt={hoveredPreview.name} />
+                        <img
+                            className="checker"
+                            src={hoveredPreview.url}
+                            alt={hoveredPreview.name}
+                        />
                     </div>
                 </div>
             ) : null}
 
+            {paletteManagerOpen ? (
+                <PaletteManager
+                    palettes={palettes}
+                    activeId={activePalette.id}
+                    onSelect={setPaletteId}
+                    onSave={savePalette}
+                    onDelete={deletePalette}
+                    onMessage={setToast}
+                    onClose={() => setPaletteManagerOpen(false)}
+                />
+            ) : null}
+
+            {editing ? (
+                <ItemSettings
+                    name={inFolder(editing.folder, baseName(editing.name))}
+                    overrides={editing.overrides}
+                    palettes={palettes}
+                    palette={activePalette}
+                    dither={dither}
+                    resize={resize}
+                    tone={tone}
+                    paletteIgnored={cgbMode || matching === "auto"}
+                    onApply={(overrides) => updateOverrides(editing.id, overrides)}
+                    onClose={() => {
+                        setEditingId(null);
+                        focusCard(editing.id);
+                    }}
+                />
+            ) : null}
+
+            {presetManagerOpen ? (
+                <PresetManager
+                    presets={presets}
+                    activeId={lastPresetId}
+                    onApply={applyPreset}
+                    onSaveCurrent={saveCurrentPreset}
+                    onImport={(imported) => setPresets((prev) => [...prev, ...imported])}
+                    onDelete={deletePreset}
+                    onCopyLink={copyPresetLink}
+                    onMessage={setToast}
+                    onClose={() => setPresetManagerOpen(false)}
+                />
+            ) : null}
+
+            {comparing?.blobUrl && comparing.levels && comparing.width && comparing.height ? (
+                <CompareViewer
+                    name={baseName(comparing.name)}
+                    original={comparing.file}
+                    convertedUrl={comparing.blobUrl}
+                    levels={comparing.levels}
+                    width={comparing.width}
+                    height={comparing.height}
+                    sourceWidth={comparing.sourceWidth}
+                    sourceHeight={comparing.sourceHeight}
+                    resize={withOverrides(convertSettings(), comparing.overrides).resize}
+                    palette={comparing.palette ?? activePalette.colors}
+                    cgb={comparing.cgb}
+                    onClose={() => setComparingId(null)}
+                />
+            ) : null}
+
             <footer className="footer">
                 <p>Copyright © 2026 wtns.sh</p>
             </footer>
@@ -0,0 +1,50 @@
+import { promisify } from "node:util";
+import { deflate as zlibDeflate } from "node:zlib";
+import jpeg from "jpeg-js";
+import pngjs from "pngjs";
+import { Animation, detectAnimation } from "../core/animation";
+import { decodeError } from "../core/decode";
+import { decodeGif } from "../core/gif";
+import { decodeApng, Deflate } from "../core/png";
+import { RgbaImage } from "../core/resize";
+
+const { PNG } = pngjs;
+
+export const decodeImage = (data: Uint8Array, ext: string): RgbaImage => {
+    switch (ext) {
+        case "png":
+        case "apng": {
+            const png = PNG.sync.read(Buffer.from(data));
+            return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+        }
+        case "jpg":
+        case "jpeg": {
+            const decoded = jpeg.decode(data, { useTArray: true, formatAsRGBA: true });
+            return {
+                data: new Uint8ClampedArray(decoded.data),
+                width: decoded.width,
+                height: decoded.height
+            };
+        }
+        case "gif":
+            return decodeGif(data, 1).frames[0].image;
+        default:
+            throw decodeError("unsupported", `.${ext} input isn't supported by the CLI.`);
+    }
+};
+
+export const deflate: Deflate = async (data) => new Uint8Array(await promisify(zlibDeflate)(data));
+
+/** GIF and APNG frames; null for stills. */
+export const decodeAnimation = async (data: Uint8Array): Promise<Animation | null> => {
+    switch (detectAnimation(data)) {
+        case "gif":
+            return decodeGif(data);
+        case "apng":
+            return decodeApng(data, async (png) => decodeImage(png, "png"));
+        case "webp":
+            throw decodeError("unsupported", "WebP input is browser-only.");
+        default:
+            return null;
+    }
+};
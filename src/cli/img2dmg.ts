@@ -0,0 +1,519 @@
+#!/usr/bin/env node
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import JSZip from "jszip";
+import { ALPHA_MODES, AlphaMode, AlphaSettings, DEFAULT_ALPHA } from "../core/alpha";
+import {
+    ANIMATION_FORMATS,
+    AnimationFormat,
+    animationFormat,
+    DEFAULT_ANIMATION_FORMAT,
+    encodeAnimation,
+    isAnimated,
+    quantizeAnimation
+} from "../core/animation";
+import { countIssues } from "../core/cgb";
+import {
+    DecodeSettings,
+    decodeError,
+    DEFAULT_DECODE,
+    failureLabel,
+    failureOf,
+    inspectImage,
+    OVERSIZE_MODES,
+    OversizeMode,
+    orientImage
+} from "../core/decode";
+import { DEFAULT_DITHER, DITHER_MODES, DitherMode } from "../core/dither";
+import { outputFileName } from "../core/files";
+import {
+    MANIFEST_FORMATS,
+    ManifestEntry,
+    manifestEntry,
+    manifestFile,
+    ManifestFormat
+} from "../core/manifest";
+import {
+    dateToken,
+    DEFAULT_FILE_TEMPLATE,
+    FILE_NAME_TOKENS,
+    indexToken,
+    templateError,
+    uniqueNamer
+} from "../core/naming";
+import {
+    DEFAULT_OUTPUT_FORMAT,
+    encodeOutput,
+    OUTPUT_FORMATS,
+    OutputFormat,
+    outputFormat
+} from "../core/output";
+import {
+    AUTO_PALETTE,
+    BUILT_IN_PALETTES,
+    CGB_PALETTE,
+    Palette,
+    parsePaletteFile,
+    Rgb,
+    toHex
+} from "../core/palettes";
+import {
+    COLOR_MATCHINGS,
+    ColorMatching,
+    ConvertSettings,
+    DEFAULT_COLOR_MATCHING,
+    DEFAULT_HARDWARE,
+    Hardware,
+    HARDWARE_MODES,
+    quantizeImage
+} from "../core/pipeline";
+import {
+    DEFAULT_RESIZE,
+    MAX_CUSTOM_SIZE,
+    RESAMPLE_MODES,
+    Resample,
+    RESIZE_FITS,
+    ResizeFit,
+    resizeImage,
+    ResizeSettings,
+    RgbaImage,
+    SIZE_PRESETS,
+    SizePreset
+} from "../core/resize";
+import { DEFAULT_SPRITE } from "../core/sprites";
+import { DEFAULT_TONE, MAX_GAMMA, MIN_GAMMA, normalizeThresholds, ToneSettings } from "../core/tone";
+import { decodeAnimation, decodeImage, deflate } from "./codecs";
+import { collectInputs } from "./inputs";
+
+const list = (options: { value: string }[]) => options.map((option) => option.value).join(", ");
+
+const USAGE = `Usage: img2dmg [options] <files, directories, globs or .zip>...
+
+Reads PNG, APNG, GIF and JPEG. WebP input is browser-only and skipped.
+
+Options:
+  -p, --palette <name|file>   palette name or a .gpl/.pal/.hex file (default: dmg)
+                              ${list(BUILT_IN_PALETTES.map((palette) => ({ value: palette.id })))}
+      --hardware <mode>       ${list(HARDWARE_MODES)} (default: dmg)
+                              cgb builds per-tile color palettes and ignores --palette
+  -m, --match <mode>          ${list(COLOR_MATCHINGS)} (default: luminance)
+                              auto picks 4 colors per image and ignores --palette
+  -d, --dither <mode>         ${list(DITHER_MODES)} (default: none)
+      --strength <0-100>      dither strength in percent (default: 100)
+  -s, --size <preset|WxH>     a preset or e.g. 64x64 (default: source)
+                              ${list(SIZE_PRESETS.filter((preset) => preset.value !== "custom"))}
+      --fit <mode>            ${list(RESIZE_FITS)} (default: fit)
+      --focus <x,y>           fill crop focal point in percent (default: 50,50)
+      --resample <mode>       ${list(RESAMPLE_MODES)} (default: area)
+      --brightness <-100-100> brightness offset (default: 0)
+      --contrast <-100-100>   contrast adjustment (default: 0)
+      --gamma <0.2-5>         gamma, above 1 lifts midtones (default: 1)
+      --auto-levels           stretch each image's luminance range first
+      --thresholds <a,b,c>    luminance 0-255 where shades 2-4 begin (default: 64,128,192)
+      --alpha <mode>          ${list(ALPHA_MODES)} (default: threshold)
+      --alpha-threshold <1-255>
+                              alpha a pixel needs to stay opaque (default: 128)
+      --flatten-color <0-3>   color index flatten blends onto, 0 lightest (default: 0)
+      --max-pixels <MP>       largest source in megapixels (default: 32)
+      --oversize <mode>       ${list(OVERSIZE_MODES)} images over it (default: downscale)
+  -f, --format <format>       output for stills: ${list(OUTPUT_FORMATS)} (default: png-indexed)
+  -a, --animation <format>    output for animated GIF/APNG input: ${list(ANIMATION_FORMATS)} (default: gif)
+  -o, --out <dir|file.zip>    output directory, or a .zip to write one archive (default: .)
+  -n, --name <template>       output name without extension (default: ${DEFAULT_FILE_TEMPLATE})
+                              ${FILE_NAME_TOKENS.map((token) => `{${token.value}}`).join(" ")}
+      --manifest <format>     also write a manifest of sources, hashes and settings:
+                              ${list(MANIFEST_FORMATS.filter((format) => format.value !== "none"))}
+  -h, --help                  show this help
+`;
+
+class UsageError extends Error {}
+
+const oneOf = <T extends string>(value: string, options: { value: T }[], flag: string): T => {
+    const match = options.find((option) => option.value === value);
+    if (!match) {
+        throw new UsageError(`Unknown ${flag} "${value}".`);
+    }
+    return match.value;
+};
+
+const resolvePalette = async (value: string): Promise<Palette> => {
+    const builtIn = BUILT_IN_PALETTES.find(
+        (palette) =>
+            palette.id === value.toLowerCase() || palette.name.toLowerCase() === value.toLowerCase()
+    );
+    if (builtIn) {
+        return builtIn;
+    }
+    const text = await readFile(value, "utf8").catch(() => {
+        throw new UsageError(`Unknown palette "${value}".`);
+    });
+    const parsed = parsePaletteFile(path.basename(value), text);
+    return { id: "custom", name: parsed.name, colors: parsed.colors };
+};
+
+type ResizeFlags = { size?: string; fit?: string; focus?: string; resample?: string };
+
+const resolveResize = (values: ResizeFlags): ResizeSettings => {
+    const resize = { ...DEFAULT_RESIZE };
+    const size = values.size ?? "source";
+    const custom = /^(\d+)x(\d+)$/i.exec(size);
+    if (custom) {
+        resize.preset = "custom";
+        resize.width = Number(custom[1]);
+        resize.height = Number(custom[2]);
+    } else {
+        resize.preset = oneOf<SizePreset>(size, SIZE_PRESETS, "size");
+    }
+    if (values.fit) {
+        resize.fit = oneOf<ResizeFit>(values.fit, RESIZE_FITS, "fit mode");
+    }
+    if (values.resample) {
+        resize.resample = oneOf<Resample>(values.resample, RESAMPLE_MODES, "resample mode");
+    }
+    if (values.focus) {
+        const [x, y] = values.focus.split(",").map(Number);
+        if (!Number.isFinite(x) || !Number.isFinite(y)) {
+            throw new UsageError(`Invalid focus "${values.focus}", expected x,y.`);
+        }
+        resize.focusX = x / 100;
+        resize.focusY = y / 100;
+    }
+    return resize;
+};
+
+type ToneFlags = {
+    brightness?: string;
+    contrast?: string;
+    gamma?: string;
+    "auto-levels"?: boolean;
+    thresholds?: string;
+};
+
+const numberFlag = (
+    value: string | undefined,
+    flag: string,
+    fallback: number,
+    min: number,
+    max: number
+) => {
+    if (value === undefined) {
+        return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+        throw new UsageError(`Invalid ${flag} "${value}", expected ${min} to ${max}.`);
+    }
+    return parsed;
+};
+
+const resolveTone = (values: ToneFlags): ToneSettings => {
+    let thresholds = DEFAULT_TONE.thresholds;
+    if (values.thresholds) {
+        const parts = values.thresholds.split(",").map(Number);
+        if (parts.length !== 3 || parts.some((part) => !Number.isFinite(part))) {
+            throw new UsageError(`Invalid thresholds "${values.thresholds}", expected a,b,c.`);
+        }
+        thresholds = normalizeThresholds(parts);
+    }
+    return {
+        brightness: numberFlag(values.brightness, "brightness", 0, -100, 100) / 100,
+        contrast: numberFlag(values.contrast, "contrast", 0, -100, 100) / 100,
+        gamma: numberFlag(values.gamma, "gamma", DEFAULT_TONE.gamma, MIN_GAMMA, MAX_GAMMA),
+        autoLevels: values["auto-levels"] ?? false,
+        thresholds
+    };
+};
+
+type AlphaFlags = { alpha?: string; "alpha-threshold"?: string; "flatten-color"?: string };
+
+const resolveAlpha = (values: AlphaFlags): AlphaSettings => ({
+    mode: oneOf<AlphaMode>(values.alpha ?? DEFAULT_ALPHA.mode, ALPHA_MODES, "alpha mode"),
+    threshold: numberFlag(
+        values["alpha-threshold"],
+        "alpha threshold",
+        DEFAULT_ALPHA.threshold,
+        1,
+        255
+    ),
+    flattenColor: Math.round(
+        numberFlag(values["flatten-color"], "flatten color", DEFAULT_ALPHA.flattenColor, 0, 3)
+    )
+});
+
+/** Decoder failures are damaged files, or allocation failures on huge ones. */
+const decodeSource = async <T>(decode: () => Promise<T>) => {
+    try {
+        return await decode();
+    } catch (error) {
+        if (failureOf(error)) {
+            throw error;
+        }
+        const message = (error as Error).message;
+        throw decodeError(error instanceof RangeError ? "out-of-memory" : "corrupt", message);
+    }
+};
+
+/** Scales an oversize image down to the pixel limit, and to what resizing accepts. */
+const shrink = (image: RgbaImage, width: number, height: number) => {
+    const scale = Math.min(1, MAX_CUSTOM_SIZE / Math.max(width, height));
+    return resizeImage(image, {
+        ...DEFAULT_RESIZE,
+        preset: "custom",
+        width: width * scale,
+        height: height * scale,
+        fit: "stretch"
+    });
+};
+
+type DecodeFlags = { "max-pixels"?: string; oversize?: string };
+
+const resolveDecode = (values: DecodeFlags): DecodeSettings => ({
+    maxPixels:
+        numberFlag(values["max-pixels"], "max pixels", DEFAULT_DECODE.maxPixels / 1e6, 1, 1000) *
+        1e6,
+    oversize: oneOf<OversizeMode>(
+        values.oversize ?? DEFAULT_DECODE.oversize,
+        OVERSIZE_MODES,
+        "oversize mode"
+    )
+});
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            palette: { type: "string", short: "p" },
+            match: { type: "string", short: "m" },
+            hardware: { type: "string" },
+            dither: { type: "string", short: "d" },
+            strength: { type: "string" },
+            size: { type: "string", short: "s" },
+            fit: { type: "string" },
+            focus: { type: "string" },
+            resample: { type: "string" },
+            brightness: { type: "string" },
+            contrast: { type: "string" },
+            gamma: { type: "string" },
+            "auto-levels": { type: "boolean" },
+            thresholds: { type: "string" },
+            alpha: { type: "string" },
+            "alpha-threshold": { type: "string" },
+            "flatten-color": { type: "string" },
+            "max-pixels": { type: "string" },
+            oversize: { type: "string" },
+            format: { type: "string", short: "f" },
+            animation: { type: "string", short: "a" },
+            out: { type: "string", short: "o" },
+            name: { type: "string", short: "n" },
+            manifest: { type: "string" },
+            help: { type: "boolean", short: "h" }
+        }
+    });
+
+    if (values.help || !positionals.length) {
+        process.stdout.write(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const matching = oneOf<ColorMatching>(
+        values.match ?? DEFAULT_COLOR_MATCHING,
+        COLOR_MATCHINGS,
+        "color matching"
+    );
+    const hardware = oneOf<Hardware>(
+        values.hardware ?? DEFAULT_HARDWARE,
+        HARDWARE_MODES,
+        "hardware"
+    );
+    const palette =
+        hardware === "cgb"
+            ? CGB_PALETTE
+            : matching === "auto"
+              ? AUTO_PALETTE
+              : await resolvePalette(values.palette ?? "dmg");
+    const strength = values.strength === undefined ? 100 : Number(values.strength);
+    if (!Number.isFinite(strength)) {
+        throw new UsageError(`Invalid strength "${values.strength}".`);
+    }
+    const settings: ConvertSettings = {
+        hardware,
+        palette: palette.colors,
+        matching,
+        dither: {
+            mode: oneOf<DitherMode>(
+                values.dither ?? DEFAULT_DITHER.mode,
+                DITHER_MODES,
+                "dither mode"
+            ),
+            strength: strength / 100
+        },
+        resize: resolveResize(values),
+        tone: resolveTone(values),
+        alpha: resolveAlpha(values),
+        animation: oneOf<AnimationFormat>(
+            values.animation ?? DEFAULT_ANIMATION_FORMAT,
+            ANIMATION_FORMATS,
+            "animation format"
+        ),
+        output: oneOf<OutputFormat>(
+            values.format ?? DEFAULT_OUTPUT_FORMAT,
+            OUTPUT_FORMATS,
+            "output format"
+        ),
+        sprite: DEFAULT_SPRITE,
+        decode: resolveDecode(values)
+    };
+
+    const template = values.name ?? DEFAULT_FILE_TEMPLATE;
+    const nameError = templateError(template, FILE_NAME_TOKENS);
+    if (nameError) {
+        throw new UsageError(`Invalid name template "${template}". ${nameError}`);
+    }
+    const manifestFormat = values.manifest
+        ? oneOf<ManifestFormat>(values.manifest, MANIFEST_FORMATS, "manifest format")
+        : "none";
+    const started = new Date();
+    const unique = uniqueNamer();
+    const manifest: ManifestEntry[] = [];
+
+    let failures = 0;
+    const warn = (message: string) => {
+        failures += 1;
+        process.stderr.write(`img2dmg: ${message}\n`);
+    };
+
+    const inputs = await collectInputs(positionals, warn, (message) =>
+        process.stderr.write(`img2dmg: ${message}\n`)
+    );
+    const out = values.out ?? ".";
+    const zip = out.toLowerCase().endsWith(".zip") ? new JSZip() : null;
+
+    for (const [index, input] of inputs.entries()) {
+        const nameFor = (ext: string, width: number, height: number) =>
+            unique(
+                outputFileName(input.name, palette, ext, template, {
+                    w: String(width),
+                    h: String(height),
+                    index: indexToken(index, inputs.length),
+                    date: dateToken(started)
+                })
+            );
+        try {
+            const info = inspectImage(input.data, settings.decode);
+            const oversize =
+                info.decodeWidth < info.width || info.decodeHeight < info.height;
+            // Animations are decoded at full size, every frame; oversize ones convert
+            // their first frame alone, read without decoding the rest.
+            const animation = oversize
+                ? null
+                : await decodeSource(() => decodeAnimation(input.data));
+            let name: string;
+            let data: Uint8Array;
+            let summary: string;
+            let used: Rgb[];
+            let size: { width: number; height: number; frames?: number };
+            if (animation && animation.frames.length > 1) {
+                const converted = quantizeAnimation(animation, settings);
+                const { width, height } = converted;
+                name = nameFor(animationFormat(settings.animation).ext, width, height);
+                data = await encodeAnimation(
+                    settings.animation,
+                    converted,
+                    converted.palette,
+                    settings.alpha.mode,
+                    deflate
+                );
+                summary = `${converted.width}x${converted.height}, ${converted.frames.length} frames`;
+                used = converted.palette;
+                size = { width, height, frames: converted.frames.length };
+            } else {
+                // pngjs and jpeg-js only decode at full size, so oversize stills are
+                // shrunk after decoding.
+                const decoded =
+                    animation?.frames[0].image ??
+                    (await decodeSource(async () => decodeImage(input.data, info.type)));
+                const source = orientImage(
+                    oversize ? shrink(decoded, info.decodeWidth, info.decodeHeight) : decoded,
+                    info.orientation
+                );
+                const quantized = quantizeImage(source, settings);
+                const { image } = quantized;
+                name = nameFor(outputFormat(settings.output).ext, image.width, image.height);
+                data = await encodeOutput(
+                    settings.output,
+                    { ...quantized, width: image.width, height: image.height },
+                    quantized.palette,
+                    settings.alpha.mode,
+                    deflate
+                );
+                summary = `${image.width}x${image.height}`;
+                used = quantized.palette;
+                size = { width: image.width, height: image.height };
+                if (quantized.cgb) {
+                    const flagged = countIssues(quantized.cgb);
+                    summary += `, ${quantized.cgb.palettes.length} palettes`;
+                    summary += flagged ? `, ${flagged} tiles not exact` : "";
+                }
+                if (oversize && isAnimated(input.data)) {
+                    summary += ", first frame only: over the pixel limit";
+                }
+            }
+            if (zip) {
+                zip.file(name, data);
+            } else {
+                const target = path.join(out, name);
+                await mkdir(path.dirname(target), { recursive: true });
+                await writeFile(target, data);
+            }
+            if (matching === "auto") {
+                summary += `, palette ${used.map((color) => `#${toHex(color)}`).join(" ")}`;
+            }
+            process.stderr.write(`${input.origin} -> ${name} (${summary})\n`);
+            manifest.push(
+                manifestEntry({
+                    source: input.origin,
+                    sourceSha256: createHash("sha256").update(input.data).digest("hex"),
+                    output: name,
+                    ...size,
+                    paletteName: palette.name,
+                    settings: { ...settings, palette: used }
+                })
+            );
+        } catch (error) {
+            const reason = failureOf(error);
+            const label = reason ? `${failureLabel(reason)}: ` : "";
+            warn(`${input.origin}: ${label}${(error as Error).message}`);
+        }
+    }
+
+    const manifestOut = manifestFile(manifestFormat, manifest, started);
+    if (manifestOut && zip) {
+        zip.file(manifestOut.name, manifestOut.data);
+    } else if (manifestOut) {
+        await mkdir(out, { recursive: true });
+        await writeFile(path.join(out, manifestOut.name), manifestOut.data);
+    }
+
+    if (zip) {
+        await mkdir(path.dirname(path.resolve(out)), { recursive: true });
+        await writeFile(out, await zip.generateAsync({ type: "uint8array" }));
+        process.stderr.write(`Wrote ${out}\n`);
+    }
+
+    return failures ? 1 : 0;
+};
+
+main().then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error: Error) => {
+        process.stderr.write(`img2dmg: ${error.message}\n`);
+        if (error instanceof UsageError) {
+            process.stderr.write(`\n${USAGE}`);
+        }
+        process.exitCode = 2;
+    }
+);
@@ -0,0 +1,120 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { glob } from "tinyglobby";
+import { sniffImageType } from "../core/decode";
+import { extFromName, isSupportedExt } from "../core/files";
+import { readImageZip } from "../core/zip";
+
+export type InputImage = {
+    name: string;
+    ext: string;
+    data: Uint8Array;
+    /** Where the image came from, for log messages. */
+    origin: string;
+};
+
+/** The CLI has no WebP decoder, so WebP files are skipped with a note. */
+const BROWSER_ONLY = "webp";
+
+const isConvertible = (file: string) => {
+    const ext = extFromName(file);
+    return ext === "zip" || isSupportedExt(ext);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...(await walk(full)));
+        } else if (entry.isFile() && isConvertible(entry.name)) {
+            files.push(full);
+        }
+    }
+    return files.sort();
+};
+
+const expand = async (arg: string) => {
+    const info = await stat(arg).catch(() => null);
+    if (info?.isDirectory()) {
+        return walk(arg);
+    }
+    if (info?.isFile()) {
+        return [arg];
+    }
+    const matches = await glob(arg, { onlyFiles: true });
+    return matches.filter(isConvertible).sort();
+};
+
+/**
+ * Resolves files, directories (recursively), globs and ZIP batches into a
+ * flat list of images, applying the same ZIP rules as the web app. Skipped
+ * ZIP entries and WebP files go to note rather than warn, since they aren't
+ * failures.
+ */
+export const collectInputs = async (
+    args: string[],
+    warn: (message: string) => void,
+    note: (message: string) => void
+) => {
+    const images: InputImage[] = [];
+    const seen = new Set<string>();
+    const add = (image: InputImage) => {
+        if (image.ext === BROWSER_ONLY) {
+            note(`${image.origin}: skipped, WebP input is browser-only.`);
+        } else {
+            images.push(image);
+        }
+    };
+    for (const arg of args) {
+        const files = await expand(arg);
+        if (!files.length) {
+            warn(`${arg}: no matching images.`);
+        }
+        for (const file of files) {
+            // Overlapping arguments (a directory plus a glob inside it) list files twice.
+            const resolved = path.resolve(file);
+            if (seen.has(resolved)) {
+                continue;
+            }
+            seen.add(resolved);
+            const ext = extFromName(file);
+            if (ext === "zip") {
+                try {
+                    const { images: entries, skipped } = await readImageZip(await readFile(file));
+                    skipped.forEach((entry) =>
+                        note(`${file}:${entry.name}: skipped, ${entry.reason}.`)
+                    );
+                    entries.forEach((entry) =>
+                        add({
+                            name: entry.name,
+                            ext: entry.ext,
+                            data: entry.data,
+                            origin: `${file}:${entry.name}`
+                        })
+                    );
+                } catch (error) {
+                    warn(`${file}: ${(error as Error).message}`);
+                }
+            } else if (isSupportedExt(ext)) {
+                add({
+                    name: path.basename(file),
+                    ext,
+                    data: await readFile(file),
+                    origin: file
+                });
+            } else {
+                // Named files are recognised by their bytes, whatever their extension.
+                const data = await readFile(file);
+                const type = sniffImageType(data);
+                if (type) {
+                    add({ name: path.basename(file), ext: type, data, origin: file });
+                } else {
+                    warn(`${file}: unsupported file type.`);
+                }
+            }
+        }
+    }
+    return images;
+};
@@ -0,0 +1,78 @@
+import { baseName, extForMime, extFromName, isSupportedExt } from "./core/files";
+
+const PNG_TYPE = "image/png";
+
+const toPng = async (blob: Blob) => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(
+            (png) => (png ? resolve(png) : reject(new Error("Couldn't encode the PNG."))),
+            PNG_TYPE
+        )
+    );
+};
+
+/**
+ * Puts an image on the clipboard as PNG, the one image type every browser
+ * accepts there. Other formats are redrawn first; animations keep their
+ * first frame.
+ */
+export const copyPng = async (blob: Blob) => {
+    if (!navigator.clipboard?.write || typeof ClipboardItem === "undefined") {
+        throw new Error("This browser can't copy images.");
+    }
+    // Passing a promise keeps the write inside the click, which Safari requires.
+    const png = blob.type === PNG_TYPE ? Promise.resolve(blob) : toPng(blob);
+    await navigator.clipboard.write([new ClipboardItem({ [PNG_TYPE]: png })]);
+};
+
+/** A pasted http(s) URL, or null for any other text. */
+export const readImageUrl = (text: string) => {
+    const trimmed = text.trim();
+    if (/\s/.test(trimmed)) {
+        return null;
+    }
+    try {
+        const url = new URL(trimmed);
+        return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Downloads an image URL into a File named after its path. Fails when the
+ * server doesn't allow cross-origin reads or the response isn't an image.
+ */
+export const fetchImageFile = async (url: URL) => {
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch {
+        throw new Error(`Couldn't fetch ${url.host}. The site may not allow it.`);
+    }
+    if (!response.ok) {
+        throw new Error(`${url.host} answered ${response.status}.`);
+    }
+    const blob = await response.blob();
+    const ext = extForMime(blob.type);
+    if (!ext) {
+        throw new Error("The URL doesn't point to a supported image.");
+    }
+    const last = url.pathname.split("/").pop() ?? "";
+    let pathName = last;
+    try {
+        pathName = decodeURIComponent(last);
+    } catch {
+        // Keep the encoded name.
+    }
+    const name = isSupportedExt(extFromName(pathName))
+        ? pathName
+        : `${baseName(pathName) || "pasted"}.${ext}`;
+    return new File([blob], name, { type: blob.type });
+};
@@ -0,0 +1,302 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { cgbCell, cgbColor, CgbImage } from "../core/cgb";
+import { Rgb, toHex } from "../core/palettes";
+import { resizeLayout, ResizeSettings } from "../core/resize";
+import { levelToColorIndex, TILE_SIZE } from "../core/tiles";
+
+type CompareMode = "split" | "side";
+
+type CompareViewerProps = {
+    name: string;
+    original: Blob;
+    convertedUrl: string;
+    /** Shade levels of the converted image (the first frame for animations). */
+    levels: Uint8Array;
+    width: number;
+    height: number;
+    /** Upright size of the source, and how it was resized, to line the original up. */
+    sourceWidth?: number;
+    sourceHeight?: number;
+    resize: ResizeSettings;
+    palette: Rgb[];
+    /** Per-tile palettes when the image was converted in CGB mode. */
+    cgb?: CgbImage;
+    onClose: () => void;
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+/** Rough viewport size used to pick the starting zoom. */
+const FIT_SIZE = 480;
+
+type Point = { x: number; y: number };
+
+/** One pixel per tile, red where the tile couldn't be drawn exactly, as a data URL. */
+const issueOverlay = (cgb: CgbImage) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = cgb.columns;
+    canvas.height = cgb.rows;
+    const ctx = canvas.getContext("2d")!;
+    const overlay = ctx.createImageData(cgb.columns, cgb.rows);
+    cgb.issues.forEach((issue, cell) => {
+        if (issue) {
+            overlay.data.set([255, 0, 0, 112], cell * 4);
+        }
+    });
+    ctx.putImageData(overlay, 0, 0);
+    return canvas.toDataURL();
+};
+
+const CompareViewer = ({
+    name,
+    original,
+    convertedUrl,
+    levels,
+    width,
+    height,
+    sourceWidth,
+    sourceHeight,
+    resize,
+    palette,
+    cgb,
+    onClose
+}: CompareViewerProps) => {
+    const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+    const [mode, setMode] = useState<CompareMode>("split");
+    const [split, setSplit] = useState(0.5);
+    const [zoom, setZoom] = useState(() =>
+        Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, Math.floor(FIT_SIZE / Math.max(width, height))))
+    );
+    const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+    const [showGrid, setShowGrid] = useState(false);
+    const [showIssues, setShowIssues] = useState(false);
+    const [cursor, setCursor] = useState<Point | null>(null);
+    const dragRef = useRef<{ start: Point; pan: Point } | null>(null);
+
+    const issuesUrl = useMemo(() => (cgb ? issueOverlay(cgb) : null), [cgb]);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(original);
+        setOriginalUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [original]);
+
+    const startPan = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = { start: { x: event.clientX, y: event.clientY }, pan };
+    };
+
+    const movePan = (event: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (drag) {
+            setPan({
+                x: drag.pan.x + event.clientX - drag.start.x,
+                y: drag.pan.y + event.clientY - drag.start.y
+            });
+        }
+    };
+
+    const endPan = () => {
+        dragRef.current = null;
+    };
+
+    const trackCursor = (event: React.PointerEvent<HTMLDivElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const x = Math.floor((event.clientX - rect.left) / zoom);
+        const y = Math.floor((event.clientY - rect.top) / zoom);
+        setCursor(x >= 0 && y >= 0 && x < width && y < height ? { x, y } : null);
+    };
+
+    const layerStyle: React.CSSProperties = {
+        width: width * zoom,
+        height: height * zoom,
+        transform: `translate(calc(-50% + ${pan.x}px), calc(-50% + ${pan.y}px))`
+    };
+
+    const gridStyle: React.CSSProperties = {
+        backgroundSize: `${TILE_SIZE * zoom}px ${TILE_SIZE * zoom}px`
+    };
+
+    const renderViewport = (layers: React.ReactNode, label: string) => (
+        <div
+            className="compare-viewport"
+            aria-label={label}
+            onPointerDown={startPan}
+            onPointerMove={movePan}
+            onPointerUp={endPan}
+            onPointerCancel={endPan}
+        >
+            <div
+                className="compare-layer"
+                style={layerStyle}
+                onPointerMove={trackCursor}
+                onPointerLeave={() => setCursor(null)}
+            >
+                {layers}
+                {showIssues && issuesUrl ? (
+                    <img className="compare-issues" src={issuesUrl} alt="" draggable={false} />
+                ) : null}
+                {showGrid ? <div className="compare-grid" style={gridStyle} /> : null}
+            </div>
+        </div>
+    );
+
+    // The original is drawn where the resize put it: cropped for fill, letterboxed for fit.
+    // Sessions from before source sizes were kept only get its aspect ratio.
+    const originalStyle = ((): React.CSSProperties => {
+        if (!sourceWidth || !sourceHeight) {
+            return { inset: 0, objectFit: "contain" };
+        }
+        const full = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+        const { from, to } = resizeLayout(sourceWidth, sourceHeight, resize) ?? {
+            from: full,
+            to: { x: 0, y: 0, width, height }
+        };
+        const scaleX = (to.width / from.width) * zoom;
+        const scaleY = (to.height / from.height) * zoom;
+        return {
+            left: to.x * zoom - from.x * scaleX,
+            top: to.y * zoom - from.y * scaleY,
+            width: sourceWidth * scaleX,
+            height: sourceHeight * scaleY
+        };
+    })();
+    const originalImage = originalUrl ? (
+        <img
+            className="compare-original"
+            src={originalUrl}
+            alt={`${name} original`}
+            draggable={false}
+            style={originalStyle}
+        />
+    ) : null;
+    const convertedImage = (clip?: string) => (
+        <img
+            className="checker"
+            src={convertedUrl}
+            alt={`${name} converted`}
+            draggable={false}
+            style={clip ? { clipPath: clip } : undefined}
+        />
+    );
+
+    const p = cursor ? cursor.y * width + cursor.x : null;
+    const level = p !== null ? levels[p] : null;
+    const color =
+        p === null || level === null
+            ? null
+            : cgb
+              ? cgbColor(cgb, width, p, level)
+              : palette[level];
+
+    return (
+        <div className="modal-backdrop" role="presentation" onClick={onClose}>
+            <div
+                className="modal compare-viewer"
+                role="dialog"
+                aria-modal="true"
+                aria-label={`Compare ${name}`}
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="modal-head">
+                    <h2>{name}</h2>
+                    <button className="btn ghost tiny" type="button" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+
+                <div className="compare-toolbar">
+                    <label className="field inline">
+                        <span>View</span>
+                        <select
+                            value={mode}
+                            onChange={(event) => setMode(event.target.value as CompareMode)}
+                        >
+                            <option value="split">Split</option>
+                            <option value="side">Side by side</option>
+                        </select>
+                    </label>
+                    <label className="field inline">
+                        <span>Zoom {zoom}x</span>
+                        <input
+                            type="range"
+                            min={MIN_ZOOM}
+                            max={MAX_ZOOM}
+                            value={zoom}
+                            onChange={(event) => setZoom(Number(event.target.value))}
+                        />
+                    </label>
+                    <label className="field checkbox">
+                        <input
+                            type="checkbox"
+                            checked={showGrid}
+                            onChange={(event) => setShowGrid(event.target.checked)}
+                        />
+                        <span>8x8 grid</span>
+                    </label>
+                    {cgb ? (
+                        <label className="field checkbox">
+                            <input
+                                type="checkbox"
+                                checked={showIssues}
+                                onChange={(event) => setShowIssues(event.target.checked)}
+                            />
+                            <span>Flag tiles</span>
+                        </label>
+                    ) : null}
+                    <button
+                        className="btn ghost tiny"
+                        type="button"
+                        onClick={() => setPan({ x: 0, y: 0 })}
+                    >
+                        Center
+                    </button>
+                </div>
+
+                {mode === "split" ? (
+                    <>
+                        {renderViewport(
+                            <>
+                                {originalImage}
+                                {convertedImage(`inset(0 0 0 ${split * 100}%)`)}
+                                <span className="compare-divider" style={{ left: `${split * 100}%` }} />
+                            </>,
+                            "Original and converted"
+                        )}
+                        <label className="field">
+                            <span>Split {Math.round(split * 100)}%</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(split * 100)}
+                                onChange={(event) => setSplit(Number(event.target.value) / 100)}
+                            />
+                        </label>
+                    </>
+                ) : (
+                    <div className="compare-side">
+                        {renderViewport(originalImage, "Original")}
+                        {renderViewport(convertedImage(), "Converted")}
+                    </div>
+                )}
+
+                <p className="compare-readout">
+                    {cursor && p !== null && level !== null && color ? (
+                        <>
+                            <span className="swatch" style={{ background: `#${toHex(color)}` }} />
+                            {cursor.x}, {cursor.y} (tile {Math.floor(cursor.x / TILE_SIZE)},{" "}
+                            {Math.floor(cursor.y / TILE_SIZE)}):{" "}
+                            {cgb ? `palette ${cgb.tilePalettes[cgbCell(cgb, width, p)]}, ` : null}
+                            color {levelToColorIndex(level)} #{toHex(color)}
+                        </>
+                    ) : (
+                        `${width} x ${height}. Drag to pan, hover for the palette index.`
+                    )}
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default CompareViewer;
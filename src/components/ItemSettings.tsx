@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { DITHER_MODES, DitherMode, DitherSettings } from "../core/dither";
+import { Palette } from "../core/palettes";
+import { ItemOverrides } from "../core/pipeline";
+import {
+    MAX_CUSTOM_SIZE,
+    RESAMPLE_MODES,
+    Resample,
+    RESIZE_FITS,
+    ResizeFit,
+    ResizeSettings,
+    SIZE_PRESETS,
+    SizePreset
+} from "../core/resize";
+import { MAX_GAMMA, MIN_GAMMA, ToneSettings } from "../core/tone";
+
+type ItemSettingsProps = {
+    name: string;
+    overrides: ItemOverrides | undefined;
+    palettes: Palette[];
+    /** Global settings, which each section starts from when it is turned on. */
+    palette: Palette;
+    dither: DitherSettings;
+    resize: ResizeSettings;
+    tone: ToneSettings;
+    /** CGB mode and auto matching ignore palettes, so the choice is disabled. */
+    paletteIgnored: boolean;
+    /** Saves the overrides, or undefined to follow the global settings again. */
+    onApply: (overrides: ItemOverrides | undefined) => void;
+    onClose: () => void;
+};
+
+/** Only the sections that are turned on, or undefined when none are. */
+const cleaned = (overrides: ItemOverrides): ItemOverrides | undefined => {
+    const set = Object.entries(overrides).filter(([, value]) => value);
+    return set.length ? Object.fromEntries(set) : undefined;
+};
+
+const ItemSettings = ({
+    name,
+    overrides,
+    palettes,
+    palette,
+    dither,
+    resize,
+    tone,
+    paletteIgnored,
+    onApply,
+    onClose
+}: ItemSettingsProps) => {
+    const [draft, setDraft] = useState<ItemOverrides>(overrides ?? {});
+
+    const update = (patch: ItemOverrides) => setDraft((prev) => ({ ...prev, ...patch }));
+
+    const updateDither = (patch: Partial<DitherSettings>) =>
+        update({ dither: { ...(draft.dither ?? dither), ...patch } });
+
+    const updateResize = (patch: Partial<ResizeSettings>) =>
+        update({ resize: { ...(draft.resize ?? resize), ...patch } });
+
+    const updateTone = (patch: Partial<ToneSettings>) =>
+        update({ tone: { ...(draft.tone ?? tone), ...patch } });
+
+    const ownDither = draft.dither;
+    const ownResize = draft.resize;
+    const ownTone = draft.tone;
+    // A custom palette deleted since it was picked still applies, so it stays listed.
+    const removedPalette =
+        draft.palette && !palettes.some((entry) => entry.id === draft.palette?.id)
+            ? draft.palette
+            : null;
+
+    return (
+        <div className="modal-backdrop" role="presentation" onClick={onClose}>
+            <div
+                className="modal item-settings"
+                role="dialog"
+                aria-modal="true"
+                aria-label={`Settings for ${name}`}
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="modal-head">
+                    <h2>{name}</h2>
+                    <button className="btn ghost tiny" type="button" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+                <p className="palette-hint">
+                    Settings turned on here replace the global ones for this image only.
+                </p>
+
+                <label className={`field ${paletteIgnored ? "disabled" : ""}`}>
+                    <span>Palette</span>
+                    <select
+                        value={draft.palette?.id ?? ""}
+                        disabled={paletteIgnored}
+                        onChange={(event) =>
+                            update({
+                                palette:
+                                    event.target.value === removedPalette?.id
+                                        ? removedPalette
+                                        : palettes.find((entry) => entry.id === event.target.value)
+                            })
+                        }
+                    >
+                        <option value="">Global ({palette.name})</option>
+                        {removedPalette ? (
+                            <option value={removedPalette.id}>{removedPalette.name}</option>
+                        ) : null}
+                        {palettes.map((entry) => (
+                            <option key={entry.id} value={entry.id}>
+                                {entry.name}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                <div className="item-settings-group">
+                    <label className="field checkbox">
+                        <input
+                            type="checkbox"
+                            checked={Boolean(ownDither)}
+                            onChange={(event) =>
+                                update({ dither: event.target.checked ? dither : undefined })
+                            }
+                        />
+                        <span>Own dithering</span>
+                    </label>
+                    {ownDither ? (
+                        <div className="item-settings-fields">
+                            <label className="field">
+                                <span>Dither</span>
+                                <select
+                                    value={ownDither.mode}
+                                    onChange={(event) =>
+                                        updateDither({ mode: event.target.value as DitherMode })
+                                    }
+                                >
+                                    {DITHER_MODES.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="field">
+                                <span>Strength {Math.round(ownDither.strength * 100)}%</span>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={100}
+                                    value={Math.round(ownDither.strength * 100)}
+                                    disabled={ownDither.mode === "none"}
+                                    onChange={(event) =>
+                                        updateDither({ strength: Number(event.target.value) / 100 })
+                                    }
+                                />
+                            </label>
+                        </div>
+                    ) : null}
+                </div>
+
+                <div className="item-settings-group">
+                    <label className="field checkbox">
+                        <input
+                            type="checkbox"
+                            checked={Boolean(ownResize)}
+                            onChange={(event) =>
+                                update({ resize: event.target.checked ? resize : undefined })
+                            }
+                        />
+                        <span>Own size</span>
+                    </label>
+                    {ownResize ? (
+                        <div className="item-settings-fields">
+                            <label className="field">
+                                <span>Size</span>
+                                <select
+                                    value={ownResize.preset}
+                                    onChange={(event) =>
+                                        updateResize({ preset: event.target.value as SizePreset })
+                                    }
+                                >
+                                    {SIZE_PRESETS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            {ownResize.preset === "custom" ? (
+                                <>
+                                    <label className="field">
+                                        <span>Width</span>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_CUSTOM_SIZE}
+                                            value={ownResize.width}
+                                            onChange={(event) =>
+                                                updateResize({ width: Number(event.target.value) })
+                                            }
+                                        />
+                                    </label>
+                                    <label className="field">
+                                        <span>Height</span>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={MAX_CUSTOM_SIZE}
+                                            value={ownResize.height}
+                                            onChange={(event) =>
+                                                updateResize({ height: Number(event.target.value) })
+                                            }
+                                        />
+                                    </label>
+                                </>
+                            ) : null}
+                            {ownResize.preset !== "source" ? (
+                                <>
+                                    <label className="field">
+                                        <span>Scaling</span>
+                                        <select
+                                            value={ownResize.fit}
+                                            onChange={(event) =>
+                                                updateResize({
+                                                    fit: event.target.value as ResizeFit
+                                                })
+                                            }
+                                        >
+                                            {RESIZE_FITS.map((option) => (
+                                                <option key={option.value} value={option.value}>
+                                                    {option.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label className="field">
+                                        <span>Resample</span>
+                                        <select
+                                            value={ownResize.resample}
+                                            onChange={(event) =>
+                                                updateResize({
+                                                    resample: event.target.value as Resample
+                                                })
+                                            }
+                                        >
+                                            {RESAMPLE_MODES.map((option) => (
+                                                <option key={option.value} value={option.value}>
+                                                    {option.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                </>
+                            ) : null}
+                        </div>
+                    ) : null}
+                </div>
+
+                <div className="item-settings-group">
+                    <label className="field checkbox">
+                        <input
+                            type="checkbox"
+                            checked={Boolean(ownTone)}
+                            onChange={(event) =>
+                                update({ tone: event.target.checked ? tone : undefined })
+                            }
+                        />
+                        <span>Own tone</span>
+                    </label>
+                    {ownTone ? (
+                        <div className="item-settings-fields">
+                            <label className="field">
+                                <span>Brightness {Math.round(ownTone.brightness * 100)}</span>
+                                <input
+                                    type="range"
+                                    min={-100}
+                                    max={100}
+                                    value={Math.round(ownTone.brightness * 100)}
+                                    onChange={(event) =>
+                                        updateTone({ brightness: Number(event.target.value) / 100 })
+                                    }
+                                />
+                            </label>
+                            <label className="field">
+                                <span>Contrast {Math.round(ownTone.contrast * 100)}</span>
+                                <input
+                                    type="range"
+                                    min={-100}
+                                    max={100}
+                                    value={Math.round(ownTone.contrast * 100)}
+                                    onChange={(event) =>
+                                        updateTone({ contrast: Number(event.target.value) / 100 })
+                                    }
+                                />
+                            </label>
+                            <label className="field">
+                                <span>Gamma {ownTone.gamma.toFixed(2)}</span>
+                                <input
+                                    type="range"
+                                    min={MIN_GAMMA}
+                                    max={MAX_GAMMA}
+                                    step={0.05}
+                                    value={ownTone.gamma}
+                                    onChange={(event) =>
+                                        updateTone({ gamma: Number(event.target.value) })
+                                    }
+                                />
+                            </label>
+                            <label className="field checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={ownTone.autoLevels}
+                                    onChange={(event) =>
+                                        updateTone({ autoLevels: event.target.checked })
+                                    }
+                                />
+                                <span>Auto levels</span>
+                            </label>
+                        </div>
+                    ) : null}
+                </div>
+
+                <div className="modal-foot">
+                    <button
+                        className="btn ghost"
+                        type="button"
+                        onClick={() => {
+                            onApply(undefined);
+                            onClose();
+                        }}
+                    >
+                        Use global settings
+                    </button>
+                    <button
+                        className="btn"
+                        type="button"
+                        onClick={() => {
+                            onApply(cleaned(draft));
+                            onClose();
+                        }}
+                    >
+                        Apply and convert
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ItemSettings;
@@ -0,0 +1,240 @@
+import { useRef, useState } from "react";
+import {
+    fromHex,
+    Palette,
+    PALETTE_FORMATS,
+    PALETTE_IMPORT_EXTS,
+    PaletteFormat,
+    parsePaletteFile,
+    Rgb,
+    serializePalette,
+    slugify,
+    toHex
+} from "../core/palettes";
+import { downloadBlob } from "../download";
+
+type PaletteManagerProps = {
+    palettes: Palette[];
+    activeId: string;
+    onSelect: (id: string) => void;
+    onSave: (palette: Palette) => void;
+    onDelete: (id: string) => void;
+    onMessage: (text: string) => void;
+    onClose: () => void;
+};
+
+const swatchColor = (palette: Palette, index: number) => {
+    const c = palette.colors[index];
+    return `rgb(${c.r}, ${c.g}, ${c.b})`;
+};
+
+const PaletteManager = ({
+    palettes,
+    activeId,
+    onSelect,
+    onSave,
+    onDelete,
+    onMessage,
+    onClose
+}: PaletteManagerProps) => {
+    const [editingId, setEditingId] = useState(activeId);
+    const [exportFormat, setExportFormat] = useState<PaletteFormat>("gpl");
+    const importRef = useRef<HTMLInputElement | null>(null);
+
+    const editing = palettes.find((palette) => palette.id === editingId) ?? palettes[0];
+
+    const createFrom = (source: { colors: Rgb[] }, name: string) => {
+        const palette: Palette = {
+            id: crypto.randomUUID(),
+            name,
+            colors: source.colors.map((c) => ({ ...c }))
+        };
+        onSave(palette);
+        setEditingId(palette.id);
+        return palette;
+    };
+
+    const handleImport = async (files: FileList) => {
+        for (const file of Array.from(files)) {
+            try {
+                const parsed = parsePaletteFile(file.name, await file.text());
+                const palette = createFrom(parsed, parsed.name);
+                if (parsed.truncated) {
+                    onMessage(`${palette.name}: kept the first 4 colors.`);
+                }
+            } catch (error) {
+                onMessage(`${file.name}: ${(error as Error).message}`);
+            }
+        }
+    };
+
+    const handleExport = () => {
+        const text = serializePalette(editing, exportFormat);
+        downloadBlob(
+            new Blob([text], { type: "text/plain" }),
+            `${slugify(editing.name)}.${exportFormat}`
+        );
+    };
+
+    const updateColor = (index: number, hex: string) => {
+        const color = fromHex(hex);
+        if (!color || editing.builtIn) {
+            return;
+        }
+        onSave({
+            ...editing,
+            colors: editing.colors.map((c, i) => (i === index ? color : c))
+        });
+    };
+
+    return (
+        <div className="modal-backdrop" role="presentation" onClick={onClose}>
+            <div
+                className="modal palette-manager"
+                role="dialog"
+                aria-modal="true"
+                aria-label="Palette manager"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="modal-head">
+                    <h2>Palettes</h2>
+                    <button className="btn ghost tiny" type="button" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+
+                <ul className="palette-list">
+                    {palettes.map((palette) => (
+                        <li
+                            key={palette.id}
+                            className={`palette-row ${palette.id === editing.id ? "editing" : ""}`}
+                        >
+                            <button
+                                className="palette-pick"
+                                type="button"
+                                onClick={() => setEditingId(palette.id)}
+                            >
+                                {palette.colors.map((_, index) => (
+                                    <span
+                                        key={index}
+                                        className="swatch"
+                                        style={{ background: swatchColor(palette, index) }}
+                                    />
+                                ))}
+                                <span className="palette-name">{palette.name}</span>
+                            </button>
+                            {palette.id === activeId ? (
+                                <span className="palette-active">Active</span>
+                            ) : (
+                                <button
+                                    className="btn ghost tiny"
+                                    type="button"
+                                    onClick={() => onSelect(palette.id)}
+                                >
+                                    Use
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="palette-editor">
+                    <label className="field">
+                        <span>Name</span>
+                        <input
+                            type="text"
+                            value={editing.name}
+                            disabled={editing.builtIn}
+                            onChange={(event) => onSave({ ...editing, name: event.target.value })}
+                        />
+                    </label>
+                    <div className="palette-colors">
+                        {editing.colors.map((color, index) => (
+                            <label key={index} className="field">
+                                <span>Shade {index}</span>
+                                <input
+                                    type="color"
+                                    value={`#${toHex(color)}`}
+                                    disabled={editing.builtIn}
+                                    onChange={(event) => updateColor(index, event.target.value)}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    {editing.builtIn ? (
+                        <p className="palette-hint">
+                            Built-in palettes are read-only. Duplicate one to edit it.
+                        </p>
+                    ) : null}
+                    <div className="palette-actions">
+                        <button
+                            className="btn tiny"
+                            type="button"
+                            onClick={() => createFrom(editing, `${editing.name} copy`)}
+                        >
+                            Duplicate
+                        </button>
+                        {!editing.builtIn ? (
+                            <button
+                                className="btn ghost tiny"
+                                type="button"
+                                onClick={() => {
+                                    onDelete(editing.id);
+                                    setEditingId(palettes[0].id);
+                                }}
+                            >
+                                Delete
+                            </button>
+                        ) : null}
+                        <select
+                            value={exportFormat}
+                            aria-label="Export format"
+                            onChange={(event) => setExportFormat(event.target.value as PaletteFormat)}
+                        >
+                            {PALETTE_FORMATS.map((format) => (
+                                <option key={format.value} value={format.value}>
+                                    {format.label}
+                                </option>
+                            ))}
+                        </select>
+                        <button className="btn ghost tiny" type="button" onClick={handleExport}>
+                            Export
+                        </button>
+                    </div>
+                </div>
+
+                <div className="modal-foot">
+                    <input
+                        ref={importRef}
+                        type="file"
+                        multiple
+                        accept={PALETTE_IMPORT_EXTS.map((ext) => `.${ext}`).join(",")}
+                        onChange={(event) => {
+                            if (event.target.files) {
+                                handleImport(event.target.files);
+                                event.target.value = "";
+                            }
+                        }}
+                        hidden
+                    />
+                    <button
+                        className="btn"
+                        type="button"
+                        onClick={() => createFrom(editing, "New palette")}
+                    >
+                        New palette
+                    </button>
+                    <button
+                        className="btn ghost"
+                        type="button"
+                        onClick={() => importRef.current?.click()}
+                    >
+                        Import .gpl / .pal / .hex
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PaletteManager;
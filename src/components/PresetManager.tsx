@@ -0,0 +1,175 @@
+import { useRef, useState } from "react";
+import { parsePresetFile, Preset, serializePresets } from "../core/presets";
+import { downloadBlob } from "../download";
+
+type PresetManagerProps = {
+    presets: Preset[];
+    /** Preset applied last, if any. */
+    activeId: string | null;
+    onApply: (preset: Preset) => void;
+    /** Saves the current settings under a name. */
+    onSaveCurrent: (name: string) => void;
+    onImport: (presets: Preset[]) => void;
+    onDelete: (id: string) => void;
+    /** Copies a link that applies the preset, or the current settings when null. */
+    onCopyLink: (preset: Preset | null) => void;
+    onMessage: (text: string) => void;
+    onClose: () => void;
+};
+
+const PresetManager = ({
+    presets,
+    activeId,
+    onApply,
+    onSaveCurrent,
+    onImport,
+    onDelete,
+    onCopyLink,
+    onMessage,
+    onClose
+}: PresetManagerProps) => {
+    const [name, setName] = useState("");
+    const importRef = useRef<HTMLInputElement | null>(null);
+
+    const handleImport = async (files: FileList) => {
+        for (const file of Array.from(files)) {
+            try {
+                const imported = parsePresetFile(await file.text(), () => crypto.randomUUID());
+                onImport(imported);
+                const count = `${imported.length} preset${imported.length === 1 ? "" : "s"}`;
+                onMessage(`${file.name}: imported ${count}.`);
+            } catch (error) {
+                onMessage(`${file.name}: ${(error as Error).message}`);
+            }
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(
+            new Blob([serializePresets(presets)], { type: "application/json" }),
+            "img2dmg-presets.json"
+        );
+    };
+
+    const saveCurrent = () => {
+        const trimmed = name.trim();
+        if (trimmed) {
+            onSaveCurrent(trimmed);
+            setName("");
+        }
+    };
+
+    return (
+        <div className="modal-backdrop" role="presentation" onClick={onClose}>
+            <div
+                className="modal preset-manager"
+                role="dialog"
+                aria-modal="true"
+                aria-label="Preset manager"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="modal-head">
+                    <h2>Presets</h2>
+                    <button className="btn ghost tiny" type="button" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+
+                {presets.length ? (
+                    <ul className="palette-list">
+                        {presets.map((preset) => (
+                            <li key={preset.id} className="palette-row">
+                                <span className="palette-name">{preset.name}</span>
+                                {preset.id === activeId ? (
+                                    <span className="palette-active">Last used</span>
+                                ) : null}
+                                <button
+                                    className="btn tiny"
+                                    type="button"
+                                    onClick={() => onApply(preset)}
+                                >
+                                    Use
+                                </button>
+                                <button
+                                    className="btn ghost tiny"
+                                    type="button"
+                                    onClick={() => onCopyLink(preset)}
+                                >
+                                    Copy link
+                                </button>
+                                <button
+                                    className="btn ghost tiny"
+                                    type="button"
+                                    onClick={() => onDelete(preset.id)}
+                                >
+                                    Delete
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="palette-hint">
+                        No presets yet. Save the current settings to reuse them later.
+                    </p>
+                )}
+
+                <form
+                    className="palette-actions"
+                    onSubmit={(event) => {
+                        event.preventDefault();
+                        saveCurrent();
+                    }}
+                >
+                    <label className="field">
+                        <span>Name</span>
+                        <input
+                            type="text"
+                            value={name}
+                            placeholder="My preset"
+                            onChange={(event) => setName(event.target.value)}
+                        />
+                    </label>
+                    <button className="btn tiny" type="submit" disabled={!name.trim()}>
+                        Save current settings
+                    </button>
+                </form>
+
+                <div className="modal-foot">
+                    <input
+                        ref={importRef}
+                        type="file"
+                        multiple
+                        accept=".json,application/json"
+                        onChange={(event) => {
+                            if (event.target.files) {
+                                handleImport(event.target.files);
+                                event.target.value = "";
+                            }
+                        }}
+                        hidden
+                    />
+                    <button className="btn" type="button" onClick={() => onCopyLink(null)}>
+                        Copy link to current settings
+                    </button>
+                    <button
+                        className="btn ghost"
+                        type="button"
+                        disabled={!presets.length}
+                        onClick={handleExport}
+                    >
+                        Export .json
+                    </button>
+                    <button
+                        className="btn ghost"
+                        type="button"
+                        onClick={() => importRef.current?.click()}
+                    >
+                        Import .json
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PresetManager;
@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AlphaSettings } from "../core/alpha";
+import { DEFAULT_ANIMATION_FORMAT } from "../core/animation";
+import { DEFAULT_DECODE } from "../core/decode";
+import { DitherSettings } from "../core/dither";
+import { DEFAULT_OUTPUT_FORMAT } from "../core/output";
+import { Rgb } from "../core/palettes";
+import { ColorMatching, Hardware, imageLuminance, quantizeImage } from "../core/pipeline";
+import { DEFAULT_RESIZE, RgbaImage } from "../core/resize";
+import { DEFAULT_SPRITE } from "../core/sprites";
+import {
+    adjustLuminance,
+    DEFAULT_TONE,
+    luminanceHistogram,
+    MAX_GAMMA,
+    MIN_GAMMA,
+    Thresholds,
+    ToneSettings
+} from "../core/tone";
+
+type ToneControlsProps = {
+    tone: ToneSettings;
+    onChange: (tone: ToneSettings) => void;
+    /** Downscaled image the preview and histogram are drawn from. */
+    preview: RgbaImage | null;
+    palette: Rgb[];
+    matching: ColorMatching;
+    hardware: Hardware;
+    dither: DitherSettings;
+    alpha: AlphaSettings;
+};
+
+const HISTOGRAM_HEIGHT = 64;
+
+const rgb = (color: Rgb) => `rgb(${color.r}, ${color.g}, ${color.b})`;
+
+const shadeAt = (value: number, thresholds: Thresholds) =>
+    thresholds.filter((threshold) => value >= threshold).length;
+
+const ToneControls = ({
+    tone,
+    onChange,
+    preview,
+    palette,
+    matching,
+    hardware,
+    dither,
+    alpha
+}: ToneControlsProps) => {
+    // Markers move locally while dragging and only re-queue the batch on release.
+    const [draft, setDraft] = useState<Thresholds | null>(null);
+    const dragRef = useRef<number | null>(null);
+    const histogramRef = useRef<HTMLCanvasElement | null>(null);
+    const previewRef = useRef<HTMLCanvasElement | null>(null);
+    const thresholds = draft ?? tone.thresholds;
+    const usesThresholds = hardware === "dmg" && matching === "luminance";
+
+    const update = (patch: Partial<ToneSettings>) => onChange({ ...tone, ...patch });
+
+    const histogram = useMemo(() => {
+        if (!preview) {
+            return null;
+        }
+        const { lum, opaque } = imageLuminance(preview);
+        adjustLuminance(lum, opaque, tone);
+        return luminanceHistogram(lum, opaque);
+    }, [preview, tone.brightness, tone.contrast, tone.gamma, tone.autoLevels]);
+
+    useEffect(() => {
+        const ctx = histogramRef.current?.getContext("2d");
+        if (!ctx) {
+            return;
+        }
+        ctx.clearRect(0, 0, 256, HISTOGRAM_HEIGHT);
+        if (!histogram) {
+            return;
+        }
+        // Square root keeps a single dominant tone from flattening the rest.
+        const peak = Math.sqrt(Math.max(1, ...histogram));
+        histogram.forEach((count, value) => {
+            const barHeight = Math.round((Math.sqrt(count) / peak) * HISTOGRAM_HEIGHT);
+            ctx.fillStyle = rgb(palette[shadeAt(value, thresholds)]);
+            ctx.fillRect(value, HISTOGRAM_HEIGHT - barHeight, 1, barHeight);
+        });
+    }, [histogram, palette, thresholds]);
+
+    useEffect(() => {
+        const canvas = previewRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx || !preview) {
+            return;
+        }
+        const { image } = quantizeImage(preview, {
+            hardware,
+            palette,
+            matching,
+            dither,
+            resize: DEFAULT_RESIZE,
+            tone: { ...tone, thresholds },
+            alpha,
+            animation: DEFAULT_ANIMATION_FORMAT,
+            output: DEFAULT_OUTPUT_FORMAT,
+            sprite: DEFAULT_SPRITE,
+            decode: DEFAULT_DECODE
+        });
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const output = ctx.createImageData(image.width, image.height);
+        output.data.set(image.data);
+        ctx.putImageData(output, 0, 0);
+    }, [preview, palette, matching, hardware, dither, alpha, tone, thresholds]);
+
+    const valueAt = (event: React.PointerEvent<HTMLElement>) => {
+        const rect = histogramRef.current!.getBoundingClientRect();
+        return Math.round(((event.clientX - rect.left) / rect.width) * 255);
+    };
+
+    const moveMarker = (index: number, value: number, from: Thresholds): Thresholds => {
+        const next = [...from] as Thresholds;
+        const min = index === 0 ? 1 : from[index - 1] + 1;
+        const max = index === 2 ? 255 : from[index + 1] - 1;
+        next[index] = Math.min(max, Math.max(min, value));
+        return next;
+    };
+
+    const startDrag = (index: number, event: React.PointerEvent<HTMLButtonElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = index;
+        setDraft(tone.thresholds);
+    };
+
+    const drag = (event: React.PointerEvent<HTMLButtonElement>) => {
+        const index = dragRef.current;
+        if (index !== null && draft) {
+            setDraft(moveMarker(index, valueAt(event), draft));
+        }
+    };
+
+    const endDrag = () => {
+        if (dragRef.current !== null && draft) {
+            update({ thresholds: draft });
+        }
+        dragRef.current = null;
+        setDraft(null);
+    };
+
+    const nudge = (index: number, event: React.KeyboardEvent<HTMLButtonElement>) => {
+        const step = { ArrowLeft: -1, ArrowDown: -1, ArrowRight: 1, ArrowUp: 1 }[event.key];
+        if (step) {
+            event.preventDefault();
+            const value = tone.thresholds[index] + step * (event.shiftKey ? 8 : 1);
+            update({ thresholds: moveMarker(index, value, tone.thresholds) });
+        }
+    };
+
+    return (
+        <section className="tone">
+            <div className="tone-sliders">
+                <label className="field">
+                    <span>Brightness {Math.round(tone.brightness * 100)}</span>
+                    <input
+                        type="range"
+                        min={-100}
+                        max={100}
+                        value={Math.round(tone.brightness * 100)}
+                        onChange={(event) => update({ brightness: Number(event.target.value) / 100 })}
+                    />
+                </label>
+                <label className="field">
+                    <span>Contrast {Math.round(tone.contrast * 100)}</span>
+                    <input
+                        type="range"
+                        min={-100}
+                        max={100}
+                        value={Math.round(tone.contrast * 100)}
+                        onChange={(event) => update({ contrast: Number(event.target.value) / 100 })}
+                    />
+                </label>
+                <label className="field">
+                    <span>Gamma {tone.gamma.toFixed(2)}</span>
+                    <input
+                        type="range"
+                        min={MIN_GAMMA}
+                        max={MAX_GAMMA}
+                        step={0.05}
+                        value={tone.gamma}
+                        onChange={(event) => update({ gamma: Number(event.target.value) })}
+                    />
+                </label>
+                <div className="tone-row">
+                    <label className="field checkbox">
+                        <input
+                            type="checkbox"
+                            checked={tone.autoLevels}
+                            onChange={(event) => update({ autoLevels: event.target.checked })}
+                        />
+                        <span>Auto levels</span>
+                    </label>
+                    <button
+                        className="btn ghost tiny"
+                        type="button"
+                        onClick={() => onChange(DEFAULT_TONE)}
+                    >
+                        Reset tone
+                    </button>
+                </div>
+            </div>
+
+            <div className="tone-histogram">
+                <span className="tone-label">
+                    {usesThresholds
+                        ? `Shade thresholds ${thresholds.join(" / ")}`
+                        : "Shade thresholds only apply to Brightness matching in DMG mode"}
+                </span>
+                <div className="tone-histogram-track">
+                    <canvas ref={histogramRef} width={256} height={HISTOGRAM_HEIGHT} />
+                    {thresholds.map((value, index) => (
+                        <button
+                            key={index}
+                            className="tone-marker"
+                            type="button"
+                            style={{ left: `${(value / 255) * 100}%` }}
+                            disabled={!usesThresholds}
+                            aria-label={`Shade ${index + 2} starts at ${value}`}
+                            title="Drag, or use the arrow keys"
+                            onPointerDown={(event) => startDrag(index, event)}
+                            onPointerMove={drag}
+                            onPointerUp={endDrag}
+                            onPointerCancel={endDrag}
+                            onKeyDown={(event) => nudge(index, event)}
+                        />
+                    ))}
+                </div>
+                {!preview ? <span className="tone-label">Add an image to see its histogram.</span> : null}
+            </div>
+
+            <div className="tone-preview">
+                {preview ? (
+                    <canvas ref={previewRef} className="checker" aria-label="Tone preview" />
+                ) : (
+                    <span className="tone-label">Preview</span>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default ToneControls;
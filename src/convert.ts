@@ -0,0 +1,290 @@
+import {
+    Animation,
+    AnimationFrame,
+    animationFormat,
+    ConvertedFrame,
+    detectAnimation,
+    encodeAnimation,
+    isAnimated,
+    quantizeAnimation
+} from "./core/animation";
+import { CgbImage } from "./core/cgb";
+import {
+    decodeError,
+    failureOf,
+    ImageInfo,
+    inspectImage,
+    orientedSize,
+    orientImage,
+    withoutOrientation
+} from "./core/decode";
+import { decodeGif } from "./core/gif";
+import { encodeOutput, outputFormat } from "./core/output";
+import { ConvertSettings, ProgressCallback, quantizeImage } from "./core/pipeline";
+import { Rgb } from "./core/palettes";
+import { decodeApng, Deflate, DecodePng } from "./core/png";
+import { RgbaImage } from "./core/resize";
+import { SpriteSheet } from "./core/sprites";
+
+export type ConvertResult = {
+    blob: Blob;
+    /** Levels of the first frame for animations. */
+    levels: Uint8Array;
+    /** Every converted frame, or null for stills. */
+    frames: ConvertedFrame[] | null;
+    /** Palette the levels index, darkest first. */
+    palette: Rgb[];
+    /** Per-tile palettes in CGB mode. */
+    cgb: CgbImage | null;
+    /** Sliced frames in sprite mode; animations aren't sliced. */
+    sprites: SpriteSheet | null;
+    width: number;
+    height: number;
+    sourceWidth: number;
+    sourceHeight: number;
+    /** Set when an oversize animation was converted from its first frame alone. */
+    firstFrameOnly: boolean;
+};
+
+type Canvas2D = {
+    canvas: OffscreenCanvas | HTMLCanvasElement;
+    ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+};
+
+// Worker scopes only have OffscreenCanvas; the DOM canvas is the fallback for
+// browsers that can't run conversion off the main thread.
+const createCanvas = (width: number, height: number): Canvas2D => {
+    if (typeof OffscreenCanvas !== "undefined") {
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (ctx) {
+            return { canvas, ctx };
+        }
+    }
+    if (typeof document === "undefined") {
+        throw new Error("Canvas not supported");
+    }
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error("Canvas not supported");
+    }
+    return { canvas, ctx };
+};
+
+/** Browsers fail to create or read a canvas when it won't fit in memory. */
+const readPixels = (source: CanvasImageSource, width: number, height: number) => {
+    try {
+        const { ctx } = createCanvas(width, height);
+        ctx.drawImage(source, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    } catch {
+        throw decodeError(
+            "out-of-memory",
+            `Not enough memory for a ${width}x${height} image. Lower the image size limit.`
+        );
+    }
+};
+
+/**
+ * Decodes a still at width x height, or the stored size, then turns it
+ * upright. The EXIF orientation is cleared first and applied here, since
+ * browsers differ on whether createImageBitmap applies it. Embedded color
+ * profiles are converted to sRGB.
+ */
+const decodeStill = async (
+    file: Blob,
+    bytes: Uint8Array,
+    info: ImageInfo,
+    width = info.width,
+    height = info.height
+) => {
+    const source =
+        info.orientation > 1 ? new Blob([withoutOrientation(bytes) as BlobPart]) : file;
+    const resized = width !== info.width || height !== info.height;
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(source, {
+            colorSpaceConversion: "default",
+            ...(resized ? { resizeWidth: width, resizeHeight: height, resizeQuality: "high" } : {})
+        });
+    } catch {
+        throw decodeError("corrupt", "The image data is damaged and couldn't be decoded.");
+    }
+    try {
+        return orientImage(readPixels(bitmap, bitmap.width, bitmap.height), info.orientation);
+    } finally {
+        bitmap.close();
+    }
+};
+
+export const deflate: Deflate = async (data) => {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decodePng: DecodePng = async (bytes) => {
+    const bitmap = await createImageBitmap(new Blob([bytes as BlobPart], { type: "image/png" }));
+    const pixels = readPixels(bitmap, bitmap.width, bitmap.height);
+    bitmap.close();
+    return pixels;
+};
+
+/** Animated WebP has no decoder of ours, so it relies on WebCodecs. */
+const decodeWebp = async (file: Blob): Promise<Animation> => {
+    if (typeof ImageDecoder === "undefined") {
+        throw decodeError("unsupported", "Animated WebP needs a browser with WebCodecs.");
+    }
+    const decoder = new ImageDecoder({ data: file.stream(), type: "image/webp" });
+    try {
+        await decoder.tracks.ready;
+        const track = decoder.tracks.selectedTrack;
+        const count = track?.frameCount ?? 1;
+        const frames: AnimationFrame[] = [];
+        for (let frameIndex = 0; frameIndex < count; frameIndex += 1) {
+            const { image } = await decoder.decode({ frameIndex });
+            const pixels = readPixels(image, image.displayWidth, image.displayHeight);
+            frames.push({ image: pixels, delay: (image.duration ?? 100_000) / 1000 });
+            image.close();
+        }
+        const first = frames[0].image;
+        const repetitions = track?.repetitionCount ?? 0;
+        return {
+            width: first.width,
+            height: first.height,
+            frames,
+            loops: Number.isFinite(repetitions) ? repetitions + 1 : 0
+        };
+    } finally {
+        decoder.close();
+    }
+};
+
+const decodeAnimation = async (file: Blob, bytes: Uint8Array) => {
+    switch (detectAnimation(bytes)) {
+        case "gif":
+            return decodeGif(bytes);
+        case "apng":
+            return decodeApng(bytes, decodePng);
+        case "webp":
+            return decodeWebp(file);
+        default:
+            return null;
+    }
+};
+
+/** Animation frames, or null for stills; decoder errors mean damaged data. */
+const decodeFrames = async (file: Blob, bytes: Uint8Array) => {
+    try {
+        return await decodeAnimation(file, bytes);
+    } catch (error) {
+        if (failureOf(error)) {
+            throw error;
+        }
+        throw decodeError("corrupt", `The animation is damaged: ${(error as Error).message}`);
+    }
+};
+
+const convertAnimation = async (
+    animation: Animation,
+    settings: ConvertSettings,
+    onProgress?: ProgressCallback
+): Promise<ConvertResult> => {
+    const converted = quantizeAnimation(animation, settings, (progress) =>
+        onProgress?.(0.1 + progress * 0.8)
+    );
+    const format = animationFormat(settings.animation);
+    const data = await encodeAnimation(
+        settings.animation,
+        converted,
+        converted.palette,
+        settings.alpha.mode,
+        deflate
+    );
+    onProgress?.(1);
+    return {
+        blob: new Blob([data as BlobPart], { type: format.mime }),
+        levels: converted.frames[0].levels,
+        frames: converted.frames,
+        palette: converted.palette,
+        cgb: null,
+        sprites: null,
+        width: converted.width,
+        height: converted.height,
+        sourceWidth: animation.width,
+        sourceHeight: animation.height,
+        firstFrameOnly: false
+    };
+};
+
+/** Decodes an image scaled down to fit maxSize, for quick previews on the main thread. */
+export const loadPreviewImage = async (file: Blob, maxSize: number): Promise<RgbaImage> => {
+    // Previews decode scaled down, so they take images of any size.
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const info = inspectImage(bytes, { maxPixels: Infinity, oversize: "downscale" });
+    const scale = Math.min(1, maxSize / Math.max(info.width, info.height));
+    const width = Math.max(1, Math.round(info.width * scale));
+    const height = Math.max(1, Math.round(info.height * scale));
+    return decodeStill(file, bytes, info, width, height);
+};
+
+export const canConvertOffThread = () =>
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined";
+
+export const convertToDmg = async (
+    file: Blob,
+    settings: ConvertSettings,
+    onProgress?: ProgressCallback
+): Promise<ConvertResult> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const info = inspectImage(bytes, settings.decode);
+    const oversize = info.decodeWidth !== info.width || info.decodeHeight !== info.height;
+    // Our animation decoders work at full size, so oversize animations convert their first frame.
+    const animation = oversize ? null : await decodeFrames(file, bytes);
+    // Single-frame GIFs convert like any other still.
+    if (animation && animation.frames.length > 1) {
+        onProgress?.(0.1);
+        return convertAnimation(animation, settings, onProgress);
+    }
+
+    const source = await decodeStill(file, bytes, info, info.decodeWidth, info.decodeHeight);
+    const { width: sourceWidth, height: sourceHeight } = orientedSize(
+        info.width,
+        info.height,
+        info.orientation
+    );
+    onProgress?.(0.1);
+
+    const { image, levels, opaque, palette, cgb, sprites } = quantizeImage(
+        source,
+        settings,
+        (progress) => onProgress?.(0.1 + progress * 0.8)
+    );
+
+    const data = await encodeOutput(
+        settings.output,
+        { image, levels, opaque, cgb, width: image.width, height: image.height },
+        palette,
+        settings.alpha.mode,
+        deflate
+    );
+    onProgress?.(1);
+
+    return {
+        blob: new Blob([data as BlobPart], { type: outputFormat(settings.output).mime }),
+        levels,
+        frames: null,
+        palette,
+        cgb,
+        sprites,
+        width: image.width,
+        height: image.height,
+        sourceWidth,
+        sourceHeight,
+        firstFrameOnly: oversize && isAnimated(bytes)
+    };
+};
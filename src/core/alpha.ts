@@ -0,0 +1,71 @@
+import { PALETTE_SIZE } from "./palettes";
+
+/**
+ * What happens to pixels that aren't fully opaque. The hardware has no partial
+ * transparency, so every policy ends with pixels either opaque or transparent.
+ */
+export type AlphaMode = "threshold" | "flatten" | "color0";
+
+export type AlphaSettings = {
+    mode: AlphaMode;
+    /** Alpha (1..255) a pixel needs to stay opaque, for threshold and color0. */
+    threshold: number;
+    /** Color index (0 lightest) flatten blends onto. */
+    flattenColor: number;
+};
+
+export const ALPHA_MODES: { value: AlphaMode; label: string }[] = [
+    { value: "threshold", label: "Threshold" },
+    { value: "flatten", label: "Flatten onto shade" },
+    { value: "color0", label: "Reserve color 0" }
+];
+
+export const DEFAULT_ALPHA: AlphaSettings = {
+    mode: "threshold",
+    threshold: 128,
+    flattenColor: 0
+};
+
+/** Shades opaque pixels may use: reserving color 0 leaves the three darker ones. */
+export const opaqueShades = (alpha: AlphaSettings) =>
+    alpha.mode === "color0" ? PALETTE_SIZE - 1 : PALETTE_SIZE;
+
+/**
+ * Makes alpha all-or-nothing in place. Threshold and color0 cut pixels off
+ * below the threshold. Flatten makes every pixel opaque and returns each
+ * pixel's coverage (0..1), so the matcher can blend onto the shade once it
+ * has its luminance or Oklab values.
+ */
+export const applyAlpha = (data: Uint8ClampedArray, alpha: AlphaSettings) => {
+    const coverage = alpha.mode === "flatten" ? new Float32Array(data.length / 4) : null;
+    const threshold = Math.min(255, Math.max(1, Math.round(alpha.threshold)));
+    for (let p = 0, i = 3; i < data.length; p += 1, i += 4) {
+        if (coverage) {
+            coverage[p] = data[i] / 255;
+            data[i] = 255;
+        } else {
+            data[i] = data[i] >= threshold ? 255 : 0;
+        }
+    }
+    return coverage;
+};
+
+/** Blends per-pixel values (as many channels as backdrop has) onto backdrop, in place. */
+export const blendOnto = (
+    values: Float32Array,
+    coverage: Float32Array,
+    backdrop: ArrayLike<number>
+) => {
+    const channels = backdrop.length;
+    for (let p = 0; p < coverage.length; p += 1) {
+        const amount = coverage[p];
+        for (let c = 0; amount < 1 && c < channels; c += 1) {
+            const i = p * channels + c;
+            values[i] = values[i] * amount + backdrop[c] * (1 - amount);
+        }
+    }
+};
+
+/** Pixels with any coverage, for steps that should ignore what flatten fills in. */
+export const coverageMask = (coverage: Float32Array) =>
+    Uint8Array.from(coverage, (amount) => (amount > 0 ? 1 : 0));
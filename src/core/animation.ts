@@ -0,0 +1,162 @@
+import { AlphaMode, opaqueShades } from "./alpha";
+import { encodeGif, gifFrameCount, isGif } from "./gif";
+import { extractPalette } from "./autoPalette";
+import { ConvertSettings, imageOklab, ProgressCallback, quantizeImage } from "./pipeline";
+import { Rgb } from "./palettes";
+import { frameIndices, indexedSpec, transparencyFor } from "./output";
+import { Deflate, encodeApng, encodeIndexedPng, isApng } from "./png";
+import { RgbaImage } from "./resize";
+
+export type AnimationFrame = {
+    image: RgbaImage;
+    /** Display time in milliseconds. */
+    delay: number;
+};
+
+export type Animation = {
+    width: number;
+    height: number;
+    frames: AnimationFrame[];
+    /** Times to play, 0 for forever. */
+    loops: number;
+};
+
+export type AnimationKind = "gif" | "apng" | "webp";
+
+export type AnimationFormat = "gif" | "apng";
+
+export type ConvertedFrame = {
+    levels: Uint8Array;
+    opaque: Uint8Array;
+    delay: number;
+};
+
+export type ConvertedAnimation = {
+    width: number;
+    height: number;
+    frames: ConvertedFrame[];
+    loops: number;
+    /** Palette shared by every frame, the extracted one in auto mode. */
+    palette: Rgb[];
+};
+
+export const ANIMATION_FORMATS: { value: AnimationFormat; label: string; ext: string; mime: string }[] = [
+    { value: "gif", label: "GIF", ext: "gif", mime: "image/gif" },
+    { value: "apng", label: "APNG", ext: "png", mime: "image/apng" }
+];
+
+export const DEFAULT_ANIMATION_FORMAT: AnimationFormat = "gif";
+
+export const animationFormat = (format: AnimationFormat) =>
+    ANIMATION_FORMATS.find((entry) => entry.value === format) ?? ANIMATION_FORMATS[0];
+
+/** WebP keeps its animation flag in the VP8X header. */
+const isAnimatedWebp = (bytes: Uint8Array) =>
+    bytes.length >= 21 &&
+    String.fromCharCode(...bytes.subarray(0, 4)) === "RIFF" &&
+    String.fromCharCode(...bytes.subarray(8, 16)) === "WEBPVP8X" &&
+    (bytes[20] & 0x02) !== 0;
+
+/** Sniffs the header; stills (including single-frame GIFs) still report their kind. */
+export const detectAnimation = (bytes: Uint8Array): AnimationKind | null => {
+    if (isGif(bytes)) {
+        return "gif";
+    }
+    if (isApng(bytes)) {
+        return "apng";
+    }
+    return isAnimatedWebp(bytes) ? "webp" : null;
+};
+
+/** Whether the file holds more than one frame, read from its headers alone. */
+export const isAnimated = (bytes: Uint8Array) => {
+    const kind = detectAnimation(bytes);
+    return kind === "gif" ? gifFrameCount(bytes) > 1 : kind !== null;
+};
+
+/**
+ * Converts each frame with the same settings, so every frame shares the
+ * palette. In auto mode the palette is extracted from all frames together.
+ * Animations always convert in DMG mode, since the containers hold one palette.
+ */
+export const quantizeAnimation = (
+    animation: Animation,
+    source: ConvertSettings,
+    onProgress?: ProgressCallback
+): ConvertedAnimation => {
+    const shades = opaqueShades(source.alpha);
+    const extracted =
+        source.matching === "auto"
+            ? extractPalette(
+                  animation.frames.map((frame) => imageOklab(frame.image, source.tone)),
+                  shades
+              )
+            : null;
+    const palette = extracted ? [...extracted, ...source.palette.slice(shades)] : null;
+    const settings: ConvertSettings = palette
+        ? { ...source, hardware: "dmg", matching: "nearest", palette }
+        : { ...source, hardware: "dmg" };
+    const count = animation.frames.length;
+    let width = animation.width;
+    let height = animation.height;
+    const frames = animation.frames.map((frame, index) => {
+        const result = quantizeImage(frame.image, settings, (progress) =>
+            onProgress?.((index + progress) / count)
+        );
+        width = result.image.width;
+        height = result.image.height;
+        return { levels: result.levels, opaque: result.opaque, delay: frame.delay };
+    });
+    return { width, height, frames, loops: animation.loops, palette: settings.palette };
+};
+
+export const encodeAnimation = async (
+    format: AnimationFormat,
+    animation: ConvertedAnimation,
+    palette: Rgb[],
+    alpha: AlphaMode,
+    deflate: Deflate
+) => {
+    const transparency = transparencyFor(animation.frames, alpha);
+    const spec = indexedSpec(animation.width, animation.height, palette, transparency);
+    const frames = animation.frames.map((frame) => ({
+        indices: frameIndices(frame, spec.transparentIndex),
+        delay: frame.delay
+    }));
+    return format === "gif"
+        ? encodeGif(spec, frames, animation.loops)
+        : encodeApng(spec, frames, animation.loops, deflate);
+};
+
+/** Lays the frames out left to right in a single indexed PNG. */
+export const encodeSpriteStrip = (
+    animation: Pick<ConvertedAnimation, "width" | "height" | "frames">,
+    palette: Rgb[],
+    alpha: AlphaMode,
+    deflate: Deflate
+) => {
+    const { width, height, frames } = animation;
+    const stripWidth = width * frames.length;
+    const spec = indexedSpec(stripWidth, height, palette, transparencyFor(frames, alpha));
+    const indices = new Uint8Array(stripWidth * height);
+    frames.forEach((frame, index) => {
+        const frameIndex = frameIndices(frame, spec.transparentIndex);
+        for (let y = 0; y < height; y += 1) {
+            indices.set(frameIndex.subarray(y * width, (y + 1) * width), y * stripWidth + index * width);
+        }
+    });
+    return encodeIndexedPng(spec, indices, deflate);
+};
+
+/** Strip of every frame's levels, for tile export of animations. */
+export const stripLevels = (animation: Pick<ConvertedAnimation, "width" | "height" | "frames">) => {
+    const { width, height, frames } = animation;
+    const stripWidth = width * frames.length;
+    const levels = new Uint8Array(stripWidth * height);
+    frames.forEach((frame, index) => {
+        for (let y = 0; y < height; y += 1) {
+            levels.set(frame.levels.subarray(y * width, (y + 1) * width), y * stripWidth + index * width);
+        }
+    });
+    return { levels, width: stripWidth, height };
+};
@@ -0,0 +1,166 @@
+import JSZip from "jszip";
+
+export type ZipCompression = "store" | "deflate";
+
+export const ZIP_COMPRESSIONS: { value: ZipCompression; label: string }[] = [
+    { value: "store", label: "Store (fastest)" },
+    { value: "deflate", label: "Deflate (smaller)" }
+];
+
+export const DEFAULT_ZIP_COMPRESSION: ZipCompression = "store";
+
+const MB = 1024 * 1024;
+
+/** Largest archive a batch download writes before starting the next part, 0 for no limit. */
+export const ZIP_SPLIT_SIZES: { value: number; label: string }[] = [
+    { value: 0, label: "No split" },
+    { value: 25 * MB, label: "25 MB" },
+    { value: 100 * MB, label: "100 MB" },
+    { value: 500 * MB, label: "500 MB" },
+    { value: 1024 * MB, label: "1 GB" }
+];
+
+export const DEFAULT_ZIP_SPLIT = 0;
+
+export type ZipEntry = { name: string; data: Blob | Uint8Array | string };
+
+/** Header and central directory bytes per entry, besides its name (twice). */
+const ENTRY_OVERHEAD = 30 + 46;
+/** streamZip writes sizes after each file's data, since they aren't known up front. */
+const DATA_DESCRIPTOR = 16;
+const END_RECORD = 22;
+
+const textSize = (text: string) => new TextEncoder().encode(text).length;
+
+const dataSize = (data: ZipEntry["data"]) =>
+    typeof data === "string" ? textSize(data) : data instanceof Blob ? data.size : data.length;
+
+/** Most that deflate adds to data it can't compress, as zlib's compressBound allows. */
+const deflateMargin = (bytes: number) => (bytes >> 12) + (bytes >> 14) + 13;
+
+/** Bytes an entry takes, stored or deflated, without the folders above it. */
+export const entrySize = (entry: ZipEntry) => {
+    const bytes = dataSize(entry.data);
+    const headers = ENTRY_OVERHEAD + textSize(entry.name) * 2 + DATA_DESCRIPTOR;
+    return headers + bytes + deflateMargin(bytes);
+};
+
+/** "tiles/extra/hero.png" sits in "tiles/" and "tiles/extra/", which JSZip adds as entries. */
+const parentFolders = (name: string) =>
+    name
+        .split("/")
+        .slice(0, -1)
+        .map((_, index, parts) => `${parts.slice(0, index + 1).join("/")}/`);
+
+/** Bytes a group adds to an archive that already has folders, and the folders after it. */
+const groupSize = (group: ZipEntry[], folders: Set<string>) => {
+    const added = new Set(folders);
+    let size = 0;
+    for (const entry of group) {
+        size += entrySize(entry);
+        for (const folder of parentFolders(entry.name)) {
+            if (!added.has(folder)) {
+                added.add(folder);
+                size += ENTRY_OVERHEAD + textSize(folder) * 2;
+            }
+        }
+    }
+    return { size, folders: added };
+};
+
+/**
+ * Splits groups of entries (an image with its source files) into archives of
+ * at most maxBytes, keeping each group whole and in order. A group larger
+ * than the limit gets an archive of its own. maxBytes 0 means one archive.
+ */
+export const splitArchives = (groups: ZipEntry[][], maxBytes: number) => {
+    const parts: ZipEntry[][] = [];
+    let current: ZipEntry[] = [];
+    let size = END_RECORD;
+    let folders = new Set<string>();
+    for (const group of groups) {
+        let added = groupSize(group, folders);
+        if (maxBytes && current.length && size + added.size > maxBytes) {
+            parts.push(current);
+            current = [];
+            size = END_RECORD;
+            added = groupSize(group, new Set());
+        }
+        current.push(...group);
+        size += added.size;
+        folders = added.folders;
+    }
+    if (current.length) {
+        parts.push(current);
+    }
+    return parts;
+};
+
+/** "img2dmg-all.zip" becomes "img2dmg-all-part2.zip" when a batch is split. */
+export const archivePartName = (name: string, part: number, parts: number) =>
+    parts > 1 ? name.replace(/(\.zip)?$/i, `-part${part + 1}$1`) : name;
+
+export type StreamZipOptions = {
+    compression: ZipCompression;
+    signal?: AbortSignal;
+    /** 0..1 as entries are compressed and written. */
+    onProgress?: (progress: number) => void;
+};
+
+/**
+ * Writes a ZIP chunk by chunk, waiting for each write before producing the
+ * next, so the archive never has to fit in memory. Rejects with an AbortError
+ * when signal aborts.
+ */
+export const streamZip = (
+    entries: ZipEntry[],
+    options: StreamZipOptions,
+    write: (chunk: Uint8Array) => Promise<void>
+) =>
+    new Promise<void>((resolve, reject) => {
+        const { signal, onProgress } = options;
+        const zip = new JSZip();
+        entries.forEach((entry) => zip.file(entry.name, entry.data));
+        const stream = zip.generateInternalStream({
+            type: "uint8array",
+            compression: options.compression === "deflate" ? "DEFLATE" : "STORE",
+            streamFiles: true
+        });
+        const abort = () => {
+            stream.pause();
+            reject(new DOMException("ZIP export cancelled.", "AbortError"));
+        };
+        if (signal?.aborted) {
+            abort();
+            return;
+        }
+        signal?.addEventListener("abort", abort, { once: true });
+        const fail = (error: unknown) => {
+            signal?.removeEventListener("abort", abort);
+            stream.pause();
+            reject(error);
+        };
+        // Writes are chained, since the last chunks and "end" can arrive while paused.
+        let writing = Promise.resolve();
+        stream
+            .on("data", (chunk, meta) => {
+                stream.pause();
+                writing = writing.then(() => (signal?.aborted ? undefined : write(chunk)));
+                writing
+                    .then(() => {
+                        onProgress?.(meta.percent / 100);
+                        if (!signal?.aborted) {
+                            stream.resume();
+                        }
+                    })
+                    .catch(fail);
+            })
+            .on("error", fail)
+            .on("end", () => {
+                writing.then(() => {
+                    signal?.removeEventListener("abort", abort);
+                    resolve();
+                }, fail);
+            });
+        stream.resume();
+    });
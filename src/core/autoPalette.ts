@@ -0,0 +1,148 @@
+import { fromOklab, Oklab } from "./oklab";
+import { PALETTE_SIZE, Rgb } from "./palettes";
+
+/** Pixels sampled across all images; enough for a stable 4-color result. */
+const MAX_SAMPLES = 40_000;
+const KMEANS_ITERATIONS = 16;
+/** Stop refining once no center moves further than this (squared Oklab distance). */
+const CONVERGED = 1e-5;
+
+/** Oklab pixels, three values each, with the opacity mask. */
+export type OklabPixels = {
+    lab: Float32Array;
+    opaque: Uint8Array;
+};
+
+/** Opaque pixels, three values per sample, evenly strided across the images. */
+const samplePixels = (images: OklabPixels[]) => {
+    const total = images.reduce((sum, image) => sum + image.opaque.length, 0);
+    const stride = Math.max(1, Math.ceil(total / MAX_SAMPLES));
+    const samples: number[] = [];
+    for (const { lab, opaque } of images) {
+        for (let p = 0; p < opaque.length; p += stride) {
+            if (opaque[p]) {
+                samples.push(lab[p * 3], lab[p * 3 + 1], lab[p * 3 + 2]);
+            }
+        }
+    }
+    return Float32Array.from(samples);
+};
+
+const boxMean = (samples: Float32Array, box: number[]): Oklab => {
+    const sum: Oklab = [0, 0, 0];
+    box.forEach((index) => {
+        for (let c = 0; c < 3; c += 1) {
+            sum[c] += samples[index * 3 + c];
+        }
+    });
+    return sum.map((value) => value / box.length) as Oklab;
+};
+
+/** Widest channel of a box and its range. */
+const boxSpread = (samples: Float32Array, box: number[]) => {
+    let best = { channel: 0, range: 0 };
+    for (let c = 0; c < 3; c += 1) {
+        let min = Infinity;
+        let max = -Infinity;
+        box.forEach((index) => {
+            min = Math.min(min, samples[index * 3 + c]);
+            max = Math.max(max, samples[index * 3 + c]);
+        });
+        if (max - min > best.range) {
+            best = { channel: c, range: max - min };
+        }
+    }
+    return best;
+};
+
+/** Splits the box with the most weighted spread at its median until there are count boxes. */
+const medianCut = (samples: Float32Array, count: number) => {
+    const boxes = [Array.from({ length: samples.length / 3 }, (_, index) => index)];
+    while (boxes.length < count) {
+        const spreads = boxes.map((box) => boxSpread(samples, box));
+        const target = spreads.reduce(
+            (best, spread, index) =>
+                spread.range * boxes[index].length >
+                spreads[best].range * boxes[best].length
+                    ? index
+                    : best,
+            0
+        );
+        const { channel, range } = spreads[target];
+        if (range === 0) {
+            break; // Fewer distinct colors than requested.
+        }
+        const box = boxes[target].sort(
+            (a, b) => samples[a * 3 + channel] - samples[b * 3 + channel]
+        );
+        const half = Math.ceil(box.length / 2);
+        boxes.splice(target, 1, box.slice(0, half), box.slice(half));
+    }
+    return boxes.map((box) => boxMean(samples, box));
+};
+
+const distance = (samples: Float32Array, index: number, center: Oklab) => {
+    const dl = samples[index * 3] - center[0];
+    const da = samples[index * 3 + 1] - center[1];
+    const db = samples[index * 3 + 2] - center[2];
+    return dl * dl + da * da + db * db;
+};
+
+/** Lloyd iterations from the median cut centers. */
+const refine = (samples: Float32Array, centers: Oklab[]) => {
+    const count = samples.length / 3;
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration += 1) {
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        for (let index = 0; index < count; index += 1) {
+            let nearest = 0;
+            let nearestDistance = Infinity;
+            centers.forEach((center, c) => {
+                const d = distance(samples, index, center);
+                if (d < nearestDistance) {
+                    nearest = c;
+                    nearestDistance = d;
+                }
+            });
+            const sum = sums[nearest];
+            sum[0] += samples[index * 3];
+            sum[1] += samples[index * 3 + 1];
+            sum[2] += samples[index * 3 + 2];
+            sum[3] += 1;
+        }
+        let moved = 0;
+        centers = centers.map((center, c) => {
+            const [l, a, b, n] = sums[c];
+            if (!n) {
+                return center;
+            }
+            const next: Oklab = [l / n, a / n, b / n];
+            moved = Math.max(
+                moved,
+                (next[0] - center[0]) ** 2 + (next[1] - center[1]) ** 2 + (next[2] - center[2]) ** 2
+            );
+            return next;
+        });
+        if (moved < CONVERGED) {
+            break;
+        }
+    }
+    return centers;
+};
+
+/**
+ * Picks the colors that best represent the opaque pixels of one or more
+ * images: median cut in Oklab, refined with k-means. Colors come back
+ * darkest first, like every palette; images with fewer distinct colors
+ * repeat their lightest one. Fully transparent images yield null.
+ */
+export const extractPalette = (images: OklabPixels[], count = PALETTE_SIZE): Rgb[] | null => {
+    const samples = samplePixels(images);
+    if (!samples.length) {
+        return null;
+    }
+    const centers = refine(samples, medianCut(samples, count)).sort((a, b) => a[0] - b[0]);
+    while (centers.length < count) {
+        centers.push(centers[centers.length - 1]);
+    }
+    return centers.map(fromOklab);
+};
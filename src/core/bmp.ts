@@ -0,0 +1,51 @@
+import { IndexedImageSpec } from "./png";
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40;
+/** 72 DPI in pixels per meter. */
+const PIXELS_PER_METER = 2835;
+
+/**
+ * Writes a palettized BMP, 4-bit up to 16 colors and 8-bit above. BMP has
+ * no transparency, so spec.transparentIndex is ignored.
+ */
+export const encodeBmp = (spec: IndexedImageSpec, indices: Uint8Array) => {
+    const { width, height, palette } = spec;
+    const bitDepth = palette.length <= 16 ? 4 : 8;
+    const stride = Math.ceil((width * bitDepth) / 32) * 4;
+    const paletteSize = palette.length * 4;
+    const offset = FILE_HEADER_SIZE + INFO_HEADER_SIZE + paletteSize;
+    const out = new Uint8Array(offset + stride * height);
+    const view = new DataView(out.buffer);
+
+    out[0] = 0x42; // "B"
+    out[1] = 0x4d; // "M"
+    view.setUint32(2, out.length, true);
+    view.setUint32(10, offset, true);
+
+    view.setUint32(14, INFO_HEADER_SIZE, true);
+    view.setInt32(18, width, true);
+    view.setInt32(22, height, true); // positive: rows stored bottom-up
+    view.setUint16(26, 1, true);
+    view.setUint16(28, bitDepth, true);
+    view.setUint32(34, stride * height, true);
+    view.setInt32(38, PIXELS_PER_METER, true);
+    view.setInt32(42, PIXELS_PER_METER, true);
+    view.setUint32(46, palette.length, true);
+    view.setUint32(50, palette.length, true);
+
+    palette.forEach((color, i) => out.set([color.b, color.g, color.r, 0], 54 + i * 4));
+
+    for (let y = 0; y < height; y += 1) {
+        const row = offset + (height - 1 - y) * stride;
+        for (let x = 0; x < width; x += 1) {
+            const index = indices[y * width + x];
+            if (bitDepth === 8) {
+                out[row + x] = index;
+            } else {
+                out[row + (x >> 1)] |= (index & 0x0f) << (x % 2 === 0 ? 4 : 0);
+            }
+        }
+    }
+    return out;
+};
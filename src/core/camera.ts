@@ -0,0 +1,208 @@
+import { luminance, Rgb } from "./palettes";
+import { decodeTile2bpp, encodeTile2bpp, levelToColorIndex, TILE_BYTES, TILE_SIZE } from "./tiles";
+
+/** Game Boy Camera saves are the cartridge's whole 128 KiB of SRAM. */
+export const CAMERA_SAVE_SIZE = 0x20000;
+export const CAMERA_SLOTS = 30;
+export const CAMERA_WIDTH = 128;
+export const CAMERA_HEIGHT = 112;
+export const THUMBNAIL_SIZE = 32;
+
+const SLOT_START = 0x2000;
+const SLOT_BYTES = 0x1000;
+const THUMBNAIL_OFFSET = 0xe00;
+
+/**
+ * One byte per slot with the photo's album position, or 0xff when the slot
+ * was deleted. A "Magic" string, a sum and a xor checksum follow, then a
+ * copy of the whole block.
+ */
+const STATE_START = 0x11b2;
+const STATE_FREE = 0xff;
+const MAGIC_BYTES = 5;
+const CHECKSUM_START = STATE_START + CAMERA_SLOTS + MAGIC_BYTES;
+const STATE_BLOCK_BYTES = CAMERA_SLOTS + MAGIC_BYTES + 2;
+
+export type CameraPhoto = {
+    /** Slot in SRAM, 0-based; files and cards show it 1-based. */
+    slot: number;
+    deleted: boolean;
+    /** Shade levels (0 darkest), CAMERA_WIDTH x CAMERA_HEIGHT. */
+    levels: Uint8Array;
+    /** Shade levels, THUMBNAIL_SIZE square. */
+    thumbnail: Uint8Array;
+};
+
+/** Where an imported photo came from, kept so it can be written back to its slot. */
+export type CameraSource = {
+    /** File name of the save. */
+    save: string;
+    slot: number;
+    deleted: boolean;
+    thumbnail: boolean;
+};
+
+export const isCameraSave = (data: Uint8Array) => data.length === CAMERA_SAVE_SIZE;
+
+const slotOffset = (slot: number) => SLOT_START + slot * SLOT_BYTES;
+
+/** Index in a width-wide image of pixel p of tile, with tiles in rows. */
+const tilePixel = (width: number, tile: number, p: number) => {
+    const columns = width / TILE_SIZE;
+    const x = (tile % columns) * TILE_SIZE + (p % TILE_SIZE);
+    const y = Math.floor(tile / columns) * TILE_SIZE + Math.floor(p / TILE_SIZE);
+    return y * width + x;
+};
+
+const tileCount = (width: number, height: number) => (width / TILE_SIZE) * (height / TILE_SIZE);
+
+/** Decodes 2bpp tiles into shade levels. */
+const readTiles = (data: Uint8Array, offset: number, width: number, height: number) => {
+    const levels = new Uint8Array(width * height);
+    for (let tile = 0; tile < tileCount(width, height); tile += 1) {
+        decodeTile2bpp(data, offset + tile * TILE_BYTES).forEach((color, p) => {
+            levels[tilePixel(width, tile, p)] = levelToColorIndex(color);
+        });
+    }
+    return levels;
+};
+
+const writeTiles = (
+    data: Uint8Array,
+    offset: number,
+    levels: Uint8Array,
+    width: number,
+    height: number
+) => {
+    for (let tile = 0; tile < tileCount(width, height); tile += 1) {
+        const pixels = new Uint8Array(TILE_SIZE * TILE_SIZE).map((_, p) =>
+            levelToColorIndex(levels[tilePixel(width, tile, p)])
+        );
+        data.set(encodeTile2bpp(pixels), offset + tile * TILE_BYTES);
+    }
+};
+
+/** Slots whose image bytes are all the same were never written. */
+const isBlank = (data: Uint8Array, offset: number) => {
+    for (let i = offset + 1; i < offset + THUMBNAIL_OFFSET; i += 1) {
+        if (data[i] !== data[offset]) {
+            return false;
+        }
+    }
+    return true;
+};
+
+/**
+ * Reads the photos in a Game Boy Camera save, in slot order. Deleted photos
+ * are kept, since their image data survives until the slot is reused; only
+ * slots that were never written are left out.
+ */
+export const readCameraSave = (data: Uint8Array): CameraPhoto[] => {
+    if (!isCameraSave(data)) {
+        throw new Error("Not a Game Boy Camera save (expected 128 KiB).");
+    }
+    const photos: CameraPhoto[] = [];
+    for (let slot = 0; slot < CAMERA_SLOTS; slot += 1) {
+        const offset = slotOffset(slot);
+        if (isBlank(data, offset)) {
+            continue;
+        }
+        photos.push({
+            slot,
+            deleted: data[STATE_START + slot] === STATE_FREE,
+            levels: readTiles(data, offset, CAMERA_WIDTH, CAMERA_HEIGHT),
+            thumbnail: readTiles(data, offset + THUMBNAIL_OFFSET, THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+        });
+    }
+    return photos;
+};
+
+/** Slots the album shows, in slot order. */
+export const usedSlots = (data: Uint8Array) =>
+    Array.from(data.subarray(STATE_START, STATE_START + CAMERA_SLOTS), (state, slot) =>
+        state === STATE_FREE ? -1 : slot
+    ).filter((slot) => slot >= 0);
+
+/** First deleted or never used slot, or -1 when the album is full. */
+export const freeSlot = (data: Uint8Array) =>
+    data.subarray(STATE_START, STATE_START + CAMERA_SLOTS).indexOf(STATE_FREE);
+
+/**
+ * The camera's thumbnail: the photo scaled down 4x, averaging each 4x4 block,
+ * with the two rows left over at the top and bottom in the lightest shade.
+ */
+const thumbnailLevels = (levels: Uint8Array) => {
+    const scale = CAMERA_WIDTH / THUMBNAIL_SIZE;
+    const top = (THUMBNAIL_SIZE - CAMERA_HEIGHT / scale) / 2;
+    const thumbnail = new Uint8Array(THUMBNAIL_SIZE * THUMBNAIL_SIZE).fill(3);
+    for (let y = 0; y < CAMERA_HEIGHT / scale; y += 1) {
+        for (let x = 0; x < THUMBNAIL_SIZE; x += 1) {
+            let sum = 0;
+            for (let dy = 0; dy < scale; dy += 1) {
+                for (let dx = 0; dx < scale; dx += 1) {
+                    sum += levels[(y * scale + dy) * CAMERA_WIDTH + x * scale + dx];
+                }
+            }
+            thumbnail[(top + y) * THUMBNAIL_SIZE + x] = Math.round(sum / (scale * scale));
+        }
+    }
+    return thumbnail;
+};
+
+/**
+ * Moves both checksums by the change in the state bytes, so the result is
+ * valid whatever the checksums were seeded with, then refreshes the copy.
+ */
+const updateState = (data: Uint8Array, slot: number, state: number) => {
+    const previous = data[STATE_START + slot];
+    data[STATE_START + slot] = state;
+    data[CHECKSUM_START] = (data[CHECKSUM_START] - previous + state) & 0xff;
+    data[CHECKSUM_START + 1] ^= previous ^ state;
+    data.copyWithin(STATE_START + STATE_BLOCK_BYTES, STATE_START, STATE_START + STATE_BLOCK_BYTES);
+};
+
+/**
+ * Palette indices as the camera's shades, 0 darkest. Custom and auto
+ * palettes needn't list their colors darkest first, so they are ranked by
+ * luminance.
+ */
+export const shadeLevels = (levels: Uint8Array, palette: Rgb[]) => {
+    const shades = new Uint8Array(palette.length);
+    palette
+        .map((color, index) => ({ index, light: luminance(color) }))
+        .sort((a, b) => a.light - b.light)
+        .forEach(({ index }, shade) => {
+            shades[index] = Math.min(shade, 3);
+        });
+    return levels.map((level) => shades[level]);
+};
+
+/**
+ * Returns a copy of save with a 128x112 level image (0 darkest) and its
+ * thumbnail written to slot. A deleted slot is added to the end of the album.
+ */
+export const writeCameraPhoto = (save: Uint8Array, slot: number, levels: Uint8Array) => {
+    if (!isCameraSave(save)) {
+        throw new Error("Not a Game Boy Camera save (expected 128 KiB).");
+    }
+    if (slot < 0 || slot >= CAMERA_SLOTS) {
+        throw new Error(`Camera slots run from 1 to ${CAMERA_SLOTS}.`);
+    }
+    if (levels.length !== CAMERA_WIDTH * CAMERA_HEIGHT) {
+        throw new Error(`Camera photos must be ${CAMERA_WIDTH}x${CAMERA_HEIGHT}.`);
+    }
+    const data = save.slice();
+    const offset = slotOffset(slot);
+    writeTiles(data, offset, levels, CAMERA_WIDTH, CAMERA_HEIGHT);
+    writeTiles(
+        data,
+        offset + THUMBNAIL_OFFSET,
+        thumbnailLevels(levels),
+        THUMBNAIL_SIZE,
+        THUMBNAIL_SIZE
+    );
+    if (data[STATE_START + slot] === STATE_FREE) {
+        updateState(data, slot, usedSlots(data).length);
+    }
+    return data;
+};
@@ -0,0 +1,287 @@
+import { extractPalette } from "./autoPalette";
+import { fromOklab, Oklab, toOklab } from "./oklab";
+import { Rgb } from "./palettes";
+import { levelToColorIndex, TILE_SIZE, Tileset } from "./tiles";
+
+export type CgbImage = {
+    /** Background palettes (at most 8), four colors each, darkest first, at RGB555 precision. */
+    palettes: Rgb[][];
+    /** Palette number per 8x8 cell, row-major. */
+    tilePalettes: Uint8Array;
+    /** Per cell: CGB_TILE_OK, or why the cell couldn't be drawn exactly. */
+    issues: Uint8Array;
+    columns: number;
+    rows: number;
+};
+
+export const CGB_PALETTE_COUNT = 8;
+export const CGB_PALETTE_COLORS = 4;
+
+export const CGB_TILE_OK = 0;
+/** The cell has more than four colors and was reduced to four. */
+export const CGB_TILE_TOO_MANY_COLORS = 1;
+/** The cell's colors didn't all fit in a palette, so some were approximated. */
+export const CGB_TILE_NO_PALETTE = 2;
+
+const ATTR_PALETTE_MASK = 0x07;
+
+const to5 = (value: number) => Math.round((value * 31) / 255);
+const from5 = (value: number) => (value << 3) | (value >> 2);
+
+/** 15-bit color word: red in the low bits, as the palette registers expect. */
+export const toRgb555 = (color: Rgb) => to5(color.r) | (to5(color.g) << 5) | (to5(color.b) << 10);
+
+export const fromRgb555 = (word: number): Rgb => ({
+    r: from5(word & 0x1f),
+    g: from5((word >> 5) & 0x1f),
+    b: from5((word >> 10) & 0x1f)
+});
+
+const distance = (a: Oklab, b: Oklab) =>
+    (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const nearest = (color: Oklab, palette: Oklab[]) => {
+    let best = 0;
+    for (let index = 1; index < palette.length; index += 1) {
+        if (distance(color, palette[index]) < distance(color, palette[best])) {
+            best = index;
+        }
+    }
+    return best;
+};
+
+type Cell = {
+    /** Pixel offsets inside the image, opaque pixels only. */
+    pixels: number[];
+    /** Distinct RGB555 colors. */
+    colors: number[];
+};
+
+/** Refinement passes when the cells have to share approximate palettes. */
+const CLUSTER_PASSES = 3;
+
+const readCell = (
+    opaque: Uint8Array,
+    words: Uint16Array,
+    width: number,
+    height: number,
+    column: number,
+    row: number
+): Cell => {
+    const pixels: number[] = [];
+    for (let y = row * TILE_SIZE; y < Math.min(height, (row + 1) * TILE_SIZE); y += 1) {
+        for (let x = column * TILE_SIZE; x < Math.min(width, (column + 1) * TILE_SIZE); x += 1) {
+            if (opaque[y * width + x]) {
+                pixels.push(y * width + x);
+            }
+        }
+    }
+    return { pixels, colors: [...new Set(pixels.map((p) => words[p]))] };
+};
+
+const cellLab = (lab: Float32Array, pixels: number[]) => {
+    const out = new Float32Array(pixels.length * 3);
+    pixels.forEach((p, i) => out.set(lab.subarray(p * 3, p * 3 + 3), i * 3));
+    return { lab: out, opaque: new Uint8Array(pixels.length).fill(1) };
+};
+
+/** Squared Oklab error of drawing the cell with the given palette. */
+const paletteError = (cell: Cell, lab: Float32Array, palette: Oklab[]) =>
+    cell.pixels.reduce((sum, p) => {
+        const color: Oklab = [lab[p * 3], lab[p * 3 + 1], lab[p * 3 + 2]];
+        return sum + distance(color, palette[nearest(color, palette)]);
+    }, 0);
+
+/**
+ * Packs every cell's exact colors into at most eight palettes, largest sets
+ * first, each into the palette it grows least. Null when they don't fit.
+ */
+const packExact = (cells: Cell[]) => {
+    if (cells.some((cell) => cell.colors.length > CGB_PALETTE_COLORS)) {
+        return null;
+    }
+    const order = cells
+        .map((_, index) => index)
+        .sort((a, b) => cells[b].colors.length - cells[a].colors.length);
+    const sets: Set<number>[] = [];
+    const assigned = new Uint8Array(cells.length);
+    for (const index of order) {
+        const { colors } = cells[index];
+        let best = -1;
+        let bestGrowth = Infinity;
+        sets.forEach((set, p) => {
+            const growth = colors.filter((color) => !set.has(color)).length;
+            if (set.size + growth <= CGB_PALETTE_COLORS && growth < bestGrowth) {
+                best = p;
+                bestGrowth = growth;
+            }
+        });
+        if (best === -1) {
+            if (sets.length === CGB_PALETTE_COUNT) {
+                return null;
+            }
+            best = sets.length;
+            sets.push(new Set());
+        }
+        colors.forEach((color) => sets[best].add(color));
+        assigned[index] = best;
+    }
+    return { palettes: sets.map((set) => [...set].map(fromRgb555)), assigned };
+};
+
+/**
+ * Groups cells by their average color, then alternates between fitting a
+ * 4-color palette to each group and moving every cell to the palette that
+ * draws it best.
+ */
+const clusterCells = (cells: Cell[], lab: Float32Array) => {
+    const filled = cells.filter((cell) => cell.pixels.length);
+    const means = filled.map((cell) => {
+        const { lab: pixels } = cellLab(lab, cell.pixels);
+        const mean = [0, 0, 0];
+        pixels.forEach((value, i) => (mean[i % 3] += value / cell.pixels.length));
+        return mean;
+    });
+    const seeds = extractPalette(
+        [{ lab: Float32Array.from(means.flat()), opaque: new Uint8Array(means.length).fill(1) }],
+        CGB_PALETTE_COUNT
+    )!.map(toOklab);
+    const assigned = new Uint8Array(cells.length);
+    cells.forEach((cell, index) => {
+        const mean = cell.pixels.length ? means[filled.indexOf(cell)] : [0, 0, 0];
+        assigned[index] = nearest(mean as Oklab, seeds);
+    });
+
+    let palettes: Rgb[][] = [];
+    for (let pass = 0; pass < CLUSTER_PASSES; pass += 1) {
+        const groups = [...new Set(assigned)];
+        palettes = groups.map(
+            (group) =>
+                extractPalette(
+                    cells
+                        .filter((cell, index) => assigned[index] === group && cell.pixels.length)
+                        .map((cell) => cellLab(lab, cell.pixels)),
+                    CGB_PALETTE_COLORS
+                ) ?? [{ r: 0, g: 0, b: 0 }]
+        );
+        const paletteLab = palettes.map((palette) => palette.map(toOklab));
+        cells.forEach((cell, index) => {
+            const errors = paletteLab.map((palette) => paletteError(cell, lab, palette));
+            assigned[index] = errors.indexOf(Math.min(...errors));
+        });
+    }
+    return { palettes, assigned };
+};
+
+/**
+ * Converts Oklab pixels for the Game Boy Color background: every 8x8 cell
+ * gets one of up to eight 4-color RGB555 palettes. When the cells' colors
+ * can't be packed exactly, palettes are fitted to groups of similar cells
+ * and the cells that lose colors are flagged in issues. Levels index the
+ * cell's palette, 0 darkest, like DMG levels.
+ */
+export const quantizeCgb = (
+    lab: Float32Array,
+    opaque: Uint8Array,
+    width: number,
+    height: number
+): { levels: Uint8Array; cgb: CgbImage } => {
+    const columns = Math.ceil(width / TILE_SIZE);
+    const rows = Math.ceil(height / TILE_SIZE);
+    const words = new Uint16Array(width * height);
+    for (let p = 0; p < words.length; p += 1) {
+        if (opaque[p]) {
+            words[p] = toRgb555(fromOklab([lab[p * 3], lab[p * 3 + 1], lab[p * 3 + 2]]));
+        }
+    }
+
+    const cells: Cell[] = [];
+    for (let row = 0; row < rows; row += 1) {
+        for (let column = 0; column < columns; column += 1) {
+            cells.push(readCell(opaque, words, width, height, column, row));
+        }
+    }
+    if (!cells.some((cell) => cell.pixels.length)) {
+        const blank = Array.from({ length: CGB_PALETTE_COLORS }, () => ({ r: 0, g: 0, b: 0 }));
+        const tilePalettes = new Uint8Array(cells.length);
+        const issues = new Uint8Array(cells.length);
+        return {
+            levels: new Uint8Array(width * height),
+            cgb: { palettes: [blank], tilePalettes, issues, columns, rows }
+        };
+    }
+
+    const packed = packExact(cells) ?? clusterCells(cells, lab);
+    // Snap to RGB555, sort darkest first and pad to four colors.
+    const palettes = packed.palettes.map((colors) => {
+        const snapped = colors
+            .map((color) => fromRgb555(toRgb555(color)))
+            .sort((a, b) => toOklab(a)[0] - toOklab(b)[0]);
+        while (snapped.length < CGB_PALETTE_COLORS) {
+            snapped.push(snapped[snapped.length - 1]);
+        }
+        return snapped;
+    });
+    const paletteLab = palettes.map((palette) => palette.map(toOklab));
+    const tilePalettes = packed.assigned;
+
+    const levels = new Uint8Array(width * height);
+    const issues = Uint8Array.from(cells, (cell, index) => {
+        const palette = tilePalettes[index];
+        for (const p of cell.pixels) {
+            levels[p] = nearest([lab[p * 3], lab[p * 3 + 1], lab[p * 3 + 2]], paletteLab[palette]);
+        }
+        if (cell.colors.length > CGB_PALETTE_COLORS) {
+            return CGB_TILE_TOO_MANY_COLORS;
+        }
+        const available = new Set(palettes[palette].map(toRgb555));
+        return cell.colors.every((color) => available.has(color))
+            ? CGB_TILE_OK
+            : CGB_TILE_NO_PALETTE;
+    });
+
+    return { levels, cgb: { palettes, tilePalettes, issues, columns, rows } };
+};
+
+/** Index of the 8x8 cell holding pixel p. */
+export const cgbCell = (cgb: CgbImage, width: number, p: number) =>
+    Math.floor(p / width / TILE_SIZE) * cgb.columns + Math.floor((p % width) / TILE_SIZE);
+
+/** Color of a pixel, looked up in its cell's palette. */
+export const cgbColor = (cgb: CgbImage, width: number, p: number, level: number) =>
+    cgb.palettes[cgb.tilePalettes[cgbCell(cgb, width, p)]][level];
+
+export const countIssues = (cgb: CgbImage) =>
+    cgb.issues.reduce((sum, issue) => sum + (issue ? 1 : 0), 0);
+
+/** RGB555 words, four per palette in hardware color order (color 0 lightest). */
+export const cgbPaletteWords = (palettes: Rgb[][]) =>
+    Uint16Array.from(
+        { length: palettes.length * CGB_PALETTE_COLORS },
+        // The mapping is its own inverse, so it also turns a color index into a level.
+        (_, index) =>
+            toRgb555(palettes[Math.floor(index / CGB_PALETTE_COLORS)][
+                levelToColorIndex(index % CGB_PALETTE_COLORS)
+            ])
+    );
+
+/** Palette data as written to BCPD: the words of cgbPaletteWords, little-endian. */
+export const cgbPaletteData = (palettes: Rgb[][]) => {
+    const words = cgbPaletteWords(palettes);
+    const out = new Uint8Array(words.length * 2);
+    words.forEach((word, index) => {
+        out[index * 2] = word & 0xff;
+        out[index * 2 + 1] = word >> 8;
+    });
+    return out;
+};
+
+/**
+ * VRAM bank 1 attribute map: the palette number in bits 0-2, plus the flip
+ * bits when the tileset was deduplicated with flips. Tiles stay in bank 0.
+ */
+export const cgbAttributes = (tileset: Tileset, tilePalettes: Uint8Array) =>
+    Uint8Array.from(
+        tileset.map,
+        (_, cell) => (tileset.attributes?.[cell] ?? 0) | (tilePalettes[cell] & ATTR_PALETTE_MASK)
+    );
@@ -0,0 +1,374 @@
+import { hasPngSignature } from "./png";
+import { RgbaImage } from "./resize";
+
+export type ImageType = "png" | "gif" | "jpg" | "webp";
+
+const TYPE_NAMES: Record<ImageType, string> = {
+    png: "PNG",
+    gif: "GIF",
+    jpg: "JPEG",
+    webp: "WebP"
+};
+
+/** Bytes sniffImageType needs from the start of a file. */
+export const SNIFF_BYTES = 32;
+
+/** What to do with images over the pixel limit, which can exhaust canvas memory. */
+export type OversizeMode = "downscale" | "reject";
+
+export const OVERSIZE_MODES: { value: OversizeMode; label: string }[] = [
+    { value: "downscale", label: "Downscale to fit" },
+    { value: "reject", label: "Reject" }
+];
+
+export const MAX_PIXEL_OPTIONS: { value: number; label: string }[] = [
+    { value: 16_000_000, label: "16 MP" },
+    { value: 32_000_000, label: "32 MP" },
+    { value: 64_000_000, label: "64 MP" },
+    { value: 100_000_000, label: "100 MP" }
+];
+
+export type DecodeSettings = {
+    maxPixels: number;
+    oversize: OversizeMode;
+};
+
+export const DEFAULT_DECODE: DecodeSettings = {
+    maxPixels: 32_000_000,
+    oversize: "downscale"
+};
+
+export type DecodeFailure = "unsupported" | "corrupt" | "too-large" | "out-of-memory";
+
+export const DECODE_FAILURES: { value: DecodeFailure; label: string }[] = [
+    { value: "unsupported", label: "Unsupported format" },
+    { value: "corrupt", label: "Damaged file" },
+    { value: "too-large", label: "Image too large" },
+    { value: "out-of-memory", label: "Out of memory" }
+];
+
+export type DecodeError = Error & { reason: DecodeFailure };
+
+export const decodeError = (reason: DecodeFailure, message: string): DecodeError =>
+    Object.assign(new Error(message), { name: "DecodeError", reason });
+
+/** The failure category of an error thrown while decoding, or null for other errors. */
+export const failureOf = (error: unknown): DecodeFailure | null => {
+    const reason = (error as Partial<DecodeError> | null)?.reason;
+    return DECODE_FAILURES.find((entry) => entry.value === reason)?.value ?? null;
+};
+
+export const failureLabel = (reason: DecodeFailure) =>
+    DECODE_FAILURES.find((entry) => entry.value === reason)?.label ?? reason;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+const u16be = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+const u16le = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+const u24le = (bytes: Uint8Array, offset: number) =>
+    bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const u32be = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | u16be(bytes, offset + 2)) >>> 0;
+
+const u32le = (bytes: Uint8Array, offset: number) =>
+    (u16le(bytes, offset) | (u16le(bytes, offset + 2) << 16)) >>> 0;
+
+/** The image type from the file's first bytes, whatever its extension says. */
+export const sniffImageType = (bytes: Uint8Array): ImageType | null => {
+    if (hasPngSignature(bytes)) {
+        return "png";
+    }
+    const gif = ascii(bytes, 0, 6);
+    if (gif === "GIF87a" || gif === "GIF89a") {
+        return "gif";
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return "jpg";
+    }
+    return ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP" ? "webp" : null;
+};
+
+/** Names formats that get mistaken for supported ones, for a clearer error. */
+const otherFormat = (bytes: Uint8Array) => {
+    if (ascii(bytes, 4, 4) === "ftyp") {
+        const brand = ascii(bytes, 8, 4);
+        if (/^(heic|heix|hevc|hevx|heim|heis)$/.test(brand)) {
+            return "HEIC";
+        }
+        if (/^avi[fs]$/.test(brand)) {
+            return "AVIF";
+        }
+        return /^m[is]f1$/.test(brand) ? "HEIF" : null;
+    }
+    const head = ascii(bytes, 0, 4);
+    if (head === "II*\0" || head === "MM\0*") {
+        return "TIFF";
+    }
+    if (head === "8BPS") {
+        return "Photoshop";
+    }
+    if (head === "%PDF") {
+        return "PDF";
+    }
+    return head.startsWith("BM") ? "BMP" : null;
+};
+
+/** JPEG frame headers; C4, C8 and CC share the range but aren't frames. */
+const isJpegFrame = (marker: number) =>
+    marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+type JpegSegment = { marker: number; start: number; length: number };
+
+/** Walks the JPEG segments before the image data, stopping early when visit returns a value. */
+const walkJpeg = <T>(bytes: Uint8Array, visit: (segment: JpegSegment) => T | undefined) => {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset += 1;
+            continue;
+        }
+        if (marker === 0xda || marker === 0xd9) {
+            return undefined;
+        }
+        const length = u16be(bytes, offset + 2);
+        const found = visit({ marker, start: offset + 4, length: length - 2 });
+        if (found !== undefined) {
+            return found;
+        }
+        offset += 2 + length;
+    }
+    return undefined;
+};
+
+/** Width and height from the header, or null when the header is missing or damaged. */
+export const imageSize = (bytes: Uint8Array, type: ImageType) => {
+    switch (type) {
+        case "png":
+            return bytes.length >= 24 && ascii(bytes, 12, 4) === "IHDR"
+                ? { width: u32be(bytes, 16), height: u32be(bytes, 20) }
+                : null;
+        case "gif":
+            return bytes.length >= 10
+                ? { width: u16le(bytes, 6), height: u16le(bytes, 8) }
+                : null;
+        case "jpg":
+            return (
+                walkJpeg(bytes, ({ marker, start }) =>
+                    isJpegFrame(marker) && start + 5 <= bytes.length
+                        ? { width: u16be(bytes, start + 3), height: u16be(bytes, start + 1) }
+                        : undefined
+                ) ?? null
+            );
+        case "webp": {
+            const chunk = ascii(bytes, 12, 4);
+            if (chunk === "VP8X" && bytes.length >= 30) {
+                return { width: u24le(bytes, 24) + 1, height: u24le(bytes, 27) + 1 };
+            }
+            if (chunk === "VP8L" && bytes.length >= 25) {
+                const bits = u32le(bytes, 21);
+                return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+            }
+            if (chunk === "VP8 " && bytes.length >= 30) {
+                return { width: u16le(bytes, 26) & 0x3fff, height: u16le(bytes, 28) & 0x3fff };
+            }
+            return null;
+        }
+    }
+};
+
+const lastIndexOfBytes = (bytes: Uint8Array, pattern: number[]) => {
+    for (let i = bytes.length - pattern.length; i >= 0; i -= 1) {
+        if (pattern.every((value, j) => bytes[i + j] === value)) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+const IEND = [0x49, 0x45, 0x4e, 0x44];
+
+/**
+ * Whether a PNG or JPEG stops before its end marker, as an interrupted
+ * download does. Browsers draw what they have, so it would convert grey.
+ */
+export const isTruncated = (bytes: Uint8Array, type: ImageType) => {
+    if (type === "png") {
+        return lastIndexOfBytes(bytes, IEND) < 0;
+    }
+    if (type === "jpg") {
+        // The end marker can't occur inside image data, but an EXIF thumbnail has its own.
+        const end = lastIndexOfBytes(bytes, [0xff, 0xd9]);
+        return end < 0 || lastIndexOfBytes(bytes.subarray(end), [0xff, 0xda]) >= 0;
+    }
+    return false;
+};
+
+const EXIF_ORIENTATION = 0x0112;
+
+/**
+ * The EXIF orientation of a JPEG (1-8, 1 upright), where its value is stored
+ * and in which byte order, or null without one.
+ */
+export const jpegOrientation = (bytes: Uint8Array) =>
+    walkJpeg(bytes, ({ marker, start, length }) => {
+        if (marker !== 0xe1 || ascii(bytes, start, 6) !== "Exif\0\0") {
+            return undefined;
+        }
+        const tiff = start + 6;
+        const end = Math.min(bytes.length, start + length);
+        const little = ascii(bytes, tiff, 2) === "II";
+        const u16 = (offset: number) => (little ? u16le(bytes, offset) : u16be(bytes, offset));
+        const u32 = (offset: number) => (little ? u32le(bytes, offset) : u32be(bytes, offset));
+        const ifd = tiff + u32(tiff + 4);
+        if (ifd + 2 > end) {
+            return null;
+        }
+        for (let i = 0; i < u16(ifd); i += 1) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > end) {
+                break;
+            }
+            if (u16(entry) === EXIF_ORIENTATION) {
+                const orientation = u16(entry + 8);
+                const valid = orientation >= 1 && orientation <= 8;
+                return valid ? { orientation, offset: entry + 8, little } : null;
+            }
+        }
+        return null;
+    }) ?? null;
+
+/**
+ * A copy of a JPEG marked upright, so every browser decodes the stored
+ * pixels and orientImage can turn them the same way everywhere.
+ */
+export const withoutOrientation = (bytes: Uint8Array) => {
+    const found = jpegOrientation(bytes);
+    if (!found) {
+        return bytes;
+    }
+    const copy = bytes.slice();
+    copy.set(found.little ? [1, 0] : [0, 1], found.offset);
+    return copy;
+};
+
+/** Orientations 5-8 turn the image a quarter, swapping width and height. */
+export const orientedSize = (width: number, height: number, orientation: number) =>
+    orientation >= 5 ? { width: height, height: width } : { width, height };
+
+/** Where the stored pixel at x, y goes in the upright image, as a pixel index. */
+const orientedIndex = (orientation: number, w: number, h: number) => {
+    switch (orientation) {
+        case 2:
+            return (x: number, y: number) => y * w + (w - 1 - x);
+        case 3:
+            return (x: number, y: number) => (h - 1 - y) * w + (w - 1 - x);
+        case 4:
+            return (x: number, y: number) => (h - 1 - y) * w + x;
+        case 5:
+            return (x: number, y: number) => x * h + y;
+        case 6:
+            return (x: number, y: number) => x * h + (h - 1 - y);
+        case 7:
+            return (x: number, y: number) => (w - 1 - x) * h + (h - 1 - y);
+        case 8:
+            return (x: number, y: number) => (w - 1 - x) * h + y;
+        default:
+            return (x: number, y: number) => y * w + x;
+    }
+};
+
+/** Turns and flips the stored pixels as the EXIF orientation says, to display upright. */
+export const orientImage = (image: RgbaImage, orientation: number): RgbaImage => {
+    if (orientation <= 1 || orientation > 8) {
+        return image;
+    }
+    const { data: src, width: w, height: h } = image;
+    const target = orientedIndex(orientation, w, h);
+    const data = new Uint8ClampedArray(src.length);
+    for (let y = 0; y < h; y += 1) {
+        for (let x = 0; x < w; x += 1) {
+            const from = (y * w + x) * 4;
+            const to = target(x, y) * 4;
+            data[to] = src[from];
+            data[to + 1] = src[from + 1];
+            data[to + 2] = src[from + 2];
+            data[to + 3] = src[from + 3];
+        }
+    }
+    return { data, ...orientedSize(w, h, orientation) };
+};
+
+/** The largest size with the same aspect ratio and at most maxPixels pixels. */
+export const fitPixels = (width: number, height: number, maxPixels: number) => {
+    if (width * height <= maxPixels) {
+        return { width, height };
+    }
+    const scale = Math.sqrt(maxPixels / (width * height));
+    return {
+        width: Math.max(1, Math.floor(width * scale)),
+        height: Math.max(1, Math.floor(height * scale))
+    };
+};
+
+const megapixels = (pixels: number) => `${Math.round(pixels / 100_000) / 10} MP`;
+
+export type ImageInfo = {
+    type: ImageType;
+    /** Stored size, before the orientation is applied. */
+    width: number;
+    height: number;
+    /** EXIF orientation, 1 for upright and for everything but JPEG. */
+    orientation: number;
+    /** Stored size to decode at: the full size, or smaller to stay under the pixel limit. */
+    decodeWidth: number;
+    decodeHeight: number;
+};
+
+/**
+ * Checks an image before it is decoded: its type from its bytes, its size
+ * from its header against the pixel limit, and that it isn't cut off.
+ * Throws a DecodeError saying which of these failed.
+ */
+export const inspectImage = (bytes: Uint8Array, settings: DecodeSettings): ImageInfo => {
+    const type = sniffImageType(bytes);
+    if (!type) {
+        const other = otherFormat(bytes);
+        throw decodeError(
+            "unsupported",
+            other
+                ? `${other} files aren't supported. Save it as PNG, JPEG, GIF or WebP.`
+                : "Not a PNG, JPEG, GIF or WebP image."
+        );
+    }
+    const size = imageSize(bytes, type);
+    if (!size?.width || !size.height) {
+        throw decodeError("corrupt", `The ${TYPE_NAMES[type]} header is damaged.`);
+    }
+    if (isTruncated(bytes, type)) {
+        throw decodeError(
+            "corrupt",
+            `The ${TYPE_NAMES[type]} is cut off. It may not have finished downloading.`
+        );
+    }
+    const pixels = size.width * size.height;
+    if (pixels > settings.maxPixels && settings.oversize === "reject") {
+        throw decodeError(
+            "too-large",
+            `${size.width}x${size.height} is ${megapixels(pixels)}, ` +
+                `over the ${megapixels(settings.maxPixels)} limit.`
+        );
+    }
+    const target = fitPixels(size.width, size.height, settings.maxPixels);
+    return {
+        type,
+        ...size,
+        orientation: type === "jpg" ? (jpegOrientation(bytes)?.orientation ?? 1) : 1,
+        decodeWidth: target.width,
+        decodeHeight: target.height
+    };
+};
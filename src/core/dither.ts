@@ -0,0 +1,297 @@
+import type { Oklab } from "./oklab";
+
+export type DitherMode =
+    | "none"
+    | "bayer2"
+    | "bayer4"
+    | "bayer8"
+    | "floyd-steinberg"
+    | "atkinson"
+    | "jarvis-judice-ninke";
+
+export type DitherSettings = {
+    mode: DitherMode;
+    /** 0..1, scales the threshold offset (ordered) or the diffused error. */
+    strength: number;
+};
+
+export const DITHER_MODES: { value: DitherMode; label: string }[] = [
+    { value: "none", label: "None" },
+    { value: "bayer2", label: "Bayer 2x2" },
+    { value: "bayer4", label: "Bayer 4x4" },
+    { value: "bayer8", label: "Bayer 8x8" },
+    { value: "floyd-steinberg", label: "Floyd-Steinberg" },
+    { value: "atkinson", label: "Atkinson" },
+    { value: "jarvis-judice-ninke", label: "Jarvis-Judice-Ninke" }
+];
+
+export const DEFAULT_DITHER: DitherSettings = { mode: "none", strength: 1 };
+
+const LEVEL_COUNT = 4;
+const LEVEL_STEP = 256 / LEVEL_COUNT;
+
+const toLevel = (value: number) =>
+    Math.min(LEVEL_COUNT - 1, Math.max(0, Math.floor(value / LEVEL_STEP)));
+
+const levelCenter = (level: number) => level * LEVEL_STEP + LEVEL_STEP / 2;
+
+const MIN_CENTER = levelCenter(0);
+const MAX_CENTER = levelCenter(LEVEL_COUNT - 1);
+
+const bayerMatrix = (size: number): number[] => {
+    if (size === 1) {
+        return [0];
+    }
+    const half = size / 2;
+    const prev = bayerMatrix(half);
+    const out = new Array<number>(size * size);
+    for (let y = 0; y < size; y += 1) {
+        for (let x = 0; x < size; x += 1) {
+            const base = 4 * prev[(y % half) * half + (x % half)];
+            const quadrant = [0, 2, 3, 1][(y < half ? 0 : 2) + (x < half ? 0 : 1)];
+            out[y * size + x] = base + quadrant;
+        }
+    }
+    return out;
+};
+
+const BAYER_SIZES: Partial<Record<DitherMode, number>> = {
+    bayer2: 2,
+    bayer4: 4,
+    bayer8: 8
+};
+
+type DiffusionKernel = {
+    divisor: number;
+    /** [dx, dy, weight] relative to the current pixel, in scan direction. */
+    taps: [number, number, number][];
+};
+
+const KERNELS: Partial<Record<DitherMode, DiffusionKernel>> = {
+    "floyd-steinberg": {
+        divisor: 16,
+        taps: [
+            [1, 0, 7],
+            [-1, 1, 3],
+            [0, 1, 5],
+            [1, 1, 1]
+        ]
+    },
+    // Atkinson only spreads 6/8 of the error, which keeps highlights crisp.
+    atkinson: {
+        divisor: 8,
+        taps: [
+            [1, 0, 1],
+            [2, 0, 1],
+            [-1, 1, 1],
+            [0, 1, 1],
+            [1, 1, 1],
+            [0, 2, 1]
+        ]
+    },
+    "jarvis-judice-ninke": {
+        divisor: 48,
+        taps: [
+            [1, 0, 7],
+            [2, 0, 5],
+            [-2, 1, 3],
+            [-1, 1, 5],
+            [0, 1, 7],
+            [1, 1, 5],
+            [2, 1, 3],
+            [-2, 2, 1],
+            [-1, 2, 3],
+            [0, 2, 5],
+            [1, 2, 3],
+            [2, 2, 1]
+        ]
+    }
+};
+
+const orderedLevels = (
+    lum: Float32Array,
+    width: number,
+    height: number,
+    size: number,
+    strength: number
+) => {
+    const matrix = bayerMatrix(size);
+    const cells = size * size;
+    const levels = new Uint8Array(width * height);
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+            const i = y * width + x;
+            const threshold = (matrix[(y % size) * size + (x % size)] + 0.5) / cells - 0.5;
+            levels[i] = toLevel(lum[i] + threshold * LEVEL_STEP * strength);
+        }
+    }
+    return levels;
+};
+
+const diffusedLevels = (
+    lum: Float32Array,
+    opaque: Uint8Array | null,
+    width: number,
+    height: number,
+    kernel: DiffusionKernel,
+    strength: number
+) => {
+    const work = Float32Array.from(lum);
+    const levels = new Uint8Array(width * height);
+
+    // Serpentine scan so the error doesn't pile up along one edge.
+    for (let y = 0; y < height; y += 1) {
+        const reverse = y % 2 === 1;
+        for (let step = 0; step < width; step += 1) {
+            const x = reverse ? width - 1 - step : step;
+            const i = y * width + x;
+            if (opaque && !opaque[i]) {
+                continue;
+            }
+            const value = work[i];
+            const level = toLevel(value);
+            levels[i] = level;
+
+            // Values beyond the outermost shade centers can't be represented
+            // any better, so they don't push error into their neighbours.
+            const clamped = Math.min(MAX_CENTER, Math.max(MIN_CENTER, value));
+            const error = (clamped - levelCenter(level)) * strength;
+            if (error === 0) {
+                continue;
+            }
+
+            for (const [dx, dy, weight] of kernel.taps) {
+                const nx = reverse ? x - dx : x + dx;
+                const ny = y + dy;
+                if (nx < 0 || nx >= width || ny >= height) {
+                    continue;
+                }
+                work[ny * width + nx] += (error * weight) / kernel.divisor;
+            }
+        }
+    }
+    return levels;
+};
+
+/**
+ * Maps luminance values (0..255) to the four shade levels, 0 being darkest.
+ * Pixels flagged as not opaque are skipped by error diffusion.
+ */
+export const quantizeLevels = (
+    lum: Float32Array,
+    opaque: Uint8Array | null,
+    width: number,
+    height: number,
+    settings: DitherSettings
+) => {
+    const strength = Math.min(1, Math.max(0, settings.strength));
+    const bayerSize = BAYER_SIZES[settings.mode];
+    if (bayerSize && strength > 0) {
+        return orderedLevels(lum, width, height, bayerSize, strength);
+    }
+
+    const kernel = KERNELS[settings.mode];
+    if (kernel && strength > 0) {
+        return diffusedLevels(lum, opaque, width, height, kernel, strength);
+    }
+
+    const levels = new Uint8Array(width * height);
+    for (let i = 0; i < levels.length; i += 1) {
+        levels[i] = toLevel(lum[i]);
+    }
+    return levels;
+};
+
+const nearestColor = (l: number, a: number, b: number, palette: Oklab[]) => {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    for (let index = 0; index < palette.length; index += 1) {
+        const [pl, pa, pb] = palette[index];
+        const d = (l - pl) ** 2 + (a - pa) ** 2 + (b - pb) ** 2;
+        if (d < nearestDistance) {
+            nearest = index;
+            nearestDistance = d;
+        }
+    }
+    return nearest;
+};
+
+/**
+ * Maps Oklab pixels (three values each) to the nearest palette entry. Ordered
+ * dithering offsets lightness by the palette's average step between shades;
+ * error diffusion spreads the full color error. Pixels flagged as not opaque
+ * are skipped by error diffusion.
+ */
+export const quantizeNearest = (
+    lab: Float32Array,
+    opaque: Uint8Array | null,
+    width: number,
+    height: number,
+    palette: Oklab[],
+    settings: DitherSettings
+) => {
+    const strength = Math.min(1, Math.max(0, settings.strength));
+    const lightness = palette.map((color) => color[0]);
+    const minL = Math.min(...lightness);
+    const maxL = Math.max(...lightness);
+    const indices = new Uint8Array(width * height);
+
+    const bayerSize = BAYER_SIZES[settings.mode];
+    if (bayerSize && strength > 0) {
+        const matrix = bayerMatrix(bayerSize);
+        const cells = bayerSize * bayerSize;
+        const step = (maxL - minL) / Math.max(1, palette.length - 1);
+        for (let y = 0; y < height; y += 1) {
+            for (let x = 0; x < width; x += 1) {
+                const i = y * width + x;
+                const cell = matrix[(y % bayerSize) * bayerSize + (x % bayerSize)];
+                const offset = ((cell + 0.5) / cells - 0.5) * step * strength;
+                const l = lab[i * 3] + offset;
+                indices[i] = nearestColor(l, lab[i * 3 + 1], lab[i * 3 + 2], palette);
+            }
+        }
+        return indices;
+    }
+
+    const kernel = KERNELS[settings.mode];
+    if (!kernel || strength === 0) {
+        for (let i = 0; i < indices.length; i += 1) {
+            indices[i] = nearestColor(lab[i * 3], lab[i * 3 + 1], lab[i * 3 + 2], palette);
+        }
+        return indices;
+    }
+
+    const work = Float32Array.from(lab);
+    for (let y = 0; y < height; y += 1) {
+        const reverse = y % 2 === 1;
+        for (let step = 0; step < width; step += 1) {
+            const x = reverse ? width - 1 - step : step;
+            const i = y * width + x;
+            if (opaque && !opaque[i]) {
+                continue;
+            }
+            // As with luminance, lightness past the palette's ends isn't diffused.
+            const l = Math.min(maxL, Math.max(minL, work[i * 3]));
+            const index = nearestColor(l, work[i * 3 + 1], work[i * 3 + 2], palette);
+            indices[i] = index;
+            const chosen = palette[index];
+            const error = [
+                (l - chosen[0]) * strength,
+                (work[i * 3 + 1] - chosen[1]) * strength,
+                (work[i * 3 + 2] - chosen[2]) * strength
+            ];
+            for (const [dx, dy, weight] of kernel.taps) {
+                const nx = reverse ? x - dx : x + dx;
+                const ny = y + dy;
+                if (nx < 0 || nx >= width || ny >= height) {
+                    continue;
+                }
+                const n = (ny * width + nx) * 3;
+                for (let c = 0; c < 3; c += 1) {
+                    work[n + c] += (error[c] * weight) / kernel.divisor;
+                }
+            }
+        }
+    }
+    return indices;
+};
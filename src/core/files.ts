@@ -0,0 +1,79 @@
+import {
+    archivePaletteToken,
+    DEFAULT_ARCHIVE_TEMPLATE,
+    DEFAULT_FILE_TEMPLATE,
+    expandTemplate,
+    NameValues
+} from "./naming";
+import { Palette, paletteSuffix } from "./palettes";
+import { splitPath } from "./zip";
+
+export const SUPPORTED_EXTS = ["png", "apng", "gif", "jpg", "jpeg", "webp"] as const;
+
+export const extFromName = (name: string) =>
+    name.toLowerCase().split(".").pop() ?? "";
+
+export const baseName = (name: string) => {
+    const parts = name.split(".");
+    parts.pop();
+    return parts.join(".") || name;
+};
+
+export const isSupportedExt = (ext: string) =>
+    SUPPORTED_EXTS.includes(ext as (typeof SUPPORTED_EXTS)[number]);
+
+export const mimeForExt = (ext: string) => {
+    switch (ext) {
+        case "jpg":
+        case "jpeg":
+            return "image/jpeg";
+        case "webp":
+            return "image/webp";
+        case "gif":
+            return "image/gif";
+        case "apng":
+            return "image/apng";
+        default:
+            return "image/png";
+    }
+};
+
+/** Extension for a supported image MIME type, or null. */
+export const extForMime = (type: string) =>
+    SUPPORTED_EXTS.find((ext) => mimeForExt(ext) === type.split(";")[0].trim()) ?? null;
+
+/**
+ * "photo.jpg" converted with the Gray palette becomes "photo-gs.png". values
+ * fill in the template's other tokens, such as {w} or {date}. A folder in
+ * name, as ZIP imports have, is kept in front of the expanded file name.
+ */
+export const outputFileName = (
+    name: string,
+    palette: Palette,
+    ext = "png",
+    template = DEFAULT_FILE_TEMPLATE,
+    values: NameValues = {}
+) => {
+    const { folder, fileName } = splitPath(name);
+    const stem = expandTemplate(template, {
+        ...values,
+        name: baseName(fileName),
+        palette: paletteSuffix(palette)
+    });
+    return folder ? `${folder}/${stem}.${ext}` : `${stem}.${ext}`;
+};
+
+/** Batch archives keep the plain name for DMG, e.g. "img2dmg-all.zip" or "img2dmg-all-gs.zip". */
+export const archiveName = (
+    label: string,
+    palette: Palette,
+    template = DEFAULT_ARCHIVE_TEMPLATE,
+    values: NameValues = {}
+) => {
+    const stem = expandTemplate(template, {
+        ...values,
+        label,
+        palette: archivePaletteToken(palette)
+    });
+    return `${stem}.zip`;
+};
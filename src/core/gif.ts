@@ -0,0 +1,382 @@
+import type { Animation, AnimationFrame } from "./animation";
+import { Rgb } from "./palettes";
+import { concatBytes, IndexedFrame, IndexedImageSpec } from "./png";
+
+const MAX_CODES = 4096;
+
+/** Browsers play 0 and 10ms frame delays at 100ms, so decoding matches them. */
+const MIN_DELAY_CS = 2;
+const DEFAULT_DELAY_MS = 100;
+
+export const isGif = (bytes: Uint8Array) =>
+    bytes.length >= 6 && String.fromCharCode(...bytes.subarray(0, 6)).match(/^GIF8[79]a$/) !== null;
+
+const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number) => {
+    const out = new Uint8Array(pixelCount);
+    const prefix = new Int16Array(MAX_CODES);
+    const suffix = new Uint8Array(MAX_CODES);
+    const first = new Uint8Array(MAX_CODES);
+    const stack = new Uint8Array(MAX_CODES + 1);
+    const clear = 1 << minCodeSize;
+    const end = clear + 1;
+    for (let code = 0; code < clear; code += 1) {
+        prefix[code] = -1;
+        suffix[code] = code;
+        first[code] = code;
+    }
+
+    let codeSize = minCodeSize + 1;
+    let next = end + 1;
+    let previous = -1;
+    let bits = 0;
+    let buffer = 0;
+    let written = 0;
+
+    for (let i = 0; i < data.length && written < pixelCount; ) {
+        while (bits < codeSize && i < data.length) {
+            buffer |= data[i] << bits;
+            bits += 8;
+            i += 1;
+        }
+        if (bits < codeSize) {
+            break;
+        }
+        const code = buffer & ((1 << codeSize) - 1);
+        buffer >>>= codeSize;
+        bits -= codeSize;
+
+        if (code === clear) {
+            codeSize = minCodeSize + 1;
+            next = end + 1;
+            previous = -1;
+            continue;
+        }
+        if (code === end) {
+            break;
+        }
+
+        // A code one past the table is the previous string plus its own first byte.
+        let chase = code < next ? code : previous;
+        if (chase < 0) {
+            throw new Error("Corrupt GIF image data.");
+        }
+        let depth = 0;
+        if (code >= next) {
+            stack[depth++] = first[previous];
+        }
+        while (chase >= 0) {
+            stack[depth++] = suffix[chase];
+            chase = prefix[chase];
+        }
+        while (depth > 0 && written < pixelCount) {
+            out[written++] = stack[--depth];
+        }
+
+        if (previous >= 0 && next < MAX_CODES) {
+            prefix[next] = previous;
+            suffix[next] = code < next ? first[code] : first[previous];
+            first[next] = first[previous];
+            next += 1;
+            if (next === 1 << codeSize && codeSize < 12) {
+                codeSize += 1;
+            }
+        }
+        previous = code;
+    }
+    return out;
+};
+
+const readColorTable = (bytes: Uint8Array, offset: number, size: number): Rgb[] => {
+    const colors: Rgb[] = [];
+    for (let i = 0; i < size; i += 1) {
+        const o = offset + i * 3;
+        colors.push({ r: bytes[o], g: bytes[o + 1], b: bytes[o + 2] });
+    }
+    return colors;
+};
+
+/** Interlaced rows are stored in four passes: every 8th from 0, 8th from 4, 4th from 2, 2nd from 1. */
+const deinterlace = (indices: Uint8Array, width: number, height: number) => {
+    const out = new Uint8Array(indices.length);
+    let source = 0;
+    for (const [start, step] of [
+        [0, 8],
+        [4, 8],
+        [2, 4],
+        [1, 2]
+    ]) {
+        for (let y = start; y < height; y += step) {
+            out.set(indices.subarray(source * width, (source + 1) * width), y * width);
+            source += 1;
+        }
+    }
+    return out;
+};
+
+/** Frames in a GIF, counted from its block structure without decoding them. */
+export const gifFrameCount = (bytes: Uint8Array) => {
+    const tableSize = (flags: number) => (flags & 0x80 ? (2 << (flags & 7)) * 3 : 0);
+    let offset = 13 + tableSize(bytes[10]);
+    const skipSubBlocks = () => {
+        while (offset < bytes.length && bytes[offset] !== 0) {
+            offset += bytes[offset] + 1;
+        }
+        offset += 1;
+    };
+    let count = 0;
+    while (offset < bytes.length) {
+        const block = bytes[offset];
+        offset += 1;
+        if (block === 0x21) {
+            offset += 1;
+            skipSubBlocks();
+        } else if (block === 0x2c) {
+            offset += 9 + tableSize(bytes[offset + 8]) + 1;
+            skipSubBlocks();
+            count += 1;
+        } else {
+            break;
+        }
+    }
+    return count;
+};
+
+/**
+ * Decodes every frame, or the first maxFrames, composited onto the full
+ * logical screen. A still can be read from the first frame alone.
+ */
+export const decodeGif = (bytes: Uint8Array, maxFrames = Infinity): Animation => {
+    if (!isGif(bytes)) {
+        throw new Error("Not a GIF file.");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const width = view.getUint16(6, true);
+    const height = view.getUint16(8, true);
+    const packed = bytes[10];
+    let offset = 13;
+    let globalTable: Rgb[] = [];
+    if (packed & 0x80) {
+        const size = 2 << (packed & 7);
+        globalTable = readColorTable(bytes, offset, size);
+        offset += size * 3;
+    }
+
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    const frames: AnimationFrame[] = [];
+    let loops = 1;
+    let delay = 0;
+    let disposal = 0;
+    let transparent = -1;
+
+    const readSubBlocks = () => {
+        const parts: Uint8Array[] = [];
+        while (offset < bytes.length) {
+            const size = bytes[offset];
+            offset += 1;
+            if (size === 0) {
+                break;
+            }
+            parts.push(bytes.subarray(offset, offset + size));
+            offset += size;
+        }
+        return parts;
+    };
+
+    while (offset < bytes.length) {
+        const block = bytes[offset];
+        offset += 1;
+        if (block === 0x3b) {
+            break;
+        }
+        if (block === 0x21) {
+            const label = bytes[offset];
+            offset += 1;
+            const parts = readSubBlocks();
+            if (label === 0xf9 && parts[0]?.length >= 4) {
+                const gce = parts[0];
+                disposal = (gce[0] >> 2) & 7;
+                delay = gce[1] | (gce[2] << 8);
+                transparent = gce[0] & 1 ? gce[3] : -1;
+            } else if (
+                label === 0xff &&
+                parts[0] &&
+                String.fromCharCode(...parts[0]) === "NETSCAPE2.0" &&
+                parts[1]?.length >= 3
+            ) {
+                // NETSCAPE loop count 0 means forever; no extension means play once.
+                loops = parts[1][1] | (parts[1][2] << 8);
+            }
+            continue;
+        }
+        if (block !== 0x2c) {
+            throw new Error("Corrupt GIF block structure.");
+        }
+
+        const left = view.getUint16(offset, true);
+        const top = view.getUint16(offset + 2, true);
+        const frameWidth = view.getUint16(offset + 4, true);
+        const frameHeight = view.getUint16(offset + 6, true);
+        const flags = bytes[offset + 8];
+        offset += 9;
+        let table = globalTable;
+        if (flags & 0x80) {
+            const size = 2 << (flags & 7);
+            table = readColorTable(bytes, offset, size);
+            offset += size * 3;
+        }
+        const minCodeSize = bytes[offset];
+        offset += 1;
+        const data = readSubBlocks();
+        let indices = lzwDecode(concatBytes(data), minCodeSize, frameWidth * frameHeight);
+        if (flags & 0x40) {
+            indices = deinterlace(indices, frameWidth, frameHeight);
+        }
+
+        const previous = disposal === 3 ? canvas.slice() : null;
+        for (let y = 0; y < frameHeight; y += 1) {
+            const cy = top + y;
+            if (cy >= height) {
+                break;
+            }
+            for (let x = 0; x < frameWidth; x += 1) {
+                const cx = left + x;
+                const index = indices[y * frameWidth + x];
+                if (cx >= width || index === transparent || !table[index]) {
+                    continue;
+                }
+                const o = (cy * width + cx) * 4;
+                canvas[o] = table[index].r;
+                canvas[o + 1] = table[index].g;
+                canvas[o + 2] = table[index].b;
+                canvas[o + 3] = 255;
+            }
+        }
+
+        frames.push({
+            image: { data: canvas.slice(), width, height },
+            delay: delay < MIN_DELAY_CS ? DEFAULT_DELAY_MS : delay * 10
+        });
+
+        if (disposal === 2) {
+            for (let y = top; y < Math.min(height, top + frameHeight); y += 1) {
+                const start = (y * width + left) * 4;
+                canvas.fill(0, start, start + Math.min(frameWidth, width - left) * 4);
+            }
+        } else if (previous) {
+            canvas.set(previous);
+        }
+        delay = 0;
+        disposal = 0;
+        transparent = -1;
+        if (frames.length >= maxFrames) {
+            break;
+        }
+    }
+
+    if (!frames.length) {
+        throw new Error("GIF has no frames.");
+    }
+    return { width, height, frames, loops };
+};
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number) => {
+    const out: number[] = [];
+    const clear = 1 << minCodeSize;
+    const end = clear + 1;
+    let codeSize = minCodeSize + 1;
+    let next = end + 1;
+    let table = new Map<number, number>();
+    let buffer = 0;
+    let bits = 0;
+
+    const emit = (code: number) => {
+        buffer |= code << bits;
+        bits += codeSize;
+        while (bits >= 8) {
+            out.push(buffer & 0xff);
+            buffer >>>= 8;
+            bits -= 8;
+        }
+    };
+
+    emit(clear);
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i += 1) {
+        const index = indices[i];
+        const key = (current << 8) | index;
+        const code = table.get(key);
+        if (code !== undefined) {
+            current = code;
+            continue;
+        }
+        emit(current);
+        if (next === MAX_CODES) {
+            emit(clear);
+            table = new Map();
+            next = end + 1;
+            codeSize = minCodeSize + 1;
+        } else {
+            if (next >= 1 << codeSize) {
+                codeSize += 1;
+            }
+            table.set(key, next);
+            next += 1;
+        }
+        current = index;
+    }
+    emit(current);
+    emit(end);
+    if (bits > 0) {
+        out.push(buffer & 0xff);
+    }
+    return out;
+};
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/** Full-canvas frames sharing one global color table. loops = 0 plays forever. */
+export const encodeGif = (spec: IndexedImageSpec, frames: IndexedFrame[], loops: number) => {
+    const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, spec.palette.length))));
+    const tableSize = 1 << tableBits;
+    const minCodeSize = Math.max(2, tableBits);
+    const transparent = spec.transparentIndex;
+    const out: number[] = [
+        ..."GIF89a".split("").map((char) => char.charCodeAt(0)),
+        ...u16(spec.width),
+        ...u16(spec.height),
+        0x80 | ((tableBits - 1) << 4) | (tableBits - 1),
+        0,
+        0
+    ];
+    for (let i = 0; i < tableSize; i += 1) {
+        const color = spec.palette[i] ?? { r: 0, g: 0, b: 0 };
+        out.push(color.r, color.g, color.b);
+    }
+    if (frames.length > 1) {
+        out.push(0x21, 0xff, 11, ..."NETSCAPE2.0".split("").map((char) => char.charCodeAt(0)));
+        out.push(3, 1, ...u16(loops), 0);
+    }
+    for (const frame of frames) {
+        // Dispose to background so transparent pixels don't show the previous frame.
+        const disposal = transparent === undefined ? 1 : 2;
+        out.push(
+            0x21,
+            0xf9,
+            4,
+            (disposal << 2) | (transparent === undefined ? 0 : 1),
+            ...u16(Math.round(frame.delay / 10)),
+            transparent ?? 0,
+            0
+        );
+        out.push(0x2c, ...u16(0), ...u16(0), ...u16(spec.width), ...u16(spec.height), 0);
+        out.push(minCodeSize);
+        const data = lzwEncode(frame.indices, minCodeSize);
+        for (let i = 0; i < data.length; i += 255) {
+            const block = data.slice(i, i + 255);
+            out.push(block.length, ...block);
+        }
+        out.push(0);
+    }
+    out.push(0x3b);
+    return Uint8Array.from(out);
+};
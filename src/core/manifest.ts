@@ -0,0 +1,109 @@
+import { toHex } from "./palettes";
+import { ConvertSettings } from "./pipeline";
+
+export type ManifestFormat = "none" | "json" | "csv";
+
+export const MANIFEST_FORMATS: { value: ManifestFormat; label: string }[] = [
+    { value: "none", label: "None" },
+    { value: "json", label: "manifest.json" },
+    { value: "csv", label: "manifest.csv" }
+];
+
+export const DEFAULT_MANIFEST_FORMAT: ManifestFormat = "none";
+
+/** Marks manifests so tools can tell them from other JSON. */
+const MANIFEST_KIND = "img2dmg-manifest";
+const MANIFEST_VERSION = 1;
+
+/** One converted image, with what it takes to check or redo the conversion. */
+export type ManifestEntry = {
+    /** Source path in the batch, with its ZIP folder. */
+    source: string;
+    /** Hex SHA-256 of the source file. */
+    sourceSha256: string;
+    /** Output path in the archive. */
+    output: string;
+    width: number;
+    height: number;
+    /** Frame count of animated outputs. */
+    frames?: number;
+    /** Palette the output uses; colors darkest first, as hex. */
+    palette: { name: string; colors: string[] };
+    /** The image's settings, its own overrides applied; the palette is listed above. */
+    settings: Omit<ConvertSettings, "palette">;
+};
+
+export type ManifestItem = Omit<ManifestEntry, "palette" | "settings"> & {
+    paletteName: string;
+    settings: ConvertSettings;
+};
+
+export const manifestEntry = ({ paletteName, settings, ...item }: ManifestItem): ManifestEntry => {
+    const { palette, ...rest } = settings;
+    return {
+        ...item,
+        palette: { name: paletteName, colors: palette.map(toHex) },
+        settings: rest
+    };
+};
+
+export const manifestJson = (entries: ManifestEntry[], created: Date) =>
+    JSON.stringify(
+        {
+            format: MANIFEST_KIND,
+            version: MANIFEST_VERSION,
+            created: created.toISOString(),
+            files: entries
+        },
+        null,
+        2
+    );
+
+const CSV_COLUMNS = [
+    "source",
+    "source_sha256",
+    "output",
+    "width",
+    "height",
+    "frames",
+    "palette",
+    "palette_colors",
+    "settings"
+];
+
+/** Quotes fields with commas, quotes or line breaks, as RFC 4180 does. */
+const csvField = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per image; settings are a JSON cell, so the columns stay fixed. */
+export const manifestCsv = (entries: ManifestEntry[]) =>
+    [
+        CSV_COLUMNS,
+        ...entries.map((entry) => [
+            entry.source,
+            entry.sourceSha256,
+            entry.output,
+            entry.width,
+            entry.height,
+            entry.frames ?? "",
+            entry.palette.name,
+            entry.palette.colors.join(" "),
+            JSON.stringify(entry.settings)
+        ])
+    ]
+        .map((row) => row.map(csvField).join(","))
+        .join("\r\n") + "\r\n";
+
+/** The manifest file for an archive, or null when manifests are off. */
+export const manifestFile = (format: ManifestFormat, entries: ManifestEntry[], created: Date) => {
+    switch (format) {
+        case "json":
+            return { name: "manifest.json", data: manifestJson(entries, created) };
+        case "csv":
+            return { name: "manifest.csv", data: manifestCsv(entries) };
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,130 @@
+import { DMG_PALETTE, Palette, paletteSuffix } from "./palettes";
+import { toSymbol } from "./sourceExport";
+
+/** Token values by name, without the braces. */
+export type NameValues = Record<string, string>;
+
+export type NameToken = { value: string; label: string };
+
+export const FILE_NAME_TOKENS: NameToken[] = [
+    { value: "name", label: "source name without its extension" },
+    { value: "palette", label: "palette suffix, e.g. dmg or gs" },
+    { value: "w", label: "output width" },
+    { value: "h", label: "output height" },
+    { value: "index", label: "position in the queue, from 1" },
+    { value: "date", label: "export date, YYYY-MM-DD" }
+];
+
+export const ARCHIVE_NAME_TOKENS: NameToken[] = [
+    { value: "label", label: "all or selected" },
+    { value: "palette", label: "palette suffix, left out for DMG" },
+    { value: "count", label: "number of images" },
+    { value: "date", label: "export date, YYYY-MM-DD" }
+];
+
+export const DEFAULT_FILE_TEMPLATE = "{name}-{palette}";
+export const DEFAULT_ARCHIVE_TEMPLATE = "img2dmg-{label}-{palette}";
+
+export const MAX_TEMPLATE_LENGTH = 200;
+
+/** A token with the separator before it, which goes too when the token is empty. */
+const TOKEN = /([-_. ]?)\{(\w+)\}/g;
+
+/** Characters Windows, macOS or unzip tools reject in a file name. */
+const UNSAFE = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+const EDGE_SEPARATORS = /^[-_. ]+|[-_. ]+$/g;
+
+/** Why template can't be used, or null when it can. */
+export const templateError = (template: string, tokens: NameToken[]) => {
+    if (!template.trim()) {
+        return "Enter a name template.";
+    }
+    if (template.length > MAX_TEMPLATE_LENGTH) {
+        return `Name templates are at most ${MAX_TEMPLATE_LENGTH} characters.`;
+    }
+    const unknown = [...template.matchAll(/\{(\w*)\}/g)].find(
+        ([, token]) => !tokens.some((entry) => entry.value === token)
+    );
+    return unknown ? `Unknown token ${unknown[0]}.` : null;
+};
+
+/**
+ * Fills in a name template, without an extension. An empty value drops its
+ * token along with the separator before it, so "img2dmg-{label}-{palette}"
+ * becomes "img2dmg-all" when there is no palette suffix. Characters file
+ * systems reject become "_".
+ */
+export const expandTemplate = (template: string, values: NameValues) =>
+    template
+        .replace(TOKEN, (match, separator: string, token: string) => {
+            const value = values[token];
+            if (value === undefined) {
+                return match;
+            }
+            return value ? separator + value : "";
+        })
+        .replace(UNSAFE, "_")
+        .replace(EDGE_SEPARATORS, "") || "image";
+
+/** Local date as YYYY-MM-DD. */
+export const dateToken = (date: Date) =>
+    [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+        .map((part) => String(part).padStart(2, "0"))
+        .join("-");
+
+/** 1-based position, zero-padded so names sort in order, e.g. "007" of 120. */
+export const indexToken = (index: number, count: number) =>
+    String(index + 1).padStart(String(count).length, "0");
+
+/** Batch archives keep the plain name for DMG, as they did before templates. */
+export const archivePaletteToken = (palette: Palette) =>
+    palette.id === DMG_PALETTE.id ? "" : paletteSuffix(palette);
+
+const splitExt = (path: string) => {
+    const dot = path.lastIndexOf(".");
+    return dot > path.lastIndexOf("/") + 1 ? [path.slice(0, dot), path.slice(dot)] : [path, ""];
+};
+
+/**
+ * Hands out unique paths, ignoring case as Windows and macOS do. The first of
+ * each name keeps it; later ones get "-2", "-3" and so on before the
+ * extension, skipping numbers taken or reserved for paths still to come.
+ */
+export const uniqueNamer = (reserved: string[] = []) => {
+    const later = new Set(reserved.map((path) => path.toLowerCase()));
+    const taken = new Set<string>();
+    return (path: string) => {
+        let name = path;
+        if (taken.has(name.toLowerCase())) {
+            const [stem, ext] = splitExt(path);
+            let number = 2;
+            do {
+                name = `${stem}-${number}${ext}`;
+                number += 1;
+            } while (taken.has(name.toLowerCase()) || later.has(name.toLowerCase()));
+        }
+        taken.add(name.toLowerCase());
+        return name;
+    };
+};
+
+export const uniqueNames = (paths: string[]) => paths.map(uniqueNamer(paths));
+
+/**
+ * Hands out C / RGBDS identifiers for file names, adding "_2", "_3" and so on
+ * to repeats. Exported sources are linked together, so symbols stay unique
+ * across folders; their .c, .h and .asm files are named after them.
+ */
+export const uniqueSymbols = () => {
+    const taken = new Set<string>();
+    return (name: string) => {
+        const base = toSymbol(name);
+        let symbol = base;
+        for (let number = 2; taken.has(symbol.toLowerCase()); number += 1) {
+            symbol = `${base}_${number}`;
+        }
+        taken.add(symbol.toLowerCase());
+        return symbol;
+    };
+};
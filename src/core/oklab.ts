@@ -0,0 +1,48 @@
+import { Rgb } from "./palettes";
+
+/** Lightness 0..1 and the a/b opponent axes, roughly -0.4..0.4. */
+export type Oklab = [number, number, number];
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => {
+    const c = value / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const linearToSrgb = (value: number) => {
+    const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+    return Math.min(255, Math.max(0, Math.round(c * 255)));
+};
+
+/** Writes the Oklab coordinates of an 8-bit sRGB color into out at offset. */
+export const rgbToOklab = (
+    r: number,
+    g: number,
+    b: number,
+    out: Float32Array | number[] = [0, 0, 0],
+    offset = 0
+) => {
+    const lr = SRGB_TO_LINEAR[r];
+    const lg = SRGB_TO_LINEAR[g];
+    const lb = SRGB_TO_LINEAR[b];
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+    out[offset] = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+    out[offset + 1] = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+    out[offset + 2] = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+    return out;
+};
+
+export const toOklab = (color: Rgb) => rgbToOklab(color.r, color.g, color.b) as Oklab;
+
+/** Nearest 8-bit sRGB color; out-of-gamut values are clipped per channel. */
+export const fromOklab = ([L, a, b]: Oklab): Rgb => {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+    return {
+        r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+        g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+        b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)
+    };
+};
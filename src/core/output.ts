@@ -0,0 +1,170 @@
+import type { AlphaMode } from "./alpha";
+import { encodeBmp } from "./bmp";
+import { CGB_PALETTE_COLORS, cgbCell, CgbImage } from "./cgb";
+import { Rgb } from "./palettes";
+import { Deflate, encodeGray2Png, encodeIndexedPng, encodeRgbaPng, IndexedImageSpec } from "./png";
+import { RgbaImage } from "./resize";
+import { levelToColorIndex } from "./tiles";
+
+export type OutputFormat = "png-indexed" | "png-gray" | "bmp" | "png-rgba";
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string; ext: string; mime: string }[] = [
+    { value: "png-indexed", label: "Indexed PNG", ext: "png", mime: "image/png" },
+    { value: "png-gray", label: "Grayscale PNG (2-bit)", ext: "png", mime: "image/png" },
+    { value: "bmp", label: "BMP (indexed)", ext: "bmp", mime: "image/bmp" },
+    { value: "png-rgba", label: "RGBA PNG", ext: "png", mime: "image/png" }
+];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "png-indexed";
+
+export const outputFormat = (format: OutputFormat) =>
+    OUTPUT_FORMATS.find((entry) => entry.value === format) ?? OUTPUT_FORMATS[0];
+
+/** Shade levels (0 darkest) with the opacity mask, as the pipeline produces them. */
+export type LevelImage = {
+    width: number;
+    height: number;
+    levels: Uint8Array;
+    opaque: Uint8Array;
+};
+
+export const hasTransparency = (frames: { opaque: Uint8Array }[]) =>
+    frames.some((frame) => frame.opaque.includes(0));
+
+/**
+ * How indexed output stores transparent pixels: not at all, as an extra
+ * palette entry, or as color 0 when the alpha policy reserves it.
+ */
+export type Transparency = "none" | "extra" | "color0";
+
+export const transparencyFor = (
+    frames: { opaque: Uint8Array }[],
+    alpha: AlphaMode
+): Transparency => {
+    if (alpha === "color0") {
+        return "color0";
+    }
+    return hasTransparency(frames) ? "extra" : "none";
+};
+
+const hardwareOrder = (palette: Rgb[]) =>
+    palette.map((_, index) => palette[levelToColorIndex(index)]);
+
+/**
+ * Output palettes follow the hardware color order (lightest first). Transparent
+ * pixels get a fifth entry, since all four shades are in use, unless color 0
+ * is reserved for them.
+ */
+export const indexedSpec = (
+    width: number,
+    height: number,
+    palette: Rgb[],
+    transparency: Transparency
+): IndexedImageSpec => {
+    const colors = hardwareOrder(palette);
+    switch (transparency) {
+        case "extra":
+            return {
+                width,
+                height,
+                palette: [...colors, { r: 0, g: 0, b: 0 }],
+                transparentIndex: colors.length
+            };
+        case "color0":
+            return { width, height, palette: colors, transparentIndex: 0 };
+        default:
+            return { width, height, palette: colors };
+    }
+};
+
+/** Color index per pixel; transparent pixels map to transparentIndex when there is one. */
+export const frameIndices = (
+    frame: { levels: Uint8Array; opaque: Uint8Array },
+    transparentIndex?: number
+) =>
+    frame.levels.map((level, p) =>
+        frame.opaque[p] || transparentIndex === undefined ? levelToColorIndex(level) : transparentIndex
+    );
+
+/** A converted still, with per-tile palettes in CGB mode. */
+export type OutputImage = LevelImage & { image: RgbaImage; cgb?: CgbImage | null };
+
+/**
+ * Palette and indices for indexed formats. CGB images put every palette in
+ * one color table, so a pixel's index is palette * 4 + color index.
+ */
+const indexedImage = (image: OutputImage, palette: Rgb[], transparency: Transparency) => {
+    const { cgb } = image;
+    if (!cgb) {
+        const spec = indexedSpec(image.width, image.height, palette, transparency);
+        return { spec, indices: frameIndices(image, spec.transparentIndex) };
+    }
+    // CGB output never reserves color 0, since every palette has its own.
+    const transparent = transparency !== "none";
+    const colors = cgb.palettes.flatMap(hardwareOrder);
+    const spec: IndexedImageSpec = transparent
+        ? {
+              width: image.width,
+              height: image.height,
+              palette: [...colors, { r: 0, g: 0, b: 0 }],
+              transparentIndex: colors.length
+          }
+        : { width: image.width, height: image.height, palette: colors };
+    const indices = image.levels.map((level, p) => {
+        if (!image.opaque[p] && transparent) {
+            return colors.length;
+        }
+        const cell = cgbCell(cgb, image.width, p);
+        return cgb.tilePalettes[cell] * CGB_PALETTE_COLORS + levelToColorIndex(level);
+    });
+    return { spec, indices };
+};
+
+/**
+ * Trims unused trailing palette entries, so an image that only uses colors 0
+ * and 1 is written at 1 bit per pixel. Indices keep their hardware meaning.
+ */
+const encodeIndexed = (
+    image: OutputImage,
+    palette: Rgb[],
+    alpha: AlphaMode,
+    deflate: Deflate
+) => {
+    const { spec, indices } = indexedImage(image, palette, transparencyFor([image], alpha));
+    const used = indices.reduce((max, index) => Math.max(max, index), 0) + 1;
+    return encodeIndexedPng({ ...spec, palette: spec.palette.slice(0, used) }, indices, deflate);
+};
+
+const LIGHTEST_LEVEL = 3;
+
+/** Levels with transparent pixels set to the lightest shade (color 0). */
+const flattenLevels = (image: LevelImage) =>
+    image.levels.map((level, p) => (image.opaque[p] ? level : LIGHTEST_LEVEL));
+
+/**
+ * Encodes a converted still. Grayscale PNG and BMP have no transparency, so
+ * transparent pixels take color 0 there; RGBA PNG writes image as is.
+ * Indexed PNG stores them as the alpha policy says.
+ */
+export const encodeOutput = async (
+    format: OutputFormat,
+    image: OutputImage,
+    palette: Rgb[],
+    alpha: AlphaMode,
+    deflate: Deflate
+): Promise<Uint8Array> => {
+    switch (format) {
+        case "png-gray":
+            // Gray samples run black to white, the same order as shade levels.
+            return encodeGray2Png(image.width, image.height, flattenLevels(image), deflate);
+        case "bmp": {
+            const flat = { ...image, levels: flattenLevels(image) };
+            const { spec, indices } = indexedImage(flat, palette, "none");
+            return encodeBmp(spec, indices);
+        }
+        case "png-rgba":
+            return encodeRgbaPng(image.image, deflate);
+        default:
+            return encodeIndexed(image, palette, alpha, deflate);
+    }
+};
@@ -0,0 +1,270 @@
+export type Rgb = { r: number; g: number; b: number };
+
+export type Palette = {
+    id: string;
+    name: string;
+    /** Four shades ordered darkest to lightest. */
+    colors: Rgb[];
+    builtIn?: boolean;
+};
+
+export type PaletteFormat = "gpl" | "pal" | "hex";
+
+export const PALETTE_SIZE = 4;
+
+export const PALETTE_FORMATS: { value: PaletteFormat; label: string }[] = [
+    { value: "gpl", label: "GIMP (.gpl)" },
+    { value: "pal", label: "JASC (.pal)" },
+    { value: "hex", label: "Hex (.hex)" }
+];
+
+export const PALETTE_IMPORT_EXTS = ["gpl", "pal", "hex", "txt"] as const;
+
+export const DMG_PALETTE: Palette = {
+    id: "dmg",
+    name: "DMG",
+    builtIn: true,
+    colors: [
+        { r: 15, g: 56, b: 15 },
+        { r: 48, g: 98, b: 48 },
+        { r: 139, g: 172, b: 15 },
+        { r: 155, g: 188, b: 15 }
+    ]
+};
+
+export const GRAY_PALETTE: Palette = {
+    id: "gray",
+    name: "Gray",
+    builtIn: true,
+    colors: [
+        { r: 15, g: 15, b: 15 },
+        { r: 86, g: 86, b: 86 },
+        { r: 170, g: 170, b: 170 },
+        { r: 240, g: 240, b: 240 }
+    ]
+};
+
+export const POCKET_PALETTE: Palette = {
+    id: "pocket",
+    name: "Pocket",
+    builtIn: true,
+    colors: [
+        { r: 31, g: 31, b: 31 },
+        { r: 77, g: 83, b: 60 },
+        { r: 139, g: 149, b: 109 },
+        { r: 196, g: 207, b: 161 }
+    ]
+};
+
+export const LIGHT_PALETTE: Palette = {
+    id: "light",
+    name: "Light",
+    builtIn: true,
+    colors: [
+        { r: 0, g: 79, b: 59 },
+        { r: 0, g: 105, b: 74 },
+        { r: 0, g: 154, b: 113 },
+        { r: 0, g: 181, b: 129 }
+    ]
+};
+
+export const BGB_PALETTE: Palette = {
+    id: "bgb",
+    name: "BGB",
+    builtIn: true,
+    colors: [
+        { r: 8, g: 24, b: 32 },
+        { r: 52, g: 104, b: 86 },
+        { r: 136, g: 192, b: 112 },
+        { r: 224, g: 248, b: 208 }
+    ]
+};
+
+export const BUILT_IN_PALETTES = [
+    DMG_PALETTE,
+    GRAY_PALETTE,
+    POCKET_PALETTE,
+    LIGHT_PALETTE,
+    BGB_PALETTE
+];
+
+/** Stands in for the per-image palettes of auto matching, e.g. in file names. */
+export const AUTO_PALETTE: Palette = {
+    id: "auto",
+    name: "Auto",
+    builtIn: true,
+    colors: DMG_PALETTE.colors
+};
+
+/** Stands in for the per-tile palettes of CGB mode. */
+export const CGB_PALETTE: Palette = {
+    id: "cgb",
+    name: "CGB",
+    builtIn: true,
+    colors: DMG_PALETTE.colors
+};
+
+/** Filename suffixes kept from before palettes were configurable. */
+const LEGACY_SUFFIXES: Record<string, string> = {
+    dmg: "dmg",
+    gray: "gs"
+};
+
+export const luminance = (color: Rgb) =>
+    0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b;
+
+export const toHex = (color: Rgb) =>
+    [color.r, color.g, color.b].map((value) => value.toString(16).padStart(2, "0")).join("");
+
+export const fromHex = (hex: string): Rgb | null => {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+    if (!match) {
+        return null;
+    }
+    const value = parseInt(match[1], 16);
+    return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+};
+
+export const slugify = (name: string) =>
+    name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "palette";
+
+export const paletteSuffix = (palette: Palette) =>
+    LEGACY_SUFFIXES[palette.id] ?? slugify(palette.name);
+
+const clampByte = (value: number) => Math.min(255, Math.max(0, Math.round(value)));
+
+const parseRgbLine = (line: string): Rgb | null => {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 3) {
+        return null;
+    }
+    const [r, g, b] = parts.slice(0, 3).map(Number);
+    if ([r, g, b].some((value) => !Number.isFinite(value))) {
+        return null;
+    }
+    return { r: clampByte(r), g: clampByte(g), b: clampByte(b) };
+};
+
+const parseGpl = (text: string) => {
+    const lines = text.split(/\r?\n/);
+    if (!lines[0]?.trim().startsWith("GIMP Palette")) {
+        throw new Error("Not a GIMP palette.");
+    }
+    let name: string | undefined;
+    const colors: Rgb[] = [];
+    for (const line of lines.slice(1)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith("#")) {
+            continue;
+        }
+        if (trimmed.startsWith("Name:")) {
+            name = trimmed.slice(5).trim() || undefined;
+            continue;
+        }
+        if (trimmed.startsWith("Columns:")) {
+            continue;
+        }
+        const color = parseRgbLine(trimmed);
+        if (color) {
+            colors.push(color);
+        }
+    }
+    return { name, colors };
+};
+
+const parseJascPal = (text: string) => {
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+    if (lines[0] !== "JASC-PAL") {
+        throw new Error("Not a JASC palette.");
+    }
+    const count = Number(lines[2]);
+    const colors = lines
+        .slice(3)
+        .map(parseRgbLine)
+        .filter((color): color is Rgb => color !== null);
+    return { name: undefined, colors: Number.isFinite(count) ? colors.slice(0, count) : colors };
+};
+
+// Covers both plain .hex files and paint.net .txt exports (AARRGGBB, ";" comments).
+const parseHexList = (text: string) => {
+    const colors: Rgb[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith(";")) {
+            continue;
+        }
+        const value = trimmed.length === 8 ? trimmed.slice(2) : trimmed;
+        const color = fromHex(value);
+        if (!color) {
+            throw new Error(`Invalid color "${trimmed}".`);
+        }
+        colors.push(color);
+    }
+    return { name: undefined, colors };
+};
+
+/**
+ * Parses a palette file and reduces it to four shades ordered by luminance.
+ * Files with more than four colors keep their first four entries.
+ */
+export const parsePaletteFile = (fileName: string, text: string) => {
+    const ext = fileName.toLowerCase().split(".").pop() ?? "";
+    const parsed =
+        ext === "gpl"
+            ? parseGpl(text)
+            : ext === "pal"
+              ? parseJascPal(text)
+              : ext === "hex" || ext === "txt"
+                ? parseHexList(text)
+                : null;
+
+    if (!parsed) {
+        throw new Error(`Unsupported palette format ".${ext}".`);
+    }
+    if (parsed.colors.length < PALETTE_SIZE) {
+        throw new Error(
+            `Palette needs ${PALETTE_SIZE} colors, found ${parsed.colors.length}.`
+        );
+    }
+
+    const colors = parsed.colors
+        .slice(0, PALETTE_SIZE)
+        .sort((a, b) => luminance(a) - luminance(b));
+    const fallbackName = fileName.replace(/\.[^.]+$/, "") || "Imported";
+
+    return {
+        name: parsed.name ?? fallbackName,
+        colors,
+        truncated: parsed.colors.length > PALETTE_SIZE
+    };
+};
+
+export const serializePalette = (palette: Palette, format: PaletteFormat) => {
+    switch (format) {
+        case "gpl":
+            return [
+                "GIMP Palette",
+                `Name: ${palette.name}`,
+                "Columns: 4",
+                "#",
+                ...palette.colors.map(
+                    (c) =>
+                        `${String(c.r).padStart(3)} ${String(c.g).padStart(3)} ${String(c.b).padStart(3)}\t${toHex(c)}`
+                ),
+                ""
+            ].join("\n");
+        case "pal":
+            return [
+                "JASC-PAL",
+                "0100",
+                String(palette.colors.length),
+                ...palette.colors.map((c) => `${c.r} ${c.g} ${c.b}`),
+                ""
+            ].join("\r\n");
+        case "hex":
+            return `${palette.colors.map(toHex).join("\n")}\n`;
+    }
+};
@@ -0,0 +1,312 @@
+import {
+    AlphaSettings,
+    blendOnto,
+    coverageMask,
+    opaqueShades,
+    applyAlpha
+} from "./alpha";
+import type { AnimationFormat } from "./animation";
+import { extractPalette, OklabPixels } from "./autoPalette";
+import { CgbImage, cgbColor, quantizeCgb } from "./cgb";
+import type { DecodeSettings } from "./decode";
+import { DitherSettings, quantizeLevels, quantizeNearest } from "./dither";
+import { rgbToOklab, toOklab } from "./oklab";
+import type { OutputFormat } from "./output";
+import { Palette, PALETTE_SIZE, Rgb } from "./palettes";
+import { resizeImage, ResizeSettings, RgbaImage } from "./resize";
+import { applyTransparentIndex, buildSpriteSheet, SpriteSettings, SpriteSheet } from "./sprites";
+import { levelToColorIndex } from "./tiles";
+import { adjustLuminance, applyTone, isDefaultTone, ToneSettings } from "./tone";
+
+/**
+ * How pixels pick a palette entry: by luminance alone, by nearest color in
+ * Oklab, or by nearest color in a palette extracted from each image.
+ */
+export type ColorMatching = "luminance" | "nearest" | "auto";
+
+export const COLOR_MATCHINGS: { value: ColorMatching; label: string }[] = [
+    { value: "luminance", label: "Brightness" },
+    { value: "nearest", label: "Nearest color" },
+    { value: "auto", label: "Auto palette" }
+];
+
+export const DEFAULT_COLOR_MATCHING: ColorMatching = "luminance";
+
+/** DMG maps to one 4-shade palette; CGB builds per-tile color palettes. */
+export type Hardware = "dmg" | "cgb";
+
+export const HARDWARE_MODES: { value: Hardware; label: string }[] = [
+    { value: "dmg", label: "DMG (4 shades)" },
+    { value: "cgb", label: "CGB (color)" }
+];
+
+export const DEFAULT_HARDWARE: Hardware = "dmg";
+
+export type ConvertSettings = {
+    hardware: Hardware;
+    /** Darkest first. Ignored when matching is "auto" and in CGB mode. */
+    palette: Rgb[];
+    matching: ColorMatching;
+    dither: DitherSettings;
+    resize: ResizeSettings;
+    tone: ToneSettings;
+    /** Partial transparency: cut off, flattened onto a shade, or mapped to color 0. */
+    alpha: AlphaSettings;
+    /** Output container for animated inputs. */
+    animation: AnimationFormat;
+    /** File format for stills. */
+    output: OutputFormat;
+    /** Sprite sheet slicing for stills; ignored in CGB mode. */
+    sprite: SpriteSettings;
+    /** Pixel limit for sources, checked before they are decoded. */
+    decode: DecodeSettings;
+};
+
+/**
+ * Settings one image can take from its own card instead of the global ones.
+ * The palette is kept whole, so output names can use its suffix.
+ */
+export type ItemOverrides = {
+    palette?: Palette;
+    dither?: DitherSettings;
+    resize?: ResizeSettings;
+    tone?: ToneSettings;
+};
+
+export const withOverrides = (
+    settings: ConvertSettings,
+    overrides: ItemOverrides | undefined
+): ConvertSettings =>
+    overrides
+        ? {
+              ...settings,
+              palette: overrides.palette?.colors ?? settings.palette,
+              dither: overrides.dither ?? settings.dither,
+              resize: overrides.resize ?? settings.resize,
+              tone: overrides.tone ?? settings.tone
+          }
+        : settings;
+
+export type ProgressCallback = (progress: number) => void;
+
+export type QuantizedImage = {
+    image: RgbaImage;
+    /** Shade level per pixel, 0 darkest. */
+    levels: Uint8Array;
+    /** 1 where the pixel kept its color, 0 where it was fully transparent. */
+    opaque: Uint8Array;
+    /** Palette the levels index, the extracted one in auto mode. */
+    palette: Rgb[];
+    /** Per-tile palettes in CGB mode, where levels index the cell's palette. */
+    cgb: CgbImage | null;
+    /** Frames, tiles and metasprites in sprite mode. */
+    sprites: SpriteSheet | null;
+};
+
+const ROWS_PER_REPORT = 64;
+
+/** Rec. 709 luminance and an opacity mask per pixel. Progress runs 0 to 1. */
+export const imageLuminance = (image: RgbaImage, onProgress?: ProgressCallback) => {
+    const { data, width, height } = image;
+    const lum = new Float32Array(width * height);
+    const opaque = new Uint8Array(width * height);
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0, p = y * width, i = p * 4; x < width; x += 1, p += 1, i += 4) {
+            lum[p] = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+            opaque[p] = data[i + 3] === 0 ? 0 : 1;
+        }
+        if (y % ROWS_PER_REPORT === 0) {
+            onProgress?.(y / height);
+        }
+    }
+    return { lum, opaque };
+};
+
+/**
+ * Oklab pixels with tone applied to lightness. Shade thresholds only apply
+ * when matching by luminance, so they're left out here.
+ */
+export const imageOklab = (
+    image: RgbaImage,
+    tone: ToneSettings,
+    onProgress?: ProgressCallback
+): OklabPixels => {
+    const { data, width, height } = image;
+    const lab = new Float32Array(width * height * 3);
+    const opaque = new Uint8Array(width * height);
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0, p = y * width, i = p * 4; x < width; x += 1, p += 1, i += 4) {
+            rgbToOklab(data[i], data[i + 1], data[i + 2], lab, p * 3);
+            opaque[p] = data[i + 3] === 0 ? 0 : 1;
+        }
+        if (y % ROWS_PER_REPORT === 0) {
+            onProgress?.(y / height);
+        }
+    }
+    if (!isDefaultTone(tone)) {
+        const lightness = new Float32Array(width * height);
+        for (let p = 0; p < lightness.length; p += 1) {
+            lightness[p] = lab[p * 3] * 255;
+        }
+        adjustLuminance(lightness, opaque, tone);
+        for (let p = 0; p < lightness.length; p += 1) {
+            lab[p * 3] = lightness[p] / 255;
+        }
+    }
+    return { lab, opaque };
+};
+
+/** Per-pixel coverage (0..1) when alpha is flattened, otherwise null. */
+type Coverage = Float32Array | null;
+
+/** Width of each shade's luminance bucket once thresholds are mapped. */
+const LEVEL_WIDTH = 256 / PALETTE_SIZE;
+
+const LIGHTEST_LEVEL = PALETTE_SIZE - 1;
+
+/** Level flatten blends onto; the setting is a color index (0 lightest). */
+const flattenLevel = (settings: ConvertSettings) =>
+    levelToColorIndex(settings.alpha.flattenColor);
+
+/**
+ * Luminance path: tone, thresholds and dithering on Rec. 709 luminance. With
+ * color 0 reserved the range is squeezed onto the three darker shades.
+ */
+const matchLuminance = (
+    image: RgbaImage,
+    settings: ConvertSettings,
+    coverage: Coverage,
+    onProgress?: ProgressCallback
+) => {
+    const { lum, opaque } = imageLuminance(image, onProgress);
+    applyTone(lum, opaque, settings.tone);
+    if (coverage) {
+        blendOnto(lum, coverage, [(flattenLevel(settings) + 0.5) * LEVEL_WIDTH]);
+    }
+    const shades = opaqueShades(settings.alpha);
+    if (shades < PALETTE_SIZE) {
+        lum.forEach((value, p) => (lum[p] = (value * shades) / PALETTE_SIZE));
+    }
+    const levels = quantizeLevels(lum, opaque, image.width, image.height, settings.dither);
+    if (shades < PALETTE_SIZE) {
+        // Dithering can still nudge the lightest pixels up a shade.
+        levels.forEach((level, p) => (levels[p] = Math.min(level, shades - 1)));
+    }
+    return { levels, opaque, palette: settings.palette, cgb: null };
+};
+
+const matchNearest = (
+    image: RgbaImage,
+    settings: ConvertSettings,
+    coverage: Coverage,
+    onProgress?: ProgressCallback
+) => {
+    const pixels = imageOklab(image, settings.tone, onProgress);
+    const shades = opaqueShades(settings.alpha);
+    // Extract from the image's own pixels, not the backdrop flatten adds.
+    const extracted =
+        settings.matching === "auto"
+            ? extractPalette(
+                  [coverage ? { lab: pixels.lab, opaque: coverageMask(coverage) } : pixels],
+                  shades
+              )
+            : null;
+    const palette = extracted
+        ? [...extracted, ...settings.palette.slice(shades)]
+        : settings.palette;
+    if (coverage) {
+        blendOnto(pixels.lab, coverage, toOklab(palette[flattenLevel(settings)]));
+    }
+    const levels = quantizeNearest(
+        pixels.lab,
+        pixels.opaque,
+        image.width,
+        image.height,
+        palette.slice(0, shades).map(toOklab),
+        settings.dither
+    );
+    return { levels, opaque: pixels.opaque, palette, cgb: null };
+};
+
+/**
+ * CGB path: per-tile palettes; dithering and the DMG palette don't apply,
+ * except as the shade flatten blends onto.
+ */
+const matchCgb = (
+    image: RgbaImage,
+    settings: ConvertSettings,
+    coverage: Coverage,
+    onProgress?: ProgressCallback
+) => {
+    const { lab, opaque } = imageOklab(image, settings.tone, onProgress);
+    if (coverage) {
+        blendOnto(lab, coverage, toOklab(settings.palette[flattenLevel(settings)]));
+    }
+    const { levels, cgb } = quantizeCgb(lab, opaque, image.width, image.height);
+    return { levels, opaque, palette: cgb.palettes[0], cgb };
+};
+
+const matcher = (settings: ConvertSettings) => {
+    if (settings.hardware === "cgb") {
+        return matchCgb;
+    }
+    return settings.matching === "luminance" ? matchLuminance : matchNearest;
+};
+
+/**
+ * CGB backgrounds have no transparent color, so reserving color 0 only cuts
+ * off alpha there.
+ */
+const effectiveAlpha = (settings: ConvertSettings): AlphaSettings =>
+    settings.hardware === "cgb" && settings.alpha.mode === "color0"
+        ? { ...settings.alpha, mode: "threshold" }
+        : settings.alpha;
+
+/**
+ * Runs the pixel pipeline (resize, alpha, luminance, tone, dithering, palette
+ * mapping) on a plain RGBA buffer. Progress is reported from 0 to 1.
+ */
+export const quantizeImage = (
+    source: RgbaImage,
+    settings: ConvertSettings,
+    onProgress?: ProgressCallback
+): QuantizedImage => {
+    const resized = resizeImage(source, settings.resize);
+    const { width, height } = resized;
+    // Never write the palette into the caller's buffer.
+    const data = resized === source ? Uint8ClampedArray.from(source.data) : resized.data;
+    const pixelCount = width * height;
+    const matched = { ...settings, alpha: effectiveAlpha(settings) };
+    const coverage = applyAlpha(data, matched.alpha);
+    onProgress?.(0.2);
+
+    const { levels, opaque, palette, cgb } = matcher(matched)(
+        { data, width, height },
+        matched,
+        coverage,
+        (progress) => onProgress?.(0.2 + progress * 0.3)
+    );
+    onProgress?.(0.8);
+
+    for (let p = 0, i = 0; p < pixelCount; p += 1, i += 4) {
+        if (!opaque[p]) {
+            // Transparent pixels are color 0 wherever transparency can't be stored.
+            levels[p] = LIGHTEST_LEVEL;
+            continue;
+        }
+        const shade = cgb ? cgbColor(cgb, width, p, levels[p]) : palette[levels[p]];
+        data[i] = shade.r;
+        data[i + 1] = shade.g;
+        data[i + 2] = shade.b;
+    }
+
+    let sprites: SpriteSheet | null = null;
+    if (!cgb && settings.sprite.slicing !== "off") {
+        const quantized = { data, width, height, levels, opaque };
+        applyTransparentIndex(quantized, settings.sprite);
+        sprites = buildSpriteSheet(quantized, settings.sprite);
+    }
+    onProgress?.(1);
+
+    return { image: { data, width, height }, levels, opaque, palette, cgb, sprites };
+};
@@ -0,0 +1,368 @@
+import type { Animation, AnimationFrame } from "./animation";
+import { Rgb } from "./palettes";
+import { RgbaImage } from "./resize";
+
+export type PngChunk = { type: string; data: Uint8Array };
+
+/** Decodes a single still PNG to RGBA, supplied by the platform. */
+export type DecodePng = (bytes: Uint8Array) => Promise<RgbaImage>;
+
+/** zlib-wrapped deflate, supplied by the platform (CompressionStream, node:zlib). */
+export type Deflate = (data: Uint8Array) => Promise<Uint8Array>;
+
+export type IndexedFrame = {
+    /** Palette index per pixel. */
+    indices: Uint8Array;
+    /** Display time in milliseconds. */
+    delay: number;
+};
+
+export type IndexedImageSpec = {
+    width: number;
+    height: number;
+    palette: Rgb[];
+    /** Palette entry written as fully transparent via tRNS. */
+    transparentIndex?: number;
+};
+
+export const PNG_SIGNATURE = Uint8Array.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+        let c = n;
+        for (let k = 0; k < 8; k += 1) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, crc = 0xffffffff) => {
+    let c = crc;
+    for (let i = 0; i < bytes.length; i += 1) {
+        c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    }
+    return c;
+};
+
+const typeBytes = (type: string) => Uint8Array.from(type, (char) => char.charCodeAt(0));
+
+export const concatBytes = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+export const hasPngSignature = (bytes: Uint8Array) =>
+    bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+export const readChunks = (bytes: Uint8Array): PngChunk[] => {
+    if (!hasPngSignature(bytes)) {
+        throw new Error("Not a PNG file.");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const end = offset + 8 + length;
+        if (end + 4 > bytes.length) {
+            throw new Error(`Truncated PNG chunk ${type}.`);
+        }
+        chunks.push({ type, data: bytes.subarray(offset + 8, end) });
+        offset = end + 4;
+        if (type === "IEND") {
+            break;
+        }
+    }
+    return chunks;
+};
+
+export const writeChunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(typeBytes(type), 4);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, (crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+    return out;
+};
+
+export const writePng = (chunks: PngChunk[]) =>
+    concatBytes([PNG_SIGNATURE, ...chunks.map((chunk) => writeChunk(chunk.type, chunk.data))]);
+
+const u32 = (...values: number[]) => {
+    const out = new Uint8Array(values.length * 4);
+    const view = new DataView(out.buffer);
+    values.forEach((value, i) => view.setUint32(i * 4, value));
+    return out;
+};
+
+export const bitDepthFor = (colors: number) => (colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8);
+
+const ihdr = (width: number, height: number, bitDepth: number, colorType: number) =>
+    concatBytes([u32(width, height), Uint8Array.from([bitDepth, colorType, 0, 0, 0])]);
+
+/** Packs indices into filter-type-0 scanlines at the given bit depth. */
+export const packScanlines = (
+    indices: Uint8Array,
+    width: number,
+    height: number,
+    bitDepth: number
+) => {
+    const stride = Math.ceil((width * bitDepth) / 8);
+    const out = new Uint8Array((stride + 1) * height);
+    const perByte = 8 / bitDepth;
+    for (let y = 0; y < height; y += 1) {
+        const row = y * (stride + 1) + 1;
+        for (let x = 0; x < width; x += 1) {
+            const shift = 8 - bitDepth * ((x % perByte) + 1);
+            out[row + Math.floor(x / perByte)] |= indices[y * width + x] << shift;
+        }
+    }
+    return out;
+};
+
+const paletteChunks = (spec: IndexedImageSpec): PngChunk[] => {
+    const plte = new Uint8Array(spec.palette.length * 3);
+    spec.palette.forEach((color, i) => plte.set([color.r, color.g, color.b], i * 3));
+    const chunks: PngChunk[] = [{ type: "PLTE", data: plte }];
+    if (spec.transparentIndex !== undefined) {
+        // tRNS lists alpha for the leading palette entries; later ones stay opaque.
+        const trns = new Uint8Array(spec.transparentIndex + 1).fill(255);
+        trns[spec.transparentIndex] = 0;
+        chunks.push({ type: "tRNS", data: trns });
+    }
+    return chunks;
+};
+
+export const encodeIndexedPng = async (
+    spec: IndexedImageSpec,
+    indices: Uint8Array,
+    deflate: Deflate
+) => {
+    const bitDepth = bitDepthFor(spec.palette.length);
+    return writePng([
+        { type: "IHDR", data: ihdr(spec.width, spec.height, bitDepth, 3) },
+        ...paletteChunks(spec),
+        { type: "IDAT", data: await deflate(packScanlines(indices, spec.width, spec.height, bitDepth)) },
+        { type: "IEND", data: new Uint8Array(0) }
+    ]);
+};
+
+/** 2-bit grayscale, values 0 (black) to 3 (white). */
+export const encodeGray2Png = async (
+    width: number,
+    height: number,
+    values: Uint8Array,
+    deflate: Deflate
+) =>
+    writePng([
+        { type: "IHDR", data: ihdr(width, height, 2, 0) },
+        { type: "IDAT", data: await deflate(packScanlines(values, width, height, 2)) },
+        { type: "IEND", data: new Uint8Array(0) }
+    ]);
+
+/** 8-bit truecolor with alpha, for full-color output. */
+export const encodeRgbaPng = async (image: RgbaImage, deflate: Deflate) => {
+    const { width, height, data } = image;
+    const stride = width * 4;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y += 1) {
+        raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+    return writePng([
+        { type: "IHDR", data: ihdr(width, height, 8, 6) },
+        { type: "IDAT", data: await deflate(raw) },
+        { type: "IEND", data: new Uint8Array(0) }
+    ]);
+};
+
+const fctl = (sequence: number, width: number, height: number, delay: number) => {
+    const out = new Uint8Array(26);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, sequence);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // x/y offsets stay 0: every frame covers the full canvas.
+    view.setUint16(20, Math.max(0, Math.round(delay)));
+    view.setUint16(22, 1000);
+    out[24] = 0; // dispose: none
+    out[25] = 0; // blend: source
+    return out;
+};
+
+/** Full-canvas frames sharing one palette. loops = 0 plays forever. */
+export const encodeApng = async (
+    spec: IndexedImageSpec,
+    frames: IndexedFrame[],
+    loops: number,
+    deflate: Deflate
+) => {
+    const bitDepth = bitDepthFor(spec.palette.length);
+    const chunks: PngChunk[] = [
+        { type: "IHDR", data: ihdr(spec.width, spec.height, bitDepth, 3) },
+        { type: "acTL", data: u32(frames.length, loops) },
+        ...paletteChunks(spec)
+    ];
+    let sequence = 0;
+    for (const [index, frame] of frames.entries()) {
+        chunks.push({ type: "fcTL", data: fctl(sequence++, spec.width, spec.height, frame.delay) });
+        const data = await deflate(packScanlines(frame.indices, spec.width, spec.height, bitDepth));
+        chunks.push(
+            index === 0
+                ? { type: "IDAT", data }
+                : { type: "fdAT", data: concatBytes([u32(sequence++), data]) }
+        );
+    }
+    chunks.push({ type: "IEND", data: new Uint8Array(0) });
+    return writePng(chunks);
+};
+
+/** True when an acTL chunk precedes the image data, i.e. the PNG is animated. */
+export const isApng = (bytes: Uint8Array) => {
+    if (!hasPngSignature(bytes)) {
+        return false;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length; ) {
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (type === "acTL") {
+            return true;
+        }
+        if (type === "IDAT") {
+            return false;
+        }
+        offset += 12 + view.getUint32(offset);
+    }
+    return false;
+};
+
+type FrameControl = {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    delay: number;
+    dispose: number;
+    blend: number;
+};
+
+const readFrameControl = (data: Uint8Array): FrameControl => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const numerator = view.getUint16(20);
+    const denominator = view.getUint16(22) || 100;
+    return {
+        width: view.getUint32(4),
+        height: view.getUint32(8),
+        x: view.getUint32(12),
+        y: view.getUint32(16),
+        delay: (numerator / denominator) * 1000,
+        dispose: data[24],
+        blend: data[25]
+    };
+};
+
+const APNG_DISPOSE_BACKGROUND = 1;
+const APNG_DISPOSE_PREVIOUS = 2;
+const APNG_BLEND_OVER = 1;
+
+/** Chunks every frame needs to decode as a standalone PNG. */
+const SHARED_CHUNKS = new Set(["PLTE", "tRNS", "gAMA", "cHRM", "sRGB", "iCCP", "sBIT"]);
+
+/**
+ * Decodes every APNG frame, composited onto the full canvas. Each frame is
+ * rebuilt as a still PNG and handed to the platform decoder.
+ */
+export const decodeApng = async (bytes: Uint8Array, decodePng: DecodePng): Promise<Animation> => {
+    const chunks = readChunks(bytes);
+    const header = chunks.find((chunk) => chunk.type === "IHDR");
+    const control = chunks.find((chunk) => chunk.type === "acTL");
+    if (!header || !control) {
+        throw new Error("Not an animated PNG.");
+    }
+    const headerView = new DataView(header.data.buffer, header.data.byteOffset, header.data.byteLength);
+    const width = headerView.getUint32(0);
+    const height = headerView.getUint32(4);
+    const loops = new DataView(control.data.buffer, control.data.byteOffset).getUint32(4);
+
+    const shared: PngChunk[] = [];
+    const parts: { control: FrameControl; data: Uint8Array[] }[] = [];
+    let seenData = false;
+    for (const chunk of chunks) {
+        if (chunk.type === "fcTL") {
+            parts.push({ control: readFrameControl(chunk.data), data: [] });
+        } else if (chunk.type === "IDAT") {
+            seenData = true;
+            // The default image is only a frame when an fcTL precedes it.
+            parts[parts.length - 1]?.data.push(chunk.data);
+        } else if (chunk.type === "fdAT") {
+            parts[parts.length - 1]?.data.push(chunk.data.subarray(4));
+        } else if (!seenData && SHARED_CHUNKS.has(chunk.type)) {
+            shared.push(chunk);
+        }
+    }
+
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    const frames: AnimationFrame[] = [];
+    for (const [index, part] of parts.entries()) {
+        if (!part.data.length) {
+            continue;
+        }
+        const { control: fc } = part;
+        const frameHeader = header.data.slice();
+        const frameView = new DataView(frameHeader.buffer);
+        frameView.setUint32(0, fc.width);
+        frameView.setUint32(4, fc.height);
+        const image = await decodePng(
+            writePng([
+                { type: "IHDR", data: frameHeader },
+                ...shared,
+                { type: "IDAT", data: concatBytes(part.data) },
+                { type: "IEND", data: new Uint8Array(0) }
+            ])
+        );
+
+        const previous = fc.dispose === APNG_DISPOSE_PREVIOUS && index > 0 ? canvas.slice() : null;
+        for (let y = 0; y < fc.height && fc.y + y < height; y += 1) {
+            for (let x = 0; x < fc.width && fc.x + x < width; x += 1) {
+                const i = (y * fc.width + x) * 4;
+                const o = ((fc.y + y) * width + fc.x + x) * 4;
+                const alpha = image.data[i + 3];
+                if (fc.blend !== APNG_BLEND_OVER || alpha === 255) {
+                    canvas.set(image.data.subarray(i, i + 4), o);
+                } else if (alpha > 0) {
+                    const under = (canvas[o + 3] * (255 - alpha)) / 255;
+                    const total = alpha + under;
+                    for (let c = 0; c < 3; c += 1) {
+                        canvas[o + c] = (image.data[i + c] * alpha + canvas[o + c] * under) / total;
+                    }
+                    canvas[o + 3] = total;
+                }
+            }
+        }
+        frames.push({ image: { data: canvas.slice(), width, height }, delay: fc.delay });
+
+        // A first frame disposing to "previous" has nothing to restore, so it clears instead.
+        if (previous) {
+            canvas.set(previous);
+        } else if (fc.dispose === APNG_DISPOSE_BACKGROUND || fc.dispose === APNG_DISPOSE_PREVIOUS) {
+            for (let y = fc.y; y < Math.min(height, fc.y + fc.height); y += 1) {
+                const start = (y * width + fc.x) * 4;
+                canvas.fill(0, start, start + Math.min(fc.width, width - fc.x) * 4);
+            }
+        }
+    }
+
+    if (!frames.length) {
+        throw new Error("Animated PNG has no frames.");
+    }
+    return { width, height, frames, loops };
+};
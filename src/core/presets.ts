@@ -0,0 +1,365 @@
+import { ALPHA_MODES, AlphaMode, AlphaSettings, DEFAULT_ALPHA } from "./alpha";
+import { ANIMATION_FORMATS, AnimationFormat, DEFAULT_ANIMATION_FORMAT } from "./animation";
+import {
+    DEFAULT_ZIP_COMPRESSION,
+    DEFAULT_ZIP_SPLIT,
+    ZIP_COMPRESSIONS,
+    ZIP_SPLIT_SIZES,
+    ZipCompression
+} from "./archive";
+import {
+    DecodeSettings,
+    DEFAULT_DECODE,
+    MAX_PIXEL_OPTIONS,
+    OVERSIZE_MODES,
+    OversizeMode
+} from "./decode";
+import { DEFAULT_DITHER, DITHER_MODES, DitherMode, DitherSettings } from "./dither";
+import { DEFAULT_MANIFEST_FORMAT, MANIFEST_FORMATS, ManifestFormat } from "./manifest";
+import {
+    ARCHIVE_NAME_TOKENS,
+    DEFAULT_ARCHIVE_TEMPLATE,
+    DEFAULT_FILE_TEMPLATE,
+    FILE_NAME_TOKENS,
+    NameToken,
+    templateError
+} from "./naming";
+import { DEFAULT_OUTPUT_FORMAT, OUTPUT_FORMATS, OutputFormat } from "./output";
+import { DMG_PALETTE, PALETTE_SIZE, Rgb } from "./palettes";
+import {
+    COLOR_MATCHINGS,
+    ColorMatching,
+    DEFAULT_COLOR_MATCHING,
+    DEFAULT_HARDWARE,
+    Hardware,
+    HARDWARE_MODES
+} from "./pipeline";
+import {
+    DEFAULT_RESIZE,
+    MAX_CUSTOM_SIZE,
+    RESAMPLE_MODES,
+    Resample,
+    RESIZE_FITS,
+    ResizeFit,
+    ResizeSettings,
+    SIZE_PRESETS,
+    SizePreset
+} from "./resize";
+import { SourceFormat } from "./sourceExport";
+import {
+    DEFAULT_SPRITE,
+    OBJ_SIZES,
+    ObjSize,
+    SPRITE_SLICINGS,
+    SpriteSettings,
+    SpriteSlicing
+} from "./sprites";
+import { DEFAULT_TILE_OPTIONS, TILE_BUDGETS, TileBudget, TileDataExt } from "./tiles";
+import { DEFAULT_TONE, MAX_GAMMA, MIN_GAMMA, normalizeThresholds, ToneSettings } from "./tone";
+
+/** Everything that shapes a conversion and its downloads. */
+export type PresetSettings = {
+    hardware: Hardware;
+    /** Stored by value, so a preset works where its palette isn't saved. */
+    palette: { name: string; colors: Rgb[] };
+    matching: ColorMatching;
+    dither: DitherSettings;
+    resize: ResizeSettings;
+    tone: ToneSettings;
+    alpha: AlphaSettings;
+    sprite: SpriteSettings;
+    decode: DecodeSettings;
+    animation: AnimationFormat;
+    output: OutputFormat;
+    tileExt: TileDataExt;
+    tileDedupeFlips: boolean;
+    tileBudget: TileBudget;
+    zipContents: "png" | SourceFormat;
+    zipCompression: ZipCompression;
+    zipSplit: number;
+    /** Name templates for converted files and batch archives, without extensions. */
+    fileTemplate: string;
+    archiveTemplate: string;
+    manifestFormat: ManifestFormat;
+};
+
+export type Preset = {
+    id: string;
+    name: string;
+    settings: PresetSettings;
+};
+
+export const DEFAULT_PRESET_SETTINGS: PresetSettings = {
+    hardware: DEFAULT_HARDWARE,
+    palette: { name: DMG_PALETTE.name, colors: DMG_PALETTE.colors },
+    matching: DEFAULT_COLOR_MATCHING,
+    dither: DEFAULT_DITHER,
+    resize: DEFAULT_RESIZE,
+    tone: DEFAULT_TONE,
+    alpha: DEFAULT_ALPHA,
+    sprite: DEFAULT_SPRITE,
+    decode: DEFAULT_DECODE,
+    animation: DEFAULT_ANIMATION_FORMAT,
+    output: DEFAULT_OUTPUT_FORMAT,
+    tileExt: "2bpp",
+    tileDedupeFlips: DEFAULT_TILE_OPTIONS.dedupeFlips,
+    tileBudget: DEFAULT_TILE_OPTIONS.budget,
+    zipContents: "png",
+    zipCompression: DEFAULT_ZIP_COMPRESSION,
+    zipSplit: DEFAULT_ZIP_SPLIT,
+    fileTemplate: DEFAULT_FILE_TEMPLATE,
+    archiveTemplate: DEFAULT_ARCHIVE_TEMPLATE,
+    manifestFormat: DEFAULT_MANIFEST_FORMAT
+};
+
+/** Marks exported files and URL hashes so other JSON isn't mistaken for presets. */
+const PRESET_FORMAT = "img2dmg-presets";
+const PRESET_VERSION = 1;
+const HASH_PREFIX = "#preset=";
+
+type Loose = Record<string, unknown>;
+
+const asObject = (value: unknown): Loose =>
+    value && typeof value === "object" && !Array.isArray(value) ? (value as Loose) : {};
+
+const option = <T extends string | number>(
+    value: unknown,
+    options: { value: T }[],
+    fallback: T
+) => options.find((entry) => entry.value === value)?.value ?? fallback;
+
+const number = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === "number" && Number.isFinite(value)
+        ? Math.min(max, Math.max(min, value))
+        : fallback;
+
+const size = (value: unknown, fallback: number) =>
+    Math.round(number(value, fallback, 1, MAX_CUSTOM_SIZE));
+
+const boolean = (value: unknown, fallback: boolean) =>
+    typeof value === "boolean" ? value : fallback;
+
+const template = (value: unknown, tokens: NameToken[], fallback: string) =>
+    typeof value === "string" && !templateError(value, tokens) ? value : fallback;
+
+const isByte = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 255;
+
+const readPalette = (value: unknown): PresetSettings["palette"] => {
+    const { name, colors } = asObject(value);
+    const valid =
+        Array.isArray(colors) &&
+        colors.length === PALETTE_SIZE &&
+        colors.every((color) => {
+            const { r, g, b } = asObject(color);
+            return isByte(r) && isByte(g) && isByte(b);
+        });
+    if (!valid) {
+        return DEFAULT_PRESET_SETTINGS.palette;
+    }
+    return {
+        name: typeof name === "string" && name.trim() ? name.trim() : "Preset palette",
+        colors: (colors as Rgb[]).map(({ r, g, b }) => ({ r, g, b }))
+    };
+};
+
+const readResize = (value: unknown): ResizeSettings => {
+    const resize = asObject(value);
+    return {
+        preset: option<SizePreset>(resize.preset, SIZE_PRESETS, DEFAULT_RESIZE.preset),
+        width: size(resize.width, DEFAULT_RESIZE.width),
+        height: size(resize.height, DEFAULT_RESIZE.height),
+        fit: option<ResizeFit>(resize.fit, RESIZE_FITS, DEFAULT_RESIZE.fit),
+        focusX: number(resize.focusX, DEFAULT_RESIZE.focusX, 0, 1),
+        focusY: number(resize.focusY, DEFAULT_RESIZE.focusY, 0, 1),
+        resample: option<Resample>(resize.resample, RESAMPLE_MODES, DEFAULT_RESIZE.resample)
+    };
+};
+
+const readTone = (value: unknown): ToneSettings => {
+    const tone = asObject(value);
+    const thresholds =
+        Array.isArray(tone.thresholds) &&
+        tone.thresholds.length === 3 &&
+        tone.thresholds.every((entry) => typeof entry === "number" && Number.isFinite(entry))
+            ? normalizeThresholds(tone.thresholds as number[])
+            : DEFAULT_TONE.thresholds;
+    return {
+        brightness: number(tone.brightness, DEFAULT_TONE.brightness, -1, 1),
+        contrast: number(tone.contrast, DEFAULT_TONE.contrast, -1, 1),
+        gamma: number(tone.gamma, DEFAULT_TONE.gamma, MIN_GAMMA, MAX_GAMMA),
+        autoLevels: boolean(tone.autoLevels, DEFAULT_TONE.autoLevels),
+        thresholds
+    };
+};
+
+const readAlpha = (value: unknown): AlphaSettings => {
+    const alpha = asObject(value);
+    return {
+        mode: option<AlphaMode>(alpha.mode, ALPHA_MODES, DEFAULT_ALPHA.mode),
+        threshold: Math.round(number(alpha.threshold, DEFAULT_ALPHA.threshold, 1, 255)),
+        flattenColor: Math.round(number(alpha.flattenColor, DEFAULT_ALPHA.flattenColor, 0, 3))
+    };
+};
+
+const readSprite = (value: unknown): SpriteSettings => {
+    const sprite = asObject(value);
+    const { transparentIndex } = sprite;
+    return {
+        slicing: option<SpriteSlicing>(sprite.slicing, SPRITE_SLICINGS, DEFAULT_SPRITE.slicing),
+        cellWidth: size(sprite.cellWidth, DEFAULT_SPRITE.cellWidth),
+        cellHeight: size(sprite.cellHeight, DEFAULT_SPRITE.cellHeight),
+        transparentIndex:
+            transparentIndex === null
+                ? null
+                : Math.round(number(transparentIndex, DEFAULT_SPRITE.transparentIndex ?? 0, 0, 3)),
+        objSize: option<ObjSize>(sprite.objSize, OBJ_SIZES, DEFAULT_SPRITE.objSize)
+    };
+};
+
+const readDecode = (value: unknown): DecodeSettings => {
+    const decode = asObject(value);
+    return {
+        maxPixels: option(decode.maxPixels, MAX_PIXEL_OPTIONS, DEFAULT_DECODE.maxPixels),
+        oversize: option<OversizeMode>(decode.oversize, OVERSIZE_MODES, DEFAULT_DECODE.oversize)
+    };
+};
+
+/**
+ * Reads preset settings from untrusted JSON (a file, a link or localStorage).
+ * Missing or invalid fields fall back to the defaults, so presets saved by
+ * older versions, or hand-edited ones, still load.
+ */
+export const readPresetSettings = (value: unknown): PresetSettings => {
+    const settings = asObject(value);
+    const dither = asObject(settings.dither);
+    const defaults = DEFAULT_PRESET_SETTINGS;
+    return {
+        hardware: option<Hardware>(settings.hardware, HARDWARE_MODES, defaults.hardware),
+        palette: readPalette(settings.palette),
+        matching: option<ColorMatching>(settings.matching, COLOR_MATCHINGS, defaults.matching),
+        dither: {
+            mode: option<DitherMode>(dither.mode, DITHER_MODES, DEFAULT_DITHER.mode),
+            strength: number(dither.strength, DEFAULT_DITHER.strength, 0, 1)
+        },
+        resize: readResize(settings.resize),
+        tone: readTone(settings.tone),
+        alpha: readAlpha(settings.alpha),
+        sprite: readSprite(settings.sprite),
+        decode: readDecode(settings.decode),
+        animation: option<AnimationFormat>(
+            settings.animation,
+            ANIMATION_FORMATS,
+            defaults.animation
+        ),
+        output: option<OutputFormat>(settings.output, OUTPUT_FORMATS, defaults.output),
+        tileExt: settings.tileExt === "chr" ? "chr" : "2bpp",
+        tileDedupeFlips: boolean(settings.tileDedupeFlips, defaults.tileDedupeFlips),
+        tileBudget: option<TileBudget>(
+            settings.tileBudget,
+            TILE_BUDGETS.map((budget) => ({ value: budget })),
+            defaults.tileBudget
+        ),
+        zipContents: option<PresetSettings["zipContents"]>(
+            settings.zipContents,
+            [{ value: "png" }, { value: "c" }, { value: "asm" }],
+            defaults.zipContents
+        ),
+        zipCompression: option<ZipCompression>(
+            settings.zipCompression,
+            ZIP_COMPRESSIONS,
+            defaults.zipCompression
+        ),
+        zipSplit: option(settings.zipSplit, ZIP_SPLIT_SIZES, defaults.zipSplit),
+        fileTemplate: template(settings.fileTemplate, FILE_NAME_TOKENS, defaults.fileTemplate),
+        archiveTemplate: template(
+            settings.archiveTemplate,
+            ARCHIVE_NAME_TOKENS,
+            defaults.archiveTemplate
+        ),
+        manifestFormat: option<ManifestFormat>(
+            settings.manifestFormat,
+            MANIFEST_FORMATS,
+            defaults.manifestFormat
+        )
+    };
+};
+
+const readPreset = (value: unknown, id: string): Preset | null => {
+    const { name, settings } = asObject(value);
+    if (typeof name !== "string" || !name.trim() || !settings) {
+        return null;
+    }
+    return { id, name: name.trim(), settings: readPresetSettings(settings) };
+};
+
+/** Presets with ids, as kept in localStorage. */
+export const readStoredPresets = (value: unknown): Preset[] =>
+    Array.isArray(value)
+        ? value.flatMap((entry) => {
+              const { id } = asObject(entry);
+              const preset = typeof id === "string" ? readPreset(entry, id) : null;
+              return preset ? [preset] : [];
+          })
+        : [];
+
+/** JSON for sharing; ids stay local, so imports get new ones. */
+export const serializePresets = (presets: Preset[]) =>
+    JSON.stringify(
+        {
+            format: PRESET_FORMAT,
+            version: PRESET_VERSION,
+            presets: presets.map(({ name, settings }) => ({ name, settings }))
+        },
+        null,
+        2
+    );
+
+/** Parses an exported presets file. Throws when it holds no usable preset. */
+export const parsePresetFile = (text: string, newId: () => string): Preset[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("Not a JSON file.");
+    }
+    const file = asObject(parsed);
+    if (file.format !== PRESET_FORMAT) {
+        throw new Error("Not an img2dmg presets file.");
+    }
+    const presets = (Array.isArray(file.presets) ? file.presets : []).flatMap((entry) => {
+        const preset = readPreset(entry, newId());
+        return preset ? [preset] : [];
+    });
+    if (!presets.length) {
+        throw new Error("No presets found.");
+    }
+    return presets;
+};
+
+const toBase64Url = (text: string) => {
+    const bytes = new TextEncoder().encode(text);
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+/** URL hash that carries a preset, e.g. "#preset=eyJ2Ijox...". */
+export const presetHash = (name: string, settings: PresetSettings) =>
+    `${HASH_PREFIX}${toBase64Url(JSON.stringify({ v: PRESET_VERSION, name, settings }))}`;
+
+/** The preset in a URL hash, or null when there is none or it can't be read. */
+export const readPresetHash = (hash: string, id: string): Preset | null => {
+    if (!hash.startsWith(HASH_PREFIX)) {
+        return null;
+    }
+    try {
+        return readPreset(JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length))), id);
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,232 @@
+export type RgbaImage = {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+};
+
+export type SizePreset =
+    | "source"
+    | "screen"
+    | "bg"
+    | "sprite8"
+    | "sprite8x16"
+    | "sprite16"
+    | "custom";
+
+export type ResizeFit = "fit" | "fill" | "stretch";
+
+export type Resample = "nearest" | "area";
+
+export type ResizeSettings = {
+    preset: SizePreset;
+    /** Only used by the custom preset. */
+    width: number;
+    height: number;
+    fit: ResizeFit;
+    /** Focal point for fill crops, 0..1 across the source. */
+    focusX: number;
+    focusY: number;
+    resample: Resample;
+};
+
+type SizePresetOption = { value: SizePreset; label: string; width?: number; height?: number };
+
+export const SIZE_PRESETS: SizePresetOption[] = [
+    { value: "source", label: "Original size" },
+    { value: "screen", label: "Screen 160x144", width: 160, height: 144 },
+    { value: "bg", label: "BG map 256x256", width: 256, height: 256 },
+    { value: "sprite8", label: "Sprite 8x8", width: 8, height: 8 },
+    { value: "sprite8x16", label: "Sprite 8x16", width: 8, height: 16 },
+    { value: "sprite16", label: "Sprite 16x16", width: 16, height: 16 },
+    { value: "custom", label: "Custom" }
+];
+
+export const RESIZE_FITS: { value: ResizeFit; label: string }[] = [
+    { value: "fit", label: "Fit (letterbox)" },
+    { value: "fill", label: "Fill (crop)" },
+    { value: "stretch", label: "Stretch" }
+];
+
+export const RESAMPLE_MODES: { value: Resample; label: string }[] = [
+    { value: "area", label: "Area average" },
+    { value: "nearest", label: "Nearest" }
+];
+
+export const MAX_CUSTOM_SIZE = 4096;
+
+export const DEFAULT_RESIZE: ResizeSettings = {
+    preset: "source",
+    width: 160,
+    height: 144,
+    fit: "fit",
+    focusX: 0.5,
+    focusY: 0.5,
+    resample: "area"
+};
+
+/** Letterbox bars are white, so they quantize to the lightest shade. */
+const PAD_VALUE = 255;
+
+const clampSize = (value: number) =>
+    Math.min(MAX_CUSTOM_SIZE, Math.max(1, Math.round(value) || 1));
+
+export const targetSize = (settings: ResizeSettings) => {
+    if (settings.preset === "source") {
+        return null;
+    }
+    if (settings.preset === "custom") {
+        return { width: clampSize(settings.width), height: clampSize(settings.height) };
+    }
+    const preset = SIZE_PRESETS.find((entry) => entry.value === settings.preset);
+    return preset?.width && preset.height ? { width: preset.width, height: preset.height } : null;
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/** Per destination pixel along one axis: the source pixels it covers and how much of each. */
+const axisWeights = (srcStart: number, srcLength: number, destLength: number) => {
+    const scale = srcLength / destLength;
+    return Array.from({ length: destLength }, (_, d) => {
+        const start = srcStart + d * scale;
+        const end = start + scale;
+        const taps: [number, number][] = [];
+        for (let s = Math.floor(start); s < Math.ceil(end); s += 1) {
+            const weight = Math.min(end, s + 1) - Math.max(start, s);
+            if (weight > 0) {
+                taps.push([s, weight]);
+            }
+        }
+        return taps;
+    });
+};
+
+const resampleArea = (src: RgbaImage, from: Rect, dest: RgbaImage, to: Rect) => {
+    const xWeights = axisWeights(from.x, from.width, to.width);
+    const yWeights = axisWeights(from.y, from.height, to.height);
+
+    for (let dy = 0; dy < to.height; dy += 1) {
+        for (let dx = 0; dx < to.width; dx += 1) {
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let a = 0;
+            let total = 0;
+            for (const [sy, wy] of yWeights[dy]) {
+                for (const [sx, wx] of xWeights[dx]) {
+                    const row = Math.min(src.height - 1, sy);
+                    const i = (row * src.width + Math.min(src.width - 1, sx)) * 4;
+                    const weight = wx * wy;
+                    // Weight color by alpha so transparent pixels don't darken edges.
+                    const alphaWeight = weight * src.data[i + 3];
+                    r += src.data[i] * alphaWeight;
+                    g += src.data[i + 1] * alphaWeight;
+                    b += src.data[i + 2] * alphaWeight;
+                    a += alphaWeight;
+                    total += weight;
+                }
+            }
+            const o = ((to.y + dy) * dest.width + to.x + dx) * 4;
+            if (a > 0) {
+                dest.data[o] = r / a;
+                dest.data[o + 1] = g / a;
+                dest.data[o + 2] = b / a;
+            }
+            dest.data[o + 3] = total > 0 ? a / total : 0;
+        }
+    }
+};
+
+const resampleNearest = (src: RgbaImage, from: Rect, dest: RgbaImage, to: Rect) => {
+    const sample = (start: number, length: number, d: number, destLength: number, max: number) =>
+        Math.min(max - 1, Math.floor(start + ((d + 0.5) * length) / destLength));
+
+    for (let dy = 0; dy < to.height; dy += 1) {
+        const sy = sample(from.y, from.height, dy, to.height, src.height);
+        for (let dx = 0; dx < to.width; dx += 1) {
+            const sx = sample(from.x, from.width, dx, to.width, src.width);
+            const i = (sy * src.width + sx) * 4;
+            const o = ((to.y + dy) * dest.width + to.x + dx) * 4;
+            dest.data[o] = src.data[i];
+            dest.data[o + 1] = src.data[i + 1];
+            dest.data[o + 2] = src.data[i + 2];
+            dest.data[o + 3] = src.data[i + 3];
+        }
+    }
+};
+
+/** Centers a crop window on the focal point without leaving the source. */
+const cropStart = (focus: number, srcLength: number, cropLength: number) =>
+    Math.min(srcLength - cropLength, Math.max(0, focus * srcLength - cropLength / 2));
+
+export type ResizeLayout = {
+    width: number;
+    height: number;
+    /** Part of the source that is drawn, smaller than the source for fill crops. */
+    from: Rect;
+    /** Where it lands in the output, smaller than the output when fit letterboxes. */
+    to: Rect;
+};
+
+/**
+ * Where a source of srcWidth x srcHeight ends up after resizing, or null for
+ * the "source" preset, which keeps it as it is.
+ */
+export const resizeLayout = (
+    srcWidth: number,
+    srcHeight: number,
+    settings: ResizeSettings
+): ResizeLayout | null => {
+    const target = targetSize(settings);
+    if (!target) {
+        return null;
+    }
+    let from: Rect = { x: 0, y: 0, width: srcWidth, height: srcHeight };
+    let to: Rect = { x: 0, y: 0, width: target.width, height: target.height };
+
+    if (settings.fit === "fill") {
+        const scale = Math.max(target.width / srcWidth, target.height / srcHeight);
+        const width = target.width / scale;
+        const height = target.height / scale;
+        from = {
+            x: cropStart(settings.focusX, srcWidth, width),
+            y: cropStart(settings.focusY, srcHeight, height),
+            width,
+            height
+        };
+    } else if (settings.fit === "fit") {
+        const scale = Math.min(target.width / srcWidth, target.height / srcHeight);
+        const width = Math.max(1, Math.round(srcWidth * scale));
+        const height = Math.max(1, Math.round(srcHeight * scale));
+        to = {
+            x: Math.floor((target.width - width) / 2),
+            y: Math.floor((target.height - height) / 2),
+            width,
+            height
+        };
+    }
+    return { ...target, from, to };
+};
+
+/**
+ * Scales an image to the preset's target size. Returns the source untouched
+ * for the "source" preset.
+ */
+export const resizeImage = (src: RgbaImage, settings: ResizeSettings): RgbaImage => {
+    const layout = resizeLayout(src.width, src.height, settings);
+    if (!layout) {
+        return src;
+    }
+
+    const { width, height, from, to } = layout;
+    const dest: RgbaImage = { data: new Uint8ClampedArray(width * height * 4), width, height };
+    if (to.width < width || to.height < height) {
+        dest.data.fill(PAD_VALUE);
+    }
+
+    if (settings.resample === "nearest") {
+        resampleNearest(src, from, dest, to);
+    } else {
+        resampleArea(src, from, dest, to);
+    }
+    return dest;
+};
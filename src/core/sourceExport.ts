@@ -0,0 +1,249 @@
+import { spriteTileData, SpriteSheet } from "./sprites";
+import { tileData, Tileset } from "./tiles";
+
+export type SourceFormat = "c" | "asm";
+
+const BYTES_PER_LINE = 16;
+
+/** Turns a file name into a C / RGBDS identifier, e.g. "title-screen 2" -> "title_screen_2". */
+export const toSymbol = (name: string) => {
+    const cleaned = name
+        .replace(/[^A-Za-z0-9_]+/g, "_")
+        .replace(/_+/g, "_")
+        .replace(/^_+|_+$/g, "");
+    if (!cleaned) {
+        return "image";
+    }
+    return /^[0-9]/.test(cleaned) ? `_${cleaned}` : cleaned;
+};
+
+const chunk = <T>(values: ArrayLike<T>, size: number) => {
+    const rows: T[][] = [];
+    for (let i = 0; i < values.length; i += size) {
+        const length = Math.min(size, values.length - i);
+        rows.push(Array.from({ length }, (_, j) => values[i + j]));
+    }
+    return rows;
+};
+
+const cHex = (value: number) => `0x${value.toString(16).toUpperCase().padStart(2, "0")}`;
+
+const cWord = (value: number) => `0x${value.toString(16).toUpperCase().padStart(4, "0")}`;
+
+const asmByte = (value: number) => `$${value.toString(16).toUpperCase().padStart(2, "0")}`;
+
+const asmWord = (value: number) => `$${value.toString(16).toUpperCase().padStart(4, "0")}`;
+
+const cArray = (
+    type: string,
+    name: string,
+    values: ArrayLike<number>,
+    format: (value: number) => string
+) =>
+    [
+        `const ${type} ${name}[] = {`,
+        chunk(values, BYTES_PER_LINE)
+            .map((row) => `    ${row.map(format).join(", ")}`)
+            .join(",\n"),
+        "};"
+    ].join("\n");
+
+const asmBlock = (label: string, values: ArrayLike<number>, directive: "db" | "dw") =>
+    [
+        `${label}::`,
+        ...chunk(values, BYTES_PER_LINE).map(
+            (row) => `    ${directive} ${row.map(directive === "db" ? asmByte : asmWord).join(",")}`
+        ),
+        `${label}_end::`
+    ].join("\n");
+
+// Maps past 256 tiles (384 budget) need 16-bit entries.
+const wideMap = (tileset: Tileset) => tileset.tiles.length > 256;
+
+/**
+ * GBDK-2020 source: a header with the declarations and a .c file with the data.
+ * CGB conversions also get their palettes, as RGB555 words for set_bkg_palette.
+ */
+export const toGbdkC = (
+    symbol: string,
+    tileset: Tileset,
+    sourceName: string,
+    palettes?: Uint16Array
+) => {
+    const guard = `IMG2DMG_${symbol.toUpperCase()}_H`;
+    const mapType = wideMap(tileset) ? "unsigned int" : "unsigned char";
+    const header = [
+        `// Generated by img2dmg from ${sourceName}`,
+        `#ifndef ${guard}`,
+        `#define ${guard}`,
+        "",
+        `#define ${symbol}_TILE_COUNT ${tileset.tiles.length}`,
+        `#define ${symbol}_MAP_WIDTH ${tileset.columns}`,
+        `#define ${symbol}_MAP_HEIGHT ${tileset.rows}`,
+        ...(palettes ? [`#define ${symbol}_PALETTE_COUNT ${palettes.length / 4}`] : []),
+        "",
+        `extern const unsigned char ${symbol}_tiles[];`,
+        `extern const ${mapType} ${symbol}_map[];`,
+        ...(tileset.attributes ? [`extern const unsigned char ${symbol}_attr[];`] : []),
+        ...(palettes ? [`extern const unsigned int ${symbol}_palettes[];`] : []),
+        "",
+        `#endif // ${guard}`,
+        ""
+    ].join("\n");
+
+    const source = [
+        `// Generated by img2dmg from ${sourceName}`,
+        `#include "${symbol}.h"`,
+        "",
+        cArray("unsigned char", `${symbol}_tiles`, tileData(tileset), cHex),
+        "",
+        cArray(mapType, `${symbol}_map`, tileset.map, wideMap(tileset) ? String : cHex),
+        ...(tileset.attributes
+            ? ["", cArray("unsigned char", `${symbol}_attr`, tileset.attributes, cHex)]
+            : []),
+        ...(palettes ? ["", cArray("unsigned int", `${symbol}_palettes`, palettes, cWord)] : []),
+        ""
+    ].join("\n");
+
+    return { header, source };
+};
+
+/** RGBDS source with exported labels around each block, ready to INCLUDE or assemble on its own. */
+export const toRgbdsAsm = (
+    symbol: string,
+    tileset: Tileset,
+    sourceName: string,
+    palettes?: Uint16Array
+) =>
+    [
+        `; Generated by img2dmg from ${sourceName}`,
+        `; ${tileset.tiles.length} unique tiles, ${tileset.columns}x${tileset.rows} tilemap`,
+        "",
+        `DEF ${symbol}_TILE_COUNT EQU ${tileset.tiles.length}`,
+        `DEF ${symbol}_MAP_WIDTH EQU ${tileset.columns}`,
+        `DEF ${symbol}_MAP_HEIGHT EQU ${tileset.rows}`,
+        ...(palettes ? [`DEF ${symbol}_PALETTE_COUNT EQU ${palettes.length / 4}`] : []),
+        "",
+        `SECTION "${symbol} tiles", ROMX`,
+        asmBlock(`${symbol}_tiles`, tileData(tileset), "db"),
+        "",
+        `SECTION "${symbol} map", ROMX`,
+        asmBlock(`${symbol}_map`, tileset.map, wideMap(tileset) ? "dw" : "db"),
+        ...(tileset.attributes
+            ? [
+                  "",
+                  `SECTION "${symbol} attr", ROMX`,
+                  asmBlock(`${symbol}_attr`, tileset.attributes, "db")
+              ]
+            : []),
+        ...(palettes
+            ? [
+                  "",
+                  `SECTION "${symbol} palettes", ROMX`,
+                  asmBlock(`${symbol}_palettes`, palettes, "dw")
+              ]
+            : []),
+        ""
+    ].join("\n");
+
+const spriteProps = (sheet: SpriteSheet) => [
+    `${sheet.tiles.length} tiles`,
+    `${sheet.frames.length} frames`,
+    `${sheet.objSize} objects`
+];
+
+/**
+ * GBDK-2020 metasprites: the sprite tiles, one metasprite_t array per frame
+ * with its pivot at the frame's top-left corner, and a table of all frames.
+ * Load the tiles and OBP0 value, then draw a frame with move_metasprite.
+ */
+export const spritesToGbdkC = (symbol: string, sheet: SpriteSheet, sourceName: string) => {
+    const guard = `IMG2DMG_${symbol.toUpperCase()}_H`;
+    const header = [
+        `// Generated by img2dmg from ${sourceName}: ${spriteProps(sheet).join(", ")}`,
+        `#ifndef ${guard}`,
+        `#define ${guard}`,
+        "",
+        "#include <gb/metasprites.h>",
+        "",
+        `#define ${symbol}_TILE_COUNT ${sheet.tiles.length}`,
+        `#define ${symbol}_FRAME_COUNT ${sheet.frames.length}`,
+        `#define ${symbol}_OBP ${cHex(sheet.obp)}`,
+        "",
+        `extern const unsigned char ${symbol}_tiles[];`,
+        `extern const metasprite_t* const ${symbol}_metasprites[];`,
+        "",
+        `#endif // ${guard}`,
+        ""
+    ].join("\n");
+
+    // Metasprite items are offsets from the previous item, the first from the pivot.
+    const frames = sheet.frames.map((frame, index) => {
+        let x = 0;
+        let y = 0;
+        const items = frame.objects.map((object) => {
+            const values = [object.y - y, object.x - x, object.tile, object.attributes];
+            x = object.x;
+            y = object.y;
+            return `    METASPR_ITEM(${values.join(", ")}),`;
+        });
+        return [
+            `const metasprite_t ${symbol}_frame${index}[] = {`,
+            ...items,
+            "    METASPR_TERM",
+            "};"
+        ].join("\n");
+    });
+
+    const source = [
+        `// Generated by img2dmg from ${sourceName}`,
+        `#include "${symbol}.h"`,
+        "",
+        cArray("unsigned char", `${symbol}_tiles`, spriteTileData(sheet), cHex),
+        "",
+        ...frames.flatMap((frame) => [frame, ""]),
+        `const metasprite_t* const ${symbol}_metasprites[] = {`,
+        sheet.frames.map((_, index) => `    ${symbol}_frame${index}`).join(",\n"),
+        "};",
+        ""
+    ].join("\n");
+
+    return { header, source };
+};
+
+/** Ends each RGBDS metasprite, like GBDK's METASPR_TERM. */
+const METASPRITE_END = 0x80;
+
+/**
+ * RGBDS metasprites: the sprite tiles, then a table of frame pointers and one
+ * list per frame of OAM-ordered entries (Y, X, tile, attributes) relative to
+ * the frame's top-left corner, ended by $80.
+ */
+export const spritesToRgbdsAsm = (symbol: string, sheet: SpriteSheet, sourceName: string) =>
+    [
+        `; Generated by img2dmg from ${sourceName}`,
+        `; ${spriteProps(sheet).join(", ")}`,
+        "",
+        `DEF ${symbol}_TILE_COUNT EQU ${sheet.tiles.length}`,
+        `DEF ${symbol}_FRAME_COUNT EQU ${sheet.frames.length}`,
+        `DEF ${symbol}_OBP EQU ${asmByte(sheet.obp)}`,
+        "",
+        `SECTION "${symbol} tiles", ROMX`,
+        asmBlock(`${symbol}_tiles`, spriteTileData(sheet), "db"),
+        "",
+        `SECTION "${symbol} metasprites", ROMX`,
+        `${symbol}_metasprites::`,
+        ...chunk(
+            sheet.frames.map((_, index) => `${symbol}_frame${index}`),
+            BYTES_PER_LINE / 2
+        ).map((row) => `    dw ${row.join(",")}`),
+        ...sheet.frames.flatMap((frame, index) => [
+            `${symbol}_frame${index}::`,
+            ...frame.objects.map((object) => {
+                const entry = [object.y, object.x, object.tile, object.attributes];
+                return `    db ${entry.map(asmByte).join(",")}`;
+            }),
+            `    db ${asmByte(METASPRITE_END)}`
+        ]),
+        ""
+    ].join("\n");
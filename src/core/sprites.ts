@@ -0,0 +1,247 @@
+import type { LevelImage } from "./output";
+import { encodeTile2bpp, levelToColorIndex, TILE_BYTES, TILE_SIZE } from "./tiles";
+
+export type SpriteSlicing = "off" | "grid" | "auto";
+
+export type ObjSize = "8x8" | "8x16";
+
+export type SpriteSettings = {
+    slicing: SpriteSlicing;
+    /** Frame size for grid slicing, in pixels. */
+    cellWidth: number;
+    cellHeight: number;
+    /** Color index (0 lightest) drawn as transparent, or null to use alpha only. */
+    transparentIndex: number | null;
+    objSize: ObjSize;
+};
+
+export const SPRITE_SLICINGS: { value: SpriteSlicing; label: string }[] = [
+    { value: "off", label: "Off" },
+    { value: "grid", label: "Grid" },
+    { value: "auto", label: "Auto-detect" }
+];
+
+export const OBJ_SIZES: { value: ObjSize; label: string }[] = [
+    { value: "8x8", label: "8x8" },
+    { value: "8x16", label: "8x16" }
+];
+
+export const DEFAULT_SPRITE: SpriteSettings = {
+    slicing: "off",
+    cellWidth: 16,
+    cellHeight: 16,
+    transparentIndex: 0,
+    objSize: "8x8"
+};
+
+/** One hardware sprite, placed relative to its frame's top-left corner. */
+export type SpriteObject = {
+    x: number;
+    y: number;
+    /** First tile; 8x16 objects also use the next one. */
+    tile: number;
+    attributes: number;
+};
+
+export type SpriteFrame = {
+    /** Frame rectangle in the converted image. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Opaque colors the frame uses. */
+    colors: number;
+    /** True when some opaque pixels land on the transparent color. */
+    overLimit: boolean;
+    objects: SpriteObject[];
+};
+
+export type SpriteSheet = {
+    objSize: ObjSize;
+    /** Unique 8x8 tiles, 16 bytes of 2bpp data each; 8x16 objects use aligned pairs. */
+    tiles: Uint8Array[];
+    frames: SpriteFrame[];
+    /** OBP0 value that shows the remapped colors as their original shades. */
+    obp: number;
+};
+
+const TILE_PIXELS = TILE_SIZE * TILE_SIZE;
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * Applies the sprite transparent color: pixels matching it become transparent,
+ * both in the mask and in the RGBA data.
+ */
+export const applyTransparentIndex = (
+    image: LevelImage & { data: Uint8ClampedArray },
+    settings: SpriteSettings
+) => {
+    const { transparentIndex } = settings;
+    if (settings.slicing === "off" || transparentIndex === null) {
+        return;
+    }
+    image.levels.forEach((level, p) => {
+        if (image.opaque[p] && levelToColorIndex(level) === transparentIndex) {
+            image.opaque[p] = 0;
+            image.data[p * 4 + 3] = 0;
+        }
+    });
+};
+
+const gridFrames = (image: LevelImage, settings: SpriteSettings): Rect[] => {
+    const cellWidth = Math.max(1, Math.floor(settings.cellWidth));
+    const cellHeight = Math.max(1, Math.floor(settings.cellHeight));
+    const rects: Rect[] = [];
+    for (let y = 0; y < image.height; y += cellHeight) {
+        for (let x = 0; x < image.width; x += cellWidth) {
+            rects.push({
+                x,
+                y,
+                width: Math.min(cellWidth, image.width - x),
+                height: Math.min(cellHeight, image.height - y)
+            });
+        }
+    }
+    return rects;
+};
+
+/** Start and end of every run of true values. */
+const runs = (filled: boolean[]) => {
+    const found: [number, number][] = [];
+    let start = -1;
+    filled.forEach((value, index) => {
+        if (value && start < 0) {
+            start = index;
+        } else if (!value && start >= 0) {
+            found.push([start, index]);
+            start = -1;
+        }
+    });
+    if (start >= 0) {
+        found.push([start, filled.length]);
+    }
+    return found;
+};
+
+const isOpaque = (image: LevelImage, x: number, y: number) =>
+    image.opaque[y * image.width + x] === 1;
+
+/**
+ * Frames separated by fully transparent rows, then, within each band, by
+ * fully transparent columns. Each frame is trimmed to its opaque pixels.
+ */
+const autoFrames = (image: LevelImage): Rect[] => {
+    const { width, height } = image;
+    const range = (length: number) => Array.from({ length }, (_, index) => index);
+    const rowFilled = range(height).map((y) => range(width).some((x) => isOpaque(image, x, y)));
+    return runs(rowFilled).flatMap(([top, bottom]) => {
+        const columnFilled = range(width).map((x) =>
+            range(bottom - top).some((dy) => isOpaque(image, x, top + dy))
+        );
+        return runs(columnFilled).map(([left, right]) => {
+            const rows = range(bottom - top)
+                .map((dy) => top + dy)
+                .filter((y) => range(right - left).some((dx) => isOpaque(image, left + dx, y)));
+            const y = rows[0];
+            return { x: left, y, width: right - left, height: rows[rows.length - 1] + 1 - y };
+        });
+    });
+};
+
+/** Color index per pixel of a frame, with transparent pixels (and padding) as null. */
+const frameColor = (image: LevelImage, rect: Rect, x: number, y: number) => {
+    if (x >= rect.width || y >= rect.height) {
+        return null;
+    }
+    const p = (rect.y + y) * image.width + rect.x + x;
+    return image.opaque[p] ? levelToColorIndex(image.levels[p]) : null;
+};
+
+const tileKey = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+/**
+ * Slices a converted still into sprite frames and builds the shared tile data
+ * and a metasprite per frame. Color 0 is transparent on sprites, so when the
+ * transparent color is another index it swaps places with color 0, and obp
+ * shows both as their original shades. With alpha only, the first color no
+ * frame uses takes that slot; frames that still draw with it are over the
+ * 3-color limit.
+ */
+export const buildSpriteSheet = (image: LevelImage, settings: SpriteSettings): SpriteSheet => {
+    const rects = (settings.slicing === "auto" ? autoFrames(image) : gridFrames(image, settings))
+        .map((rect) => {
+            const used = new Set<number>();
+            for (let y = 0; y < rect.height; y += 1) {
+                for (let x = 0; x < rect.width; x += 1) {
+                    const color = frameColor(image, rect, x, y);
+                    if (color !== null) {
+                        used.add(color);
+                    }
+                }
+            }
+            return { rect, used };
+        })
+        .filter(({ used }) => used.size);
+
+    const sheetColors = new Set(rects.flatMap(({ used }) => [...used]));
+    const slot =
+        settings.transparentIndex ?? [0, 1, 2, 3].find((color) => !sheetColors.has(color)) ?? 0;
+    // Swaps color 0 with the slot; everything else keeps its index.
+    const remap = (color: number) => (color === 0 ? slot : color === slot ? 0 : color);
+    const obp = [0, 1, 2, 3].reduce((value, index) => value | (remap(index) << (index * 2)), 0);
+
+    const objHeight = settings.objSize === "8x16" ? TILE_SIZE * 2 : TILE_SIZE;
+    const tiles: Uint8Array[] = [];
+    const lookup = new Map<string, number>();
+
+    const frames = rects.map(({ rect, used }): SpriteFrame => {
+        const objects: SpriteObject[] = [];
+        for (let oy = 0; oy < rect.height; oy += objHeight) {
+            for (let ox = 0; ox < rect.width; ox += TILE_SIZE) {
+                const pixels = new Uint8Array(TILE_SIZE * objHeight);
+                let empty = true;
+                for (let y = 0; y < objHeight; y += 1) {
+                    for (let x = 0; x < TILE_SIZE; x += 1) {
+                        const color = frameColor(image, rect, ox + x, oy + y);
+                        if (color !== null) {
+                            pixels[y * TILE_SIZE + x] = remap(color);
+                            empty = false;
+                        }
+                    }
+                }
+                if (empty) {
+                    continue;
+                }
+                const data = new Uint8Array(TILE_BYTES * (objHeight / TILE_SIZE));
+                for (let half = 0; half < objHeight / TILE_SIZE; half += 1) {
+                    const start = half * TILE_PIXELS;
+                    const tilePixels = pixels.subarray(start, start + TILE_PIXELS);
+                    data.set(encodeTile2bpp(tilePixels), half * TILE_BYTES);
+                }
+                const key = tileKey(data);
+                let tile = lookup.get(key);
+                if (tile === undefined) {
+                    tile = tiles.length;
+                    lookup.set(key, tile);
+                    for (let offset = 0; offset < data.length; offset += TILE_BYTES) {
+                        tiles.push(data.slice(offset, offset + TILE_BYTES));
+                    }
+                }
+                objects.push({ x: ox, y: oy, tile, attributes: 0 });
+            }
+        }
+        return { ...rect, colors: used.size, overLimit: used.has(slot), objects };
+    });
+
+    return { objSize: settings.objSize, tiles, frames, obp };
+};
+
+export const countOverLimit = (sheet: SpriteSheet) =>
+    sheet.frames.filter((frame) => frame.overLimit).length;
+
+export const spriteTileData = (sheet: SpriteSheet) => {
+    const out = new Uint8Array(sheet.tiles.length * TILE_BYTES);
+    sheet.tiles.forEach((tile, index) => out.set(tile, index * TILE_BYTES));
+    return out;
+};
@@ -0,0 +1,186 @@
+export type TileBudget = 256 | 384;
+
+export type TileDataExt = "2bpp" | "chr";
+
+export type TileOptions = {
+    /** Reuse tiles that match another tile mirrored on X, Y or both. */
+    dedupeFlips: boolean;
+    budget: TileBudget;
+};
+
+export type Tileset = {
+    /** Unique tiles, 16 bytes of 2bpp planar data each. */
+    tiles: Uint8Array[];
+    /** One tile index per 8x8 cell, row-major. */
+    map: number[];
+    /** CGB-style attribute per cell (bit 5 X flip, bit 6 Y flip), only when flips are deduped. */
+    attributes: Uint8Array | null;
+    columns: number;
+    rows: number;
+};
+
+export const TILE_SIZE = 8;
+export const TILE_BYTES = 16;
+export const TILE_BUDGETS: TileBudget[] = [256, 384];
+export const DEFAULT_TILE_OPTIONS: TileOptions = { dedupeFlips: false, budget: 256 };
+
+const ATTR_FLIP_X = 0x20;
+const ATTR_FLIP_Y = 0x40;
+
+/**
+ * Shade levels run dark to light, while the hardware's default BGP ($E4)
+ * shows color 0 as the lightest shade.
+ */
+export const levelToColorIndex = (level: number) => 3 - level;
+
+const readTile = (
+    levels: Uint8Array,
+    width: number,
+    height: number,
+    column: number,
+    row: number
+) => {
+    const pixels = new Uint8Array(TILE_SIZE * TILE_SIZE);
+    for (let y = 0; y < TILE_SIZE; y += 1) {
+        for (let x = 0; x < TILE_SIZE; x += 1) {
+            const px = column * TILE_SIZE + x;
+            const py = row * TILE_SIZE + y;
+            // Padding outside the image uses color 0 so it blends with the background.
+            pixels[y * TILE_SIZE + x] =
+                px < width && py < height ? levelToColorIndex(levels[py * width + px]) : 0;
+        }
+    }
+    return pixels;
+};
+
+const flipPixels = (pixels: Uint8Array, flipX: boolean, flipY: boolean) => {
+    const out = new Uint8Array(pixels.length);
+    for (let y = 0; y < TILE_SIZE; y += 1) {
+        for (let x = 0; x < TILE_SIZE; x += 1) {
+            const sx = flipX ? TILE_SIZE - 1 - x : x;
+            const sy = flipY ? TILE_SIZE - 1 - y : y;
+            out[y * TILE_SIZE + x] = pixels[sy * TILE_SIZE + sx];
+        }
+    }
+    return out;
+};
+
+/** Encodes 64 color indices as 2bpp planar data: low bit plane, then high, per row. */
+export const encodeTile2bpp = (pixels: Uint8Array) => {
+    const bytes = new Uint8Array(TILE_BYTES);
+    for (let y = 0; y < TILE_SIZE; y += 1) {
+        let low = 0;
+        let high = 0;
+        for (let x = 0; x < TILE_SIZE; x += 1) {
+            const color = pixels[y * TILE_SIZE + x];
+            const bit = 7 - x;
+            low |= (color & 1) << bit;
+            high |= ((color >> 1) & 1) << bit;
+        }
+        bytes[y * 2] = low;
+        bytes[y * 2 + 1] = high;
+    }
+    return bytes;
+};
+
+export const decodeTile2bpp = (bytes: Uint8Array, offset = 0) => {
+    const pixels = new Uint8Array(TILE_SIZE * TILE_SIZE);
+    for (let y = 0; y < TILE_SIZE; y += 1) {
+        const low = bytes[offset + y * 2];
+        const high = bytes[offset + y * 2 + 1];
+        for (let x = 0; x < TILE_SIZE; x += 1) {
+            const bit = 7 - x;
+            pixels[y * TILE_SIZE + x] = ((low >> bit) & 1) | (((high >> bit) & 1) << 1);
+        }
+    }
+    return pixels;
+};
+
+const tileKey = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+/**
+ * Splits a shade-level image into 8x8 tiles and deduplicates them. Images
+ * that aren't a multiple of 8 are padded on the right and bottom.
+ * Throws when the unique tiles don't fit in the chosen VRAM budget.
+ */
+export const buildTileset = (
+    levels: Uint8Array,
+    width: number,
+    height: number,
+    options: TileOptions
+): Tileset => {
+    const columns = Math.ceil(width / TILE_SIZE);
+    const rows = Math.ceil(height / TILE_SIZE);
+    const tiles: Uint8Array[] = [];
+    const lookup = new Map<string, { index: number; attribute: number }>();
+    const map: number[] = [];
+    const attributes = options.dedupeFlips ? new Uint8Array(columns * rows) : null;
+
+    for (let row = 0; row < rows; row += 1) {
+        for (let column = 0; column < columns; column += 1) {
+            const pixels = readTile(levels, width, height, column, row);
+            const bytes = encodeTile2bpp(pixels);
+            const found = lookup.get(tileKey(bytes));
+            const cell = row * columns + column;
+
+            if (found) {
+                map.push(found.index);
+                if (attributes) {
+                    attributes[cell] = found.attribute;
+                }
+                continue;
+            }
+
+            const index = tiles.length;
+            tiles.push(bytes);
+            map.push(index);
+            lookup.set(tileKey(bytes), { index, attribute: 0 });
+
+            if (options.dedupeFlips) {
+                // A cell matching a mirrored copy of this tile is drawn by
+                // flipping the tile the same way.
+                const variants: [boolean, boolean, number][] = [
+                    [true, false, ATTR_FLIP_X],
+                    [false, true, ATTR_FLIP_Y],
+                    [true, true, ATTR_FLIP_X | ATTR_FLIP_Y]
+                ];
+                for (const [flipX, flipY, attribute] of variants) {
+                    const key = tileKey(encodeTile2bpp(flipPixels(pixels, flipX, flipY)));
+                    if (!lookup.has(key)) {
+                        lookup.set(key, { index, attribute });
+                    }
+                }
+            }
+        }
+    }
+
+    if (tiles.length > options.budget) {
+        throw new Error(
+            `Image needs ${tiles.length} unique tiles, over the ${options.budget}-tile VRAM budget.`
+        );
+    }
+
+    return { tiles, map, attributes, columns, rows };
+};
+
+export const tileData = (tileset: Tileset) => {
+    const out = new Uint8Array(tileset.tiles.length * TILE_BYTES);
+    tileset.tiles.forEach((tile, index) => out.set(tile, index * TILE_BYTES));
+    return out;
+};
+
+/**
+ * One byte per map entry. Tilesets past 256 tiles (384 budget) can't be
+ * addressed by a single byte, so their map is written as 16-bit little endian.
+ */
+export const tilemapData = (tileset: Tileset) => {
+    if (tileset.tiles.length <= 256) {
+        return Uint8Array.from(tileset.map);
+    }
+    const out = new Uint8Array(tileset.map.length * 2);
+    tileset.map.forEach((index, cell) => {
+        out[cell * 2] = index & 0xff;
+        out[cell * 2 + 1] = index >> 8;
+    });
+    return out;
+};
@@ -0,0 +1,122 @@
+export type Thresholds = [number, number, number];
+
+export type ToneSettings = {
+    /** -1..1, added as a fraction of full scale. */
+    brightness: number;
+    /** -1..1, 0 leaves contrast alone. */
+    contrast: number;
+    /** 0.2..5, above 1 lifts midtones. */
+    gamma: number;
+    /** Stretch the image's own luminance range to full scale first. */
+    autoLevels: boolean;
+    /** Luminance (0..255) where the 2nd, 3rd and 4th shades begin, ascending. */
+    thresholds: Thresholds;
+};
+
+export const DEFAULT_THRESHOLDS: Thresholds = [64, 128, 192];
+
+export const DEFAULT_TONE: ToneSettings = {
+    brightness: 0,
+    contrast: 0,
+    gamma: 1,
+    autoLevels: false,
+    thresholds: DEFAULT_THRESHOLDS
+};
+
+export const MIN_GAMMA = 0.2;
+export const MAX_GAMMA = 5;
+
+/** Share of pixels auto levels ignores at each end, so stray specks don't pin the range. */
+const AUTO_LEVELS_CLIP = 0.005;
+
+const clamp255 = (value: number) => Math.min(255, Math.max(0, value));
+
+/** Keeps thresholds in 1..255, ascending and at least one apart. */
+export const normalizeThresholds = (thresholds: number[]): Thresholds => {
+    const [a, b, c] = thresholds.map((value) => Math.round(value));
+    const first = Math.min(253, Math.max(1, a));
+    const second = Math.min(254, Math.max(first + 1, b));
+    return [first, second, Math.min(255, Math.max(second + 1, c))];
+};
+
+/** 256-bucket histogram of opaque pixels. */
+export const luminanceHistogram = (lum: Float32Array, opaque: Uint8Array | null) => {
+    const histogram = new Uint32Array(256);
+    for (let p = 0; p < lum.length; p += 1) {
+        if (!opaque || opaque[p]) {
+            histogram[clamp255(Math.round(lum[p]))] += 1;
+        }
+    }
+    return histogram;
+};
+
+const histogramRange = (histogram: Uint32Array) => {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    const clip = total * AUTO_LEVELS_CLIP;
+    let low = 0;
+    for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low += 1) {
+        seen += histogram[low];
+    }
+    let high = 255;
+    for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high -= 1) {
+        seen += histogram[high];
+    }
+    return high > low ? { low, high } : null;
+};
+
+/**
+ * Applies auto levels, brightness, contrast and gamma in place. Thresholds
+ * are left for mapThresholds, so a histogram of the result shows where they fall.
+ */
+export const adjustLuminance = (
+    lum: Float32Array,
+    opaque: Uint8Array | null,
+    tone: ToneSettings
+) => {
+    const range = tone.autoLevels ? histogramRange(luminanceHistogram(lum, opaque)) : null;
+    const stretch = range ? 255 / (range.high - range.low) : 1;
+    const offset = range ? range.low : 0;
+    const shift = tone.brightness * 255;
+    const amount = tone.contrast * 255;
+    const factor = (259 * (amount + 255)) / (255 * (259 - amount));
+    const exponent = 1 / Math.min(MAX_GAMMA, Math.max(MIN_GAMMA, tone.gamma));
+
+    for (let p = 0; p < lum.length; p += 1) {
+        let value = (lum[p] - offset) * stretch + shift;
+        value = clamp255((value - 128) * factor + 128);
+        lum[p] = 255 * Math.pow(value / 255, exponent);
+    }
+};
+
+/**
+ * Remaps luminance piecewise-linearly so the thresholds land on the equal
+ * 64-wide shade buckets, which keeps dithering working between them.
+ */
+export const mapThresholds = (lum: Float32Array, thresholds: Thresholds) => {
+    const stops = [0, ...normalizeThresholds(thresholds), 256];
+    const step = 256 / (stops.length - 1);
+    for (let p = 0; p < lum.length; p += 1) {
+        const value = lum[p];
+        let segment = 0;
+        while (segment < stops.length - 2 && value >= stops[segment + 1]) {
+            segment += 1;
+        }
+        const from = stops[segment];
+        lum[p] = step * (segment + (value - from) / (stops[segment + 1] - from));
+    }
+};
+
+export const isDefaultTone = (tone: ToneSettings) =>
+    !tone.autoLevels &&
+    tone.brightness === DEFAULT_TONE.brightness &&
+    tone.contrast === DEFAULT_TONE.contrast &&
+    tone.gamma === DEFAULT_TONE.gamma &&
+    tone.thresholds.every((value, i) => value === DEFAULT_THRESHOLDS[i]);
+
+export const applyTone = (lum: Float32Array, opaque: Uint8Array | null, tone: ToneSettings) => {
+    if (isDefaultTone(tone)) {
+        return;
+    }
+    adjustLuminance(lum, opaque, tone);
+    mapThresholds(lum, tone.thresholds);
+};
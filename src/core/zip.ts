@@ -0,0 +1,115 @@
+import JSZip from "jszip";
+import { sniffImageType } from "./decode";
+import { baseName, extFromName, isSupportedExt } from "./files";
+
+export type ZipImage = {
+    /** Path inside the archive, with nested ZIPs as folders, e.g. "tiles/extra/hero.png". */
+    name: string;
+    ext: string;
+    data: Uint8Array;
+};
+
+export type ZipSkip = {
+    name: string;
+    reason: string;
+};
+
+export type ZipContents = {
+    images: ZipImage[];
+    skipped: ZipSkip[];
+};
+
+/** ZIPs inside ZIPs are followed this many levels deep. */
+const MAX_ZIP_DEPTH = 3;
+
+/**
+ * Forward slashes only, without empty, "." or ".." segments, so no entry can
+ * name a path outside the folder it is extracted to.
+ */
+const normalizePath = (name: string) =>
+    name
+        .replace(/\\/g, "/")
+        .split("/")
+        .filter((part) => part && part !== "." && part !== "..")
+        .join("/");
+
+const skipReason = (path: string) => {
+    const parts = path.split("/");
+    if (parts.includes("__MACOSX")) {
+        return "macOS metadata";
+    }
+    if (parts.some((part) => part.startsWith("."))) {
+        return "hidden file";
+    }
+    return null;
+};
+
+const collect = async (
+    data: Blob | ArrayBuffer | Uint8Array,
+    prefix: string,
+    depth: number,
+    contents: ZipContents
+) => {
+    const zip = await JSZip.loadAsync(data);
+    const entries = Object.values(zip.files)
+        .filter((entry) => !entry.dir)
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        const path = prefix + normalizePath(entry.name);
+        const ext = extFromName(path);
+        const hidden = skipReason(path);
+        if (hidden) {
+            contents.skipped.push({ name: path, reason: hidden });
+        } else if (ext === "zip") {
+            if (depth >= MAX_ZIP_DEPTH) {
+                contents.skipped.push({ name: path, reason: "ZIP nested too deep" });
+                continue;
+            }
+            try {
+                const nested = await entry.async("uint8array");
+                await collect(nested, `${baseName(path)}/`, depth + 1, contents);
+            } catch {
+                contents.skipped.push({ name: path, reason: "unreadable ZIP" });
+            }
+        } else if (isSupportedExt(ext)) {
+            contents.images.push({ name: path, ext, data: await entry.async("uint8array") });
+        } else if (!/\.[^/.]+$/.test(path)) {
+            // Entries without an extension are recognised by their bytes.
+            const data = await entry.async("uint8array");
+            const type = sniffImageType(data);
+            if (type) {
+                contents.images.push({ name: path, ext: type, data });
+            } else {
+                contents.skipped.push({ name: path, reason: "unsupported file type" });
+            }
+        } else {
+            contents.skipped.push({ name: path, reason: "unsupported file type" });
+        }
+    }
+};
+
+/**
+ * Extracts every supported image from a ZIP batch, following nested ZIPs.
+ * Everything else is listed in skipped. Throws when nothing can be imported.
+ */
+export const readImageZip = async (
+    data: Blob | ArrayBuffer | Uint8Array
+): Promise<ZipContents> => {
+    const contents: ZipContents = { images: [], skipped: [] };
+    await collect(data, "", 0, contents);
+    if (!contents.images.length) {
+        throw new Error(
+            contents.skipped.length ? "Zip contains no supported images." : "Zip is empty."
+        );
+    }
+    return contents;
+};
+
+/** Splits "tiles/hero.png" into its folder ("tiles", or "" at the root) and file name. */
+export const splitPath = (path: string) => {
+    const index = path.lastIndexOf("/");
+    return index === -1
+        ? { folder: "", fileName: path }
+        : { folder: path.slice(0, index), fileName: path.slice(index + 1) };
+};
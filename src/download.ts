@@ -0,0 +1,101 @@
+import JSZip from "jszip";
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    URL.revokeObjectURL(url);
+};
+
+export const downloadUrl = (url: string, filename: string) => {
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+};
+
+export type DownloadFile = { name: string; data: Blob | Uint8Array | string };
+
+/** Downloads a single file as-is, or several files bundled into one ZIP. */
+export const downloadFiles = async (files: DownloadFile[], zipName: string) => {
+    if (files.length === 1) {
+        const [file] = files;
+        const blob =
+            file.data instanceof Blob ? file.data : new Blob([file.data as BlobPart]);
+        downloadBlob(blob, file.name);
+        return;
+    }
+    const zip = new JSZip();
+    files.forEach((file) => zip.file(file.name, file.data));
+    downloadBlob(await zip.generateAsync({ type: "blob" }), zipName);
+};
+
+/** Somewhere an archive is written to, chunk by chunk. */
+export type FileSink = {
+    write: (chunk: Uint8Array) => Promise<void>;
+    close: () => Promise<void>;
+    abort: () => Promise<void>;
+};
+
+type FilePickerWindow = Window & {
+    showSaveFilePicker?: (options: {
+        suggestedName: string;
+        types: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
+    showDirectoryPicker?: (options: { mode: "readwrite" }) => Promise<FileSystemDirectoryHandle>;
+};
+
+const writableSink = async (handle: FileSystemFileHandle): Promise<FileSink> => {
+    const writable = await handle.createWritable();
+    return {
+        write: (chunk) => writable.write(chunk as BufferSource),
+        close: () => writable.close(),
+        abort: () => writable.abort()
+    };
+};
+
+/** Collects the chunks and downloads them as one file when closed. */
+const downloadSink = (name: string): FileSink => {
+    const chunks: BlobPart[] = [];
+    return {
+        write: async (chunk) => {
+            chunks.push(chunk as BlobPart);
+        },
+        close: async () => downloadBlob(new Blob(chunks, { type: "application/zip" }), name),
+        abort: async () => {
+            chunks.length = 0;
+        }
+    };
+};
+
+/**
+ * Asks where to write archives named names: a save dialog for one, a folder
+ * for several. Files go straight to disk there; browsers without the File
+ * System Access API download them instead. Must run before the click handler
+ * awaits anything, since the pickers need the user's gesture. Rejects with an
+ * AbortError when the picker is dismissed.
+ */
+export const pickArchiveSinks = async (
+    names: string[]
+): Promise<(name: string) => Promise<FileSink>> => {
+    const picker = window as FilePickerWindow;
+    if (names.length === 1 && picker.showSaveFilePicker) {
+        const handle = await picker.showSaveFilePicker({
+            suggestedName: names[0],
+            types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }]
+        });
+        return () => writableSink(handle);
+    }
+    if (names.length > 1 && picker.showDirectoryPicker) {
+        const dir = await picker.showDirectoryPicker({ mode: "readwrite" });
+        return async (name: string) =>
+            writableSink(await dir.getFileHandle(name, { create: true }));
+    }
+    return async (name: string) => downloadSink(name);
+};
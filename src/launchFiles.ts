@@ -0,0 +1,60 @@
+import { extForMime, extFromName, isSupportedExt } from "./core/files";
+
+/** Cache the service worker parks shared files in; see public/sw.js. */
+const SHARE_CACHE = "img2dmg-share";
+/** Query the service worker redirects to after a share. */
+const SHARE_PARAM = "share-target";
+const NAME_HEADER = "X-File-Name";
+
+type LaunchParams = { files: FileSystemFileHandle[] };
+
+type LaunchQueue = { setConsumer: (consumer: (params: LaunchParams) => void) => void };
+
+/**
+ * Files shared to the installed app from the OS share sheet. The service
+ * worker answers the share POST by caching the files and redirecting here,
+ * so they are read once and the cache is dropped.
+ */
+export const takeSharedFiles = async (): Promise<File[]> => {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(SHARE_PARAM) || !("caches" in window)) {
+        return [];
+    }
+    url.searchParams.delete(SHARE_PARAM);
+    window.history.replaceState(null, "", url);
+
+    const cache = await caches.open(SHARE_CACHE);
+    const requests = await cache.keys();
+    const files = await Promise.all(
+        requests.map(async (request) => {
+            const response = await cache.match(request);
+            if (!response) {
+                return null;
+            }
+            const name = decodeURIComponent(response.headers.get(NAME_HEADER) ?? "shared");
+            const blob = await response.blob();
+            // Some share sheets send names without an extension.
+            const ext = extForMime(blob.type);
+            const named =
+                isSupportedExt(extFromName(name)) || extFromName(name) === "zip" || !ext
+                    ? name
+                    : `${name}.${ext}`;
+            return new File([blob], named, { type: blob.type });
+        })
+    );
+    await caches.delete(SHARE_CACHE);
+    return files.filter((file): file is File => file !== null);
+};
+
+/**
+ * Calls back with the files the app was opened with ("Open with" on an
+ * installed app), where the browser supports file handlers.
+ */
+export const onLaunchFiles = (callback: (files: File[]) => void) => {
+    const queue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue;
+    queue?.setConsumer(async ({ files }) => {
+        if (files.length) {
+            callback(await Promise.all(files.map((handle) => handle.getFile())));
+        }
+    });
+};
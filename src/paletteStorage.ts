@@ -0,0 +1,57 @@
+import { Palette, PALETTE_SIZE } from "./core/palettes";
+
+const PALETTES_KEY = "img2dmg.palettes";
+const ACTIVE_PALETTE_KEY = "img2dmg.activePalette";
+
+const isByte = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 255;
+
+const isPalette = (value: unknown): value is Palette => {
+    if (!value || typeof value !== "object") {
+        return false;
+    }
+    const candidate = value as Palette;
+    return (
+        typeof candidate.id === "string" &&
+        typeof candidate.name === "string" &&
+        Array.isArray(candidate.colors) &&
+        candidate.colors.length === PALETTE_SIZE &&
+        candidate.colors.every((c) => c && isByte(c.r) && isByte(c.g) && isByte(c.b))
+    );
+};
+
+export const loadCustomPalettes = (): Palette[] => {
+    try {
+        const raw = localStorage.getItem(PALETTES_KEY);
+        const parsed: unknown = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed)
+            ? parsed.filter(isPalette).map((palette) => ({ ...palette, builtIn: false }))
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveCustomPalettes = (palettes: Palette[]) => {
+    try {
+        localStorage.setItem(PALETTES_KEY, JSON.stringify(palettes));
+    } catch {
+        // Storage can be full or disabled; palettes then only last for the session.
+    }
+};
+
+export const loadActivePaletteId = () => {
+    try {
+        return localStorage.getItem(ACTIVE_PALETTE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const saveActivePaletteId = (id: string) => {
+    try {
+        localStorage.setItem(ACTIVE_PALETTE_KEY, id);
+    } catch {
+        // See saveCustomPalettes.
+    }
+};
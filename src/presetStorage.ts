@@ -0,0 +1,37 @@
+import { Preset, readStoredPresets } from "./core/presets";
+
+const PRESETS_KEY = "img2dmg.presets";
+const LAST_PRESET_KEY = "img2dmg.lastPreset";
+
+export const loadPresets = (): Preset[] => {
+    try {
+        const raw = localStorage.getItem(PRESETS_KEY);
+        return readStoredPresets(raw ? JSON.parse(raw) : []);
+    } catch {
+        return [];
+    }
+};
+
+export const savePresets = (presets: Preset[]) => {
+    try {
+        localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch {
+        // Storage can be full or disabled; presets then only last for the session.
+    }
+};
+
+export const loadLastPresetId = () => {
+    try {
+        return localStorage.getItem(LAST_PRESET_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const saveLastPresetId = (id: string) => {
+    try {
+        localStorage.setItem(LAST_PRESET_KEY, id);
+    } catch {
+        // See savePresets.
+    }
+};
@@ -0,0 +1,176 @@
+import { AlphaSettings } from "./core/alpha";
+import { AnimationFormat, ConvertedFrame } from "./core/animation";
+import { ZipCompression } from "./core/archive";
+import { CameraSource } from "./core/camera";
+import { CgbImage } from "./core/cgb";
+import { DecodeFailure, DecodeSettings } from "./core/decode";
+import { DitherMode } from "./core/dither";
+import { ManifestFormat } from "./core/manifest";
+import { OutputFormat } from "./core/output";
+import { Rgb } from "./core/palettes";
+import { ColorMatching, Hardware, ItemOverrides } from "./core/pipeline";
+import { ResizeSettings } from "./core/resize";
+import { SourceFormat } from "./core/sourceExport";
+import { SpriteSettings, SpriteSheet } from "./core/sprites";
+import { TileBudget, TileDataExt } from "./core/tiles";
+import { ToneSettings } from "./core/tone";
+
+export type StoredItem = {
+    id: string;
+    name: string;
+    ext: string;
+    file: File;
+    folder?: string;
+    camera?: CameraSource;
+    overrides?: ItemOverrides;
+    /** Settings the output was converted with; missing in sessions stored before overrides. */
+    convertedKey?: string;
+    /** Items that were mid-conversion are stored as queued. */
+    status: "queued" | "done" | "error" | "cancelled";
+    output?: Blob;
+    levels?: Uint8Array;
+    frames?: ConvertedFrame[];
+    palette?: Rgb[];
+    cgb?: CgbImage;
+    sprites?: SpriteSheet;
+    width?: number;
+    height?: number;
+    sourceWidth?: number;
+    sourceHeight?: number;
+    firstFrameOnly?: boolean;
+    error?: string;
+    errorReason?: DecodeFailure;
+    selected: boolean;
+};
+
+export type StoredSettings = {
+    /** Settings the stored outputs were converted with, for items without their own key. */
+    convertedKey: string;
+    /** Item ids in list order. */
+    order: string[];
+    ditherMode: DitherMode;
+    ditherStrength: number;
+    resize: ResizeSettings;
+    sprite?: SpriteSettings;
+    decode?: DecodeSettings;
+    alpha?: AlphaSettings;
+    tone: ToneSettings;
+    animation: AnimationFormat;
+    /** Missing in sessions stored before output formats existed. */
+    output?: OutputFormat;
+    matching?: ColorMatching;
+    hardware?: Hardware;
+    tileExt: TileDataExt;
+    tileDedupeFlips: boolean;
+    tileBudget: TileBudget;
+    zipContents: "png" | SourceFormat;
+    zipCompression?: ZipCompression;
+    /** Largest archive in bytes, 0 for no split. */
+    zipSplit?: number;
+    /** Missing in sessions stored before name templates and manifests existed. */
+    fileTemplate?: string;
+    archiveTemplate?: string;
+    manifestFormat?: ManifestFormat;
+};
+
+export type StoredSession = {
+    items: StoredItem[];
+    settings: StoredSettings | null;
+};
+
+const DB_NAME = "img2dmg";
+const DB_VERSION = 1;
+const ITEMS_STORE = "items";
+const META_STORE = "meta";
+const SETTINGS_KEY = "settings";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(ITEMS_STORE, { keyPath: "id" });
+            request.result.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // A failed open shouldn't stick; the next call tries again.
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transaction = async (mode: IDBTransactionMode, run: (tx: IDBTransaction) => void) => {
+    const db = await openDb();
+    const tx = db.transaction([ITEMS_STORE, META_STORE], mode);
+    run(tx);
+    return new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error("Storage transaction aborted"));
+    });
+};
+
+export const canStoreSession = () => typeof indexedDB !== "undefined";
+
+export const loadSession = async (): Promise<StoredSession> => {
+    const db = await openDb();
+    const tx = db.transaction([ITEMS_STORE, META_STORE], "readonly");
+    const [items, settings] = await Promise.all([
+        requestResult(tx.objectStore(ITEMS_STORE).getAll() as IDBRequest<StoredItem[]>),
+        requestResult(
+            tx.objectStore(META_STORE).get(SETTINGS_KEY) as IDBRequest<StoredSettings | undefined>
+        )
+    ]);
+    const order = new Map(settings?.order.map((id, index) => [id, index]));
+    const position = (item: StoredItem) => order.get(item.id) ?? order.size;
+    return {
+        items: items.sort((a, b) => position(a) - position(b)),
+        settings: settings ?? null
+    };
+};
+
+export const saveItems = (put: StoredItem[], remove: string[]) =>
+    transaction("readwrite", (tx) => {
+        const store = tx.objectStore(ITEMS_STORE);
+        put.forEach((item) => store.put(item));
+        remove.forEach((id) => store.delete(id));
+    });
+
+export const saveSettings = (settings: StoredSettings) =>
+    transaction("readwrite", (tx) => {
+        tx.objectStore(META_STORE).put(settings, SETTINGS_KEY);
+    });
+
+export const clearSession = () =>
+    transaction("readwrite", (tx) => {
+        tx.objectStore(ITEMS_STORE).clear();
+        tx.objectStore(META_STORE).clear();
+    });
+
+/** Bytes used and available for this origin, when the browser reports it. */
+export const storageEstimate = async () => {
+    if (!navigator.storage?.estimate) {
+        return null;
+    }
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
+
+/** Asks the browser not to evict stored sessions under storage pressure. */
+export const requestPersistentStorage = async () => {
+    try {
+        return (await navigator.storage?.persist?.()) ?? false;
+    } catch {
+        return false;
+    }
+};
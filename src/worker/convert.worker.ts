@@ -0,0 +1,35 @@
+import { failureOf } from "../core/decode";
+import { convertToDmg } from "../convert";
+import { WorkerRequest, WorkerResponse } from "./messages";
+
+type WorkerScope = {
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+    postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+// Progress is throttled so large images don't flood the main thread.
+const PROGRESS_STEP = 0.05;
+
+scope.onmessage = async (event) => {
+    const { id, file, settings } = event.data;
+    let reported = 0;
+    try {
+        const result = await convertToDmg(file, settings, (progress) => {
+            if (progress - reported >= PROGRESS_STEP) {
+                reported = progress;
+                scope.postMessage({ type: "progress", id, progress });
+            }
+        });
+        // The first frame shares its levels buffer with result.levels.
+        const transfer = new Set([
+            result.levels.buffer,
+            ...(result.frames ?? []).flatMap((frame) => [frame.levels.buffer, frame.opaque.buffer])
+        ]);
+        scope.postMessage({ type: "done", id, result }, [...transfer]);
+    } catch (error) {
+        const { message } = error as Error;
+        scope.postMessage({ type: "error", id, message, reason: failureOf(error) });
+    }
+};
@@ -0,0 +1,15 @@
+import { DecodeFailure } from "../core/decode";
+import { ConvertSettings } from "../core/pipeline";
+import { ConvertResult } from "../convert";
+
+export type WorkerRequest = {
+    type: "convert";
+    id: string;
+    file: Blob;
+    settings: ConvertSettings;
+};
+
+export type WorkerResponse =
+    | { type: "progress"; id: string; progress: number }
+    | { type: "done"; id: string; result: ConvertResult }
+    | { type: "error"; id: string; message: string; reason: DecodeFailure | null };
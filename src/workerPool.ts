@@ -0,0 +1,190 @@
+import { decodeError } from "./core/decode";
+import { ConvertSettings, ProgressCallback } from "./core/pipeline";
+import { canConvertOffThread, convertToDmg, ConvertResult } from "./convert";
+import { WorkerRequest, WorkerResponse } from "./worker/messages";
+
+export type WorkerPool = {
+    /** How many conversions can run at once. */
+    size: number;
+    run: (
+        id: string,
+        file: Blob,
+        settings: ConvertSettings,
+        onProgress?: ProgressCallback
+    ) => Promise<ConvertResult>;
+    cancel: (id: string) => void;
+    cancelAll: () => void;
+    dispose: () => void;
+};
+
+type Job = WorkerRequest & {
+    onProgress?: ProgressCallback;
+    resolve: (result: ConvertResult) => void;
+    reject: (error: Error) => void;
+};
+
+type Slot = {
+    worker: Worker;
+    job: Job | null;
+};
+
+const cancelledError = () => new Error("Cancelled");
+
+const spawnWorker = () =>
+    new Worker(new URL("./worker/convert.worker.ts", import.meta.url), { type: "module" });
+
+/**
+ * Runs conversions on the main thread for browsers without OffscreenCanvas.
+ * Running jobs can't be interrupted, so cancelling only discards their result.
+ */
+const createMainThreadPool = (): WorkerPool => {
+    const running = new Set<string>();
+    const cancelled = new Set<string>();
+    return {
+        size: 1,
+        run: async (id, file, settings, onProgress) => {
+            cancelled.delete(id);
+            running.add(id);
+            try {
+                const result = await convertToDmg(file, settings, onProgress);
+                if (cancelled.has(id)) {
+                    throw cancelledError();
+                }
+                return result;
+            } finally {
+                running.delete(id);
+                cancelled.delete(id);
+            }
+        },
+        cancel: (id) => {
+            cancelled.add(id);
+        },
+        cancelAll: () => {
+            running.forEach((id) => cancelled.add(id));
+        },
+        dispose: () => undefined
+    };
+};
+
+export const createWorkerPool = (
+    size = navigator.hardwareConcurrency || 2
+): WorkerPool => {
+    if (!canConvertOffThread()) {
+        return createMainThreadPool();
+    }
+
+    const pending: Job[] = [];
+    const slots: Slot[] = [];
+
+    const finish = (slot: Slot) => {
+        slot.job = null;
+        pump();
+    };
+
+    const attach = (slot: Slot) => {
+        slot.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const message = event.data;
+            const job = slot.job;
+            if (!job || job.id !== message.id) {
+                return;
+            }
+            if (message.type === "progress") {
+                job.onProgress?.(message.progress);
+            } else if (message.type === "done") {
+                finish(slot);
+                job.resolve(message.result);
+            } else {
+                finish(slot);
+                job.reject(
+                    message.reason
+                        ? decodeError(message.reason, message.message)
+                        : new Error(message.message)
+                );
+            }
+        };
+        slot.worker.onerror = (event) => {
+            event.preventDefault();
+            const job = slot.job;
+            replace(slot);
+            // Running out of memory is the usual way a conversion takes its worker down.
+            job?.reject(
+                decodeError(
+                    "out-of-memory",
+                    event.message || "The converter crashed, most likely out of memory."
+                )
+            );
+        };
+    };
+
+    // Terminating is the only way to stop a conversion mid-loop, so a
+    // cancelled or crashed worker is swapped for a fresh one.
+    const replace = (slot: Slot) => {
+        slot.worker.terminate();
+        slot.worker = spawnWorker();
+        attach(slot);
+        finish(slot);
+    };
+
+    const pump = () => {
+        for (const slot of slots) {
+            if (slot.job || !pending.length) {
+                continue;
+            }
+            const job = pending.shift()!;
+            slot.job = job;
+            const request: WorkerRequest = {
+                type: "convert",
+                id: job.id,
+                file: job.file,
+                settings: job.settings
+            };
+            slot.worker.postMessage(request);
+        }
+    };
+
+    for (let i = 0; i < size; i += 1) {
+        const slot: Slot = { worker: spawnWorker(), job: null };
+        attach(slot);
+        slots.push(slot);
+    }
+
+    const cancel = (id: string) => {
+        const queuedIndex = pending.findIndex((job) => job.id === id);
+        if (queuedIndex !== -1) {
+            const [job] = pending.splice(queuedIndex, 1);
+            job.reject(cancelledError());
+            return;
+        }
+        const slot = slots.find((entry) => entry.job?.id === id);
+        if (slot?.job) {
+            const job = slot.job;
+            replace(slot);
+            job.reject(cancelledError());
+        }
+    };
+
+    return {
+        size,
+        run: (id, file, settings, onProgress) =>
+            new Promise<ConvertResult>((resolve, reject) => {
+                pending.push({ type: "convert", id, file, settings, onProgress, resolve, reject });
+                pump();
+            }),
+        cancel,
+        cancelAll: () => {
+            [...pending, ...slots.map((slot) => slot.job)].forEach((job) => {
+                if (job) {
+                    cancel(job.id);
+                }
+            });
+        },
+        dispose: () => {
+            pending.splice(0).forEach((job) => job.reject(cancelledError()));
+            slots.forEach((slot) => {
+                slot.worker.terminate();
+                slot.job?.reject(cancelledError());
+                slot.job = null;
+            });
+        }
+    };
+};
@@ -0,0 +1,109 @@
+import pngjs from "pngjs";
+import { describe, expect, it } from "vitest";
+import { deflate } from "../src/cli/codecs";
+import { AlphaSettings, DEFAULT_ALPHA } from "../src/core/alpha";
+import { encodeOutput } from "../src/core/output";
+import { readChunks } from "../src/core/png";
+import { ColorMatching, quantizeImage } from "../src/core/pipeline";
+import { goldenText, loadFixture, settingsWith } from "./helpers";
+
+const { PNG } = pngjs;
+
+const POLICIES: [string, AlphaSettings][] = [
+    ["threshold", DEFAULT_ALPHA],
+    ["threshold-1", { ...DEFAULT_ALPHA, threshold: 1 }],
+    ["flatten-color0", { ...DEFAULT_ALPHA, mode: "flatten", flattenColor: 0 }],
+    ["flatten-color3", { ...DEFAULT_ALPHA, mode: "flatten", flattenColor: 3 }],
+    ["color0", { ...DEFAULT_ALPHA, mode: "color0" }]
+];
+
+const MATCHINGS: ColorMatching[] = ["luminance", "nearest"];
+
+const convert = (alpha: AlphaSettings, matching: ColorMatching = "luminance") =>
+    quantizeImage(loadFixture("alpha.png"), settingsWith({ alpha, matching }));
+
+describe.each(MATCHINGS)("alpha policies matching by %s", (matching) => {
+    it.each(POLICIES)("matches the golden levels for %s", async (name, alpha) => {
+        await expect(goldenText(convert(alpha, matching))).toMatchFileSnapshot(
+            `golden/alpha/${matching}-${name}.txt`
+        );
+    });
+});
+
+describe("alpha policies", () => {
+    it("leaves no partial alpha in the converted image", () => {
+        POLICIES.forEach(([, alpha]) => {
+            const { data } = convert(alpha).image;
+            for (let i = 3; i < data.length; i += 4) {
+                expect([0, 255]).toContain(data[i]);
+            }
+        });
+    });
+
+    it("cuts pixels off below the threshold", () => {
+        const result = convert({ ...DEFAULT_ALPHA, threshold: 200 });
+        // Column 12 has alpha 204, column 11 has 187.
+        expect(result.opaque[12]).toBe(1);
+        expect(result.opaque[11]).toBe(0);
+    });
+
+    it("flattens fully transparent pixels onto the chosen shade", () => {
+        const light = convert({ ...DEFAULT_ALPHA, mode: "flatten", flattenColor: 0 });
+        const dark = convert({ ...DEFAULT_ALPHA, mode: "flatten", flattenColor: 3 });
+        expect(light.opaque.every((value) => value === 1)).toBe(true);
+        // Column 0 is fully transparent on every row.
+        [0, 16, 32, 48].forEach((p) => {
+            expect(light.levels[p]).toBe(3);
+            expect(dark.levels[p]).toBe(0);
+        });
+    });
+
+    it("keeps color 0 for transparent pixels when it is reserved", () => {
+        MATCHINGS.forEach((matching) => {
+            const result = convert({ ...DEFAULT_ALPHA, mode: "color0" }, matching);
+            result.levels.forEach((level, p) => {
+                expect(level === 3).toBe(result.opaque[p] === 0);
+            });
+        });
+    });
+
+    it("treats color 0 like the threshold in CGB mode", () => {
+        const source = loadFixture("alpha.png");
+        const color0 = quantizeImage(
+            source,
+            settingsWith({ hardware: "cgb", alpha: { ...DEFAULT_ALPHA, mode: "color0" } })
+        );
+        const threshold = quantizeImage(source, settingsWith({ hardware: "cgb" }));
+        expect(color0.levels).toEqual(threshold.levels);
+    });
+});
+
+describe("indexed PNG transparency", () => {
+    const encode = async (alpha: AlphaSettings) => {
+        const result = convert(alpha);
+        const image = { ...result, width: result.image.width, height: result.image.height };
+        const bytes = await encodeOutput("png-indexed", image, result.palette, alpha.mode, deflate);
+        return { result, bytes, png: PNG.sync.read(Buffer.from(bytes)) };
+    };
+
+    it("writes transparent pixels as an extra palette entry by default", async () => {
+        const { result, png } = await encode(DEFAULT_ALPHA);
+        result.opaque.forEach((opaque, p) => {
+            expect(png.data[p * 4 + 3]).toBe(opaque ? 255 : 0);
+        });
+    });
+
+    it("writes transparent pixels as color 0 when it is reserved", async () => {
+        const { result, bytes, png } = await encode({ ...DEFAULT_ALPHA, mode: "color0" });
+        result.opaque.forEach((opaque, p) => {
+            expect(png.data[p * 4 + 3]).toBe(opaque ? 255 : 0);
+        });
+        // Four entries at most, the lightest shade first and transparent.
+        const chunks = readChunks(bytes);
+        const plte = chunks.find((chunk) => chunk.type === "PLTE")!.data;
+        const { r, g, b } = result.palette[3];
+        expect(plte.length).toBeLessThanOrEqual(12);
+        expect(Array.from(plte.subarray(0, 3))).toEqual([r, g, b]);
+        expect(chunks.find((chunk) => chunk.type === "tRNS")!.data).toEqual(Uint8Array.of(0));
+    });
+});
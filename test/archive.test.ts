@@ -0,0 +1,147 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+    archivePartName,
+    entrySize,
+    splitArchives,
+    streamZip,
+    ZipEntry
+} from "../src/core/archive";
+import { concatBytes } from "../src/core/png";
+
+const entry = (name: string, bytes: number): ZipEntry => ({
+    name,
+    data: new Uint8Array(bytes).fill(name.length)
+});
+
+/** Streams entries into memory, in small writes that resolve later. */
+const zipBytes = async (entries: ZipEntry[], compression: "store" | "deflate") => {
+    const chunks: Uint8Array[] = [];
+    const progress: number[] = [];
+    await streamZip(
+        entries,
+        { compression, onProgress: (value) => progress.push(value) },
+        async (chunk) => {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            chunks.push(chunk);
+        }
+    );
+    return { bytes: concatBytes(chunks), progress };
+};
+
+describe("splitArchives", () => {
+    const groups = [
+        [entry("a.png", 400), entry("a.c", 100)],
+        [entry("b.png", 400)],
+        [entry("c.png", 400)]
+    ];
+
+    it("keeps everything in one archive without a limit", () => {
+        expect(splitArchives(groups, 0)).toEqual([groups.flat()]);
+    });
+
+    it("starts a new archive before one would go over the limit", () => {
+        const parts = splitArchives(groups, 1200);
+        expect(parts.map((part) => part.map((file) => file.name))).toEqual([
+            ["a.png", "a.c"],
+            ["b.png", "c.png"]
+        ]);
+        parts.forEach((part) => {
+            const size = part.reduce((total, file) => total + entrySize(file), 22);
+            expect(size).toBeLessThanOrEqual(1200);
+        });
+    });
+
+    it("gives a group over the limit an archive of its own", () => {
+        const parts = splitArchives([[entry("big.png", 5000)], [entry("small.png", 10)]], 1000);
+        expect(parts.map((part) => part.map((file) => file.name))).toEqual([
+            ["big.png"],
+            ["small.png"]
+        ]);
+    });
+
+    it("returns no archives for no entries", () => {
+        expect(splitArchives([], 1000)).toEqual([]);
+    });
+
+    it.each(["store", "deflate"] as const)("keeps %s archives within the limit", async (mode) => {
+        // Noise deflate can't shrink, in folders that each add an entry of their own.
+        let seed = 1;
+        const dataLength = (file: ZipEntry) => (file.data as Uint8Array).length;
+        const noise = (name: string, bytes: number): ZipEntry => ({
+            name,
+            data: Uint8Array.from({ length: bytes }, () => {
+                seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+                return seed >> 16;
+            })
+        });
+        const folderGroups = [
+            [noise("tiles/hero.png", 1000), noise("tiles/hero.c", 300)],
+            [noise("tiles/extra/villain.png", 1000)],
+            [noise("sprites/a.png", 900)],
+            [noise("b.png", 1500)],
+            [noise("sprites/deep/er/c.png", 800)]
+        ];
+        // Room for the first two groups' headers and data alone, without descriptors,
+        // folders or deflate, so an estimate leaving those out overfills the first part.
+        const maxBytes = folderGroups
+            .slice(0, 2)
+            .flat()
+            .reduce((total, file) => total + 76 + file.name.length * 2 + dataLength(file), 22);
+        const parts = splitArchives(folderGroups, maxBytes);
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            const { bytes } = await zipBytes(part, mode);
+            expect(bytes.length).toBeLessThanOrEqual(maxBytes);
+        }
+    });
+});
+
+describe("archivePartName", () => {
+    it("numbers parts only when there are several", () => {
+        expect(archivePartName("img2dmg-all.zip", 0, 1)).toBe("img2dmg-all.zip");
+        expect(archivePartName("img2dmg-all.zip", 0, 3)).toBe("img2dmg-all-part1.zip");
+        expect(archivePartName("img2dmg-all-gs.zip", 2, 3)).toBe("img2dmg-all-gs-part3.zip");
+    });
+});
+
+describe("streamZip", () => {
+    const entries = [entry("tiles/a.png", 2000), { name: "a.c", data: "const int a;\n" }];
+
+    it.each(["store", "deflate"] as const)("writes a readable archive with %s", async (mode) => {
+        const { bytes, progress } = await zipBytes(entries, mode);
+        const zip = await JSZip.loadAsync(bytes);
+        expect(await zip.file("tiles/a.png")!.async("uint8array")).toEqual(entries[0].data);
+        expect(await zip.file("a.c")!.async("string")).toBe("const int a;\n");
+        expect(progress.at(-1)).toBe(1);
+    });
+
+    it("stores entries whole, and deflate makes repetitive data smaller", async () => {
+        const stored = await zipBytes(entries, "store");
+        const deflated = await zipBytes(entries, "deflate");
+        expect(stored.bytes.length).toBeGreaterThan(2000);
+        expect(deflated.bytes.length).toBeLessThan(500);
+    });
+
+    it("stops with an AbortError when cancelled", async () => {
+        const controller = new AbortController();
+        let writes = 0;
+        const done = streamZip(
+            entries,
+            { compression: "store", signal: controller.signal },
+            async () => {
+                writes += 1;
+                controller.abort();
+            }
+        );
+        await expect(done).rejects.toMatchObject({ name: "AbortError" });
+        expect(writes).toBe(1);
+    });
+
+    it("rejects when a write fails", async () => {
+        const done = streamZip(entries, { compression: "store" }, async () => {
+            throw new Error("Disk full");
+        });
+        await expect(done).rejects.toThrow("Disk full");
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+    CAMERA_HEIGHT,
+    CAMERA_SAVE_SIZE,
+    CAMERA_WIDTH,
+    freeSlot,
+    readCameraSave,
+    shadeLevels,
+    THUMBNAIL_SIZE,
+    usedSlots,
+    writeCameraPhoto
+} from "../src/core/camera";
+
+/** Where the camera keeps its album state: 30 slot bytes, "Magic", then two checksums. */
+const STATE = 0x11b2;
+const CHECKSUM = STATE + 35;
+const BLOCK = 37;
+
+/** A formatted cart: every slot free, checksums seeded like the camera does. */
+const blankSave = () => {
+    const data = new Uint8Array(CAMERA_SAVE_SIZE);
+    data.fill(0xff, STATE, STATE + 30);
+    data.set(new TextEncoder().encode("Magic"), STATE + 30);
+    data[CHECKSUM] = 0x2f;
+    data[CHECKSUM + 1] = 0x15;
+    data.copyWithin(STATE + BLOCK, STATE, STATE + BLOCK);
+    return data;
+};
+
+/** Diagonal bands of all four shades. */
+const photo = (shift = 0) =>
+    Uint8Array.from({ length: CAMERA_WIDTH * CAMERA_HEIGHT }, (_, p) => {
+        const x = p % CAMERA_WIDTH;
+        const y = Math.floor(p / CAMERA_WIDTH);
+        return Math.floor((x + y + shift) / 8) % 4;
+    });
+
+const stateBytes = (data: Uint8Array) => Array.from(data.subarray(STATE, STATE + 30));
+
+describe("readCameraSave", () => {
+    it("rejects data that isn't 128 KiB", () => {
+        expect(() => readCameraSave(new Uint8Array(1024))).toThrow("Not a Game Boy Camera save");
+    });
+
+    it("skips slots that were never written", () => {
+        expect(readCameraSave(blankSave())).toEqual([]);
+    });
+
+    it("reads back a written photo and its thumbnail", () => {
+        const levels = photo();
+        const [read] = readCameraSave(writeCameraPhoto(blankSave(), 2, levels));
+        expect(read.slot).toBe(2);
+        expect(read.deleted).toBe(false);
+        expect(read.levels).toEqual(levels);
+        expect(read.thumbnail).toHaveLength(THUMBNAIL_SIZE * THUMBNAIL_SIZE);
+        // The 128x112 photo fills 32x28, leaving two light rows above and below.
+        expect(Array.from(read.thumbnail.subarray(0, THUMBNAIL_SIZE * 2))).toEqual(
+            new Array(THUMBNAIL_SIZE * 2).fill(3)
+        );
+        expect(read.thumbnail[THUMBNAIL_SIZE * 2]).toBe(0);
+    });
+
+    it("flags deleted photos but still reads them", () => {
+        const data = writeCameraPhoto(blankSave(), 0, photo());
+        data[STATE] = 0xff;
+        const [read] = readCameraSave(data);
+        expect(read.deleted).toBe(true);
+        expect(read.levels).toEqual(photo());
+    });
+});
+
+describe("writeCameraPhoto", () => {
+    it("adds photos written to free slots to the end of the album", () => {
+        let data = writeCameraPhoto(blankSave(), 5, photo());
+        data = writeCameraPhoto(data, 1, photo(4));
+        expect(stateBytes(data).slice(0, 6)).toEqual([0xff, 1, 0xff, 0xff, 0xff, 0]);
+        expect(usedSlots(data)).toEqual([1, 5]);
+        expect(freeSlot(data)).toBe(0);
+    });
+
+    it("keeps the album position when a slot is overwritten", () => {
+        const data = writeCameraPhoto(writeCameraPhoto(blankSave(), 3, photo()), 3, photo(4));
+        expect(stateBytes(data)[3]).toBe(0);
+        expect(readCameraSave(data)[0].levels).toEqual(photo(4));
+    });
+
+    it("keeps the checksums and the state copy in step", () => {
+        const save = blankSave();
+        const data = writeCameraPhoto(writeCameraPhoto(save, 0, photo()), 7, photo());
+        const sum = (bytes: number[]) => bytes.reduce((total, byte) => total + byte, 0) & 0xff;
+        const xor = (bytes: number[]) => bytes.reduce((total, byte) => total ^ byte, 0);
+        expect((data[CHECKSUM] - sum(stateBytes(data))) & 0xff).toBe(
+            (save[CHECKSUM] - sum(stateBytes(save))) & 0xff
+        );
+        expect(data[CHECKSUM + 1] ^ xor(stateBytes(data))).toBe(
+            save[CHECKSUM + 1] ^ xor(stateBytes(save))
+        );
+        expect(data.subarray(STATE + BLOCK, STATE + BLOCK * 2)).toEqual(
+            data.subarray(STATE, STATE + BLOCK)
+        );
+    });
+
+    it("leaves the source save untouched", () => {
+        const save = blankSave();
+        writeCameraPhoto(save, 0, photo());
+        expect(save).toEqual(blankSave());
+    });
+
+    it("rejects other sizes and slots", () => {
+        expect(() => writeCameraPhoto(blankSave(), 0, new Uint8Array(160 * 144))).toThrow(
+            "128x112"
+        );
+        expect(() => writeCameraPhoto(blankSave(), 30, photo())).toThrow("slots run from 1 to 30");
+    });
+});
+
+describe("shadeLevels", () => {
+    it("orders palette indices by luminance", () => {
+        const palette = [
+            { r: 255, g: 255, b: 255 },
+            { r: 0, g: 0, b: 0 },
+            { r: 200, g: 40, b: 40 },
+            { r: 40, g: 200, b: 40 }
+        ];
+        expect([...shadeLevels(Uint8Array.of(0, 1, 2, 3), palette)]).toEqual([3, 0, 1, 2]);
+    });
+
+    it("keeps levels of a darkest-first palette", () => {
+        const palette = [0, 85, 170, 255].map((value) => ({ r: value, g: value, b: value }));
+        expect(shadeLevels(photo(), palette)).toEqual(photo());
+    });
+});
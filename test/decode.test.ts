@@ -0,0 +1,213 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { isAnimated } from "../src/core/animation";
+import {
+    DecodeSettings,
+    DEFAULT_DECODE,
+    failureOf,
+    fitPixels,
+    imageSize,
+    inspectImage,
+    isTruncated,
+    jpegOrientation,
+    orientImage,
+    sniffImageType,
+    withoutOrientation
+} from "../src/core/decode";
+import { decodeGif, encodeGif } from "../src/core/gif";
+import { DMG_PALETTE } from "../src/core/palettes";
+import { RgbaImage } from "../src/core/resize";
+import { fixturePath } from "./helpers";
+
+const png = new Uint8Array(readFileSync(fixturePath("gradient.png")));
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+/** A minimal JPEG header: an optional EXIF orientation, a frame header, then image data. */
+const jpeg = (width: number, height: number, orientation?: number, little = false) => {
+    const u16 = (value: number) =>
+        little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+    const u32 = (value: number) => (little ? [...u16(value), 0, 0] : [0, 0, ...u16(value)]);
+    const tiff = [
+        ...ascii(little ? "II" : "MM"),
+        ...u16(42),
+        ...u32(8),
+        ...u16(1),
+        ...[...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation ?? 1), 0, 0],
+        ...u32(0)
+    ];
+    const exif = [...ascii("Exif\0\0"), ...tiff];
+    const app1 = orientation
+        ? [0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif]
+        : [];
+    const sof = [0xff, 0xc0, 0, 11, 8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1];
+    return new Uint8Array([
+        ...[0xff, 0xd8],
+        ...app1,
+        ...sof,
+        ...[1, 0x11, 0],
+        ...[0xff, 0xda, 0, 2, 0x12, 0x34],
+        ...[0xff, 0xd9]
+    ]);
+};
+
+/** A w x h image whose red channel numbers the pixels in reading order. */
+const numbered = (width: number, height: number): RgbaImage => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i += 1) {
+        data.set([i, 0, 0, 255], i * 4);
+    }
+    return { data, width, height };
+};
+
+const reds = (image: RgbaImage) => [...image.data.filter((_, i) => i % 4 === 0)];
+
+describe("sniffImageType", () => {
+    it("goes by the bytes, not the name", () => {
+        expect(sniffImageType(png)).toBe("png");
+        expect(sniffImageType(jpeg(4, 2))).toBe("jpg");
+        expect(sniffImageType(new Uint8Array(ascii("GIF89a\x01\0\x01\0")))).toBe("gif");
+        expect(sniffImageType(new Uint8Array(ascii("RIFF\0\0\0\0WEBPVP8 ")))).toBe("webp");
+        expect(sniffImageType(new Uint8Array(ascii("not an image")))).toBeNull();
+    });
+});
+
+describe("imageSize", () => {
+    it("reads PNG and JPEG headers", () => {
+        expect(imageSize(png, "png")).toEqual({ width: 32, height: 8 });
+        expect(imageSize(jpeg(300, 200, 6), "jpg")).toEqual({ width: 300, height: 200 });
+    });
+
+    it("returns null for a damaged header", () => {
+        expect(imageSize(png.subarray(0, 20), "png")).toBeNull();
+        expect(imageSize(new Uint8Array([0xff, 0xd8, 0xff]), "jpg")).toBeNull();
+    });
+});
+
+describe("isTruncated", () => {
+    it("finds files cut off before their end marker", () => {
+        expect(isTruncated(png, "png")).toBe(false);
+        expect(isTruncated(png.subarray(0, png.length - 12), "png")).toBe(true);
+        const full = jpeg(4, 2);
+        expect(isTruncated(full, "jpg")).toBe(false);
+        expect(isTruncated(full.subarray(0, full.length - 2), "jpg")).toBe(true);
+    });
+
+    it("tolerates data after the end marker", () => {
+        const padded = new Uint8Array([...png, 0, 0, 0, 0]);
+        expect(isTruncated(padded, "png")).toBe(false);
+    });
+});
+
+describe("jpegOrientation", () => {
+    it("reads the orientation in either byte order", () => {
+        expect(jpegOrientation(jpeg(4, 2, 6))?.orientation).toBe(6);
+        expect(jpegOrientation(jpeg(4, 2, 8, true))?.orientation).toBe(8);
+        expect(jpegOrientation(jpeg(4, 2))).toBeNull();
+    });
+
+    it("marks a copy upright and leaves the original alone", () => {
+        for (const little of [false, true]) {
+            const original = jpeg(4, 2, 6, little);
+            const upright = withoutOrientation(original);
+            expect(jpegOrientation(upright)?.orientation).toBe(1);
+            expect(jpegOrientation(original)?.orientation).toBe(6);
+            expect(upright.length).toBe(original.length);
+        }
+    });
+});
+
+describe("orientImage", () => {
+    // 0 1 2
+    // 3 4 5
+    const image = numbered(3, 2);
+
+    it("turns a quarter for orientations 6 and 8", () => {
+        const clockwise = orientImage(image, 6);
+        expect([clockwise.width, clockwise.height]).toEqual([2, 3]);
+        expect(reds(clockwise)).toEqual([3, 0, 4, 1, 5, 2]);
+        expect(reds(orientImage(image, 8))).toEqual([2, 5, 1, 4, 0, 3]);
+    });
+
+    it("flips and turns a half", () => {
+        expect(reds(orientImage(image, 2))).toEqual([2, 1, 0, 5, 4, 3]);
+        expect(reds(orientImage(image, 3))).toEqual([5, 4, 3, 2, 1, 0]);
+        expect(reds(orientImage(image, 4))).toEqual([3, 4, 5, 0, 1, 2]);
+        expect(reds(orientImage(image, 5))).toEqual([0, 3, 1, 4, 2, 5]);
+        expect(reds(orientImage(image, 7))).toEqual([5, 2, 4, 1, 3, 0]);
+    });
+
+    it("returns upright images untouched", () => {
+        expect(orientImage(image, 1)).toBe(image);
+    });
+});
+
+describe("fitPixels", () => {
+    it("keeps the aspect ratio under the limit", () => {
+        expect(fitPixels(100, 50, 10_000)).toEqual({ width: 100, height: 50 });
+        const fitted = fitPixels(8000, 6000, 12_000_000);
+        expect(fitted.width * fitted.height).toBeLessThanOrEqual(12_000_000);
+        expect(fitted.width / fitted.height).toBeCloseTo(4 / 3, 2);
+    });
+});
+
+describe("inspectImage", () => {
+    const failure = (bytes: Uint8Array, options: DecodeSettings = DEFAULT_DECODE) => {
+        try {
+            inspectImage(bytes, options);
+        } catch (error) {
+            return { reason: failureOf(error), message: (error as Error).message };
+        }
+        return null;
+    };
+
+    it("names formats it can't read", () => {
+        const heic = new Uint8Array([0, 0, 0, 24, ...ascii("ftypheic")]);
+        expect(failure(heic)).toEqual({
+            reason: "unsupported",
+            message: "HEIC files aren't supported. Save it as PNG, JPEG, GIF or WebP."
+        });
+        expect(failure(new Uint8Array(ascii("hello")))?.reason).toBe("unsupported");
+    });
+
+    it("reports damaged and cut-off files as corrupt", () => {
+        expect(failure(png.subarray(0, 20))?.reason).toBe("corrupt");
+        expect(failure(png.subarray(0, png.length - 12))?.message).toMatch(/cut off/);
+    });
+
+    it("rejects or downscales images over the limit", () => {
+        const big = jpeg(8000, 6000, 6);
+        expect(failure(big, { maxPixels: 16_000_000, oversize: "reject" })).toEqual({
+            reason: "too-large",
+            message: "8000x6000 is 48 MP, over the 16 MP limit."
+        });
+        const info = inspectImage(big, { maxPixels: 12_000_000, oversize: "downscale" });
+        expect(info).toMatchObject({ type: "jpg", width: 8000, height: 6000, orientation: 6 });
+        expect(info.decodeWidth * info.decodeHeight).toBeLessThanOrEqual(12_000_000);
+        expect(info.decodeWidth).toBeLessThan(8000);
+    });
+});
+
+describe("isAnimated", () => {
+    const gif = (frames: number) =>
+        encodeGif(
+            { width: 2, height: 1, palette: DMG_PALETTE.colors },
+            Array.from({ length: frames }, (_, i) => ({
+                indices: Uint8Array.of(i, 3),
+                delay: 100
+            })),
+            0
+        );
+
+    it("counts GIF frames from the block structure", () => {
+        expect(isAnimated(gif(1))).toBe(false);
+        expect(isAnimated(gif(3))).toBe(true);
+        expect(isAnimated(png)).toBe(false);
+    });
+
+    it("decodes just the first frame when asked to", () => {
+        const first = decodeGif(gif(3), 1);
+        expect(first.frames).toHaveLength(1);
+        expect(decodeGif(gif(3)).frames).toHaveLength(3);
+    });
+});
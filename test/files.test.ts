@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+    archiveName,
+    baseName,
+    extForMime,
+    extFromName,
+    isSupportedExt,
+    mimeForExt,
+    outputFileName
+} from "../src/core/files";
+import { DMG_PALETTE, GRAY_PALETTE, POCKET_PALETTE } from "../src/core/palettes";
+
+describe("extFromName", () => {
+    it("returns the lowercase extension", () => {
+        expect(extFromName("Photo.JPG")).toBe("jpg");
+        expect(extFromName("archive.tar.zip")).toBe("zip");
+    });
+
+    it("returns the whole name when there is no dot", () => {
+        expect(extFromName("README")).toBe("readme");
+    });
+});
+
+describe("baseName", () => {
+    it("drops only the last extension", () => {
+        expect(baseName("hero.sheet.png")).toBe("hero.sheet");
+    });
+
+    it("keeps names without an extension", () => {
+        expect(baseName("hero")).toBe("hero");
+        expect(baseName(".png")).toBe(".png");
+    });
+});
+
+describe("isSupportedExt", () => {
+    it.each(["png", "apng", "gif", "jpg", "jpeg", "webp"])("accepts %s", (ext) => {
+        expect(isSupportedExt(ext)).toBe(true);
+    });
+
+    it.each(["zip", "bmp", "PNG", ""])("rejects %j", (ext) => {
+        expect(isSupportedExt(ext)).toBe(false);
+    });
+});
+
+describe("mimeForExt", () => {
+    it.each([
+        ["jpg", "image/jpeg"],
+        ["jpeg", "image/jpeg"],
+        ["webp", "image/webp"],
+        ["gif", "image/gif"],
+        ["apng", "image/apng"],
+        ["png", "image/png"],
+        ["unknown", "image/png"]
+    ])("maps %s to %s", (ext, mime) => {
+        expect(mimeForExt(ext)).toBe(mime);
+    });
+});
+
+describe("extForMime", () => {
+    it("finds the first extension for a supported type, ignoring parameters", () => {
+        expect(extForMime("image/jpeg")).toBe("jpg");
+        expect(extForMime("image/png; charset=binary")).toBe("png");
+    });
+
+    it("returns null for other types", () => {
+        expect(extForMime("text/html")).toBeNull();
+    });
+});
+
+describe("output names", () => {
+    it("adds the palette suffix", () => {
+        expect(outputFileName("photo.jpg", DMG_PALETTE)).toBe("photo-dmg.png");
+        expect(outputFileName("photo.jpg", GRAY_PALETTE, "bmp")).toBe("photo-gs.bmp");
+        expect(outputFileName("photo.jpg", POCKET_PALETTE)).toBe("photo-pocket.png");
+    });
+
+    it("keeps the folder of a nested path", () => {
+        expect(outputFileName("tiles/hero.png", DMG_PALETTE)).toBe("tiles/hero-dmg.png");
+        const values = { index: "07" };
+        const named = outputFileName("a/b/hero.png", GRAY_PALETTE, "png", "{index}_{name}", values);
+        expect(named).toBe("a/b/07_hero.png");
+    });
+
+    it("keeps the plain archive name for DMG", () => {
+        expect(archiveName("all", DMG_PALETTE)).toBe("img2dmg-all.zip");
+        expect(archiveName("selected", GRAY_PALETTE)).toBe("img2dmg-selected-gs.zip");
+    });
+});
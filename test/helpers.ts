@@ -0,0 +1,58 @@
+import { readFileSync } from "node:fs";
+import { decodeImage } from "../src/cli/codecs";
+import { DEFAULT_ALPHA } from "../src/core/alpha";
+import { DEFAULT_ANIMATION_FORMAT } from "../src/core/animation";
+import { DEFAULT_DECODE } from "../src/core/decode";
+import { DEFAULT_DITHER } from "../src/core/dither";
+import { DEFAULT_OUTPUT_FORMAT } from "../src/core/output";
+import { DMG_PALETTE, toHex } from "../src/core/palettes";
+import { ConvertSettings, DEFAULT_COLOR_MATCHING, QuantizedImage } from "../src/core/pipeline";
+import { DEFAULT_RESIZE, RgbaImage } from "../src/core/resize";
+import { DEFAULT_SPRITE } from "../src/core/sprites";
+import { DEFAULT_TONE } from "../src/core/tone";
+
+export const fixturePath = (name: string) => new URL(`fixtures/${name}`, import.meta.url);
+
+export const loadFixture = (name: string): RgbaImage =>
+    decodeImage(new Uint8Array(readFileSync(fixturePath(name))), "png");
+
+/** The app's defaults: DMG palette, luminance matching, no dithering, source size. */
+export const settingsWith = (patch: Partial<ConvertSettings> = {}): ConvertSettings => ({
+    hardware: "dmg",
+    palette: DMG_PALETTE.colors,
+    matching: DEFAULT_COLOR_MATCHING,
+    dither: DEFAULT_DITHER,
+    resize: DEFAULT_RESIZE,
+    tone: DEFAULT_TONE,
+    alpha: DEFAULT_ALPHA,
+    animation: DEFAULT_ANIMATION_FORMAT,
+    output: DEFAULT_OUTPUT_FORMAT,
+    sprite: DEFAULT_SPRITE,
+    decode: DEFAULT_DECODE,
+    ...patch
+});
+
+/**
+ * Golden text for a conversion: the palette(s), then one row of levels per
+ * pixel row (0 darkest) with "." for transparent pixels, and the palette
+ * number per 8x8 cell in CGB mode.
+ */
+export const goldenText = (result: QuantizedImage) => {
+    const { width, height } = result.image;
+    const rows = Array.from({ length: height }, (_, y) =>
+        Array.from({ length: width }, (_, x) => {
+            const p = y * width + x;
+            return result.opaque[p] ? String(result.levels[p]) : ".";
+        }).join("")
+    );
+    const palettes = result.cgb ? result.cgb.palettes : [result.palette];
+    return [
+        `${width}x${height}`,
+        ...palettes.map((palette) => `palette ${palette.map(toHex).join(" ")}`),
+        ...(result.cgb
+            ? [`tile palettes ${Array.from(result.cgb.tilePalettes).join("")}`]
+            : []),
+        ...rows,
+        ""
+    ].join("\n");
+};
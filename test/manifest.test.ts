@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { manifestCsv, manifestEntry, manifestFile, manifestJson } from "../src/core/manifest";
+import { GRAY_PALETTE } from "../src/core/palettes";
+import { settingsWith } from "./helpers";
+
+const entry = manifestEntry({
+    source: "sprites/hero, idle.png",
+    sourceSha256: "ab".repeat(32),
+    output: "sprites/hero, idle-gs.png",
+    width: 16,
+    height: 16,
+    paletteName: GRAY_PALETTE.name,
+    settings: settingsWith({ palette: GRAY_PALETTE.colors })
+});
+
+describe("manifest", () => {
+    it("lists the palette as hex and keeps it out of the settings", () => {
+        expect(entry.palette).toEqual({
+            name: "Gray",
+            colors: ["0f0f0f", "565656", "aaaaaa", "f0f0f0"]
+        });
+        expect(entry.settings).not.toHaveProperty("palette");
+        expect(entry.settings.dither).toEqual(settingsWith().dither);
+    });
+
+    it("writes JSON with a format marker and the export time", () => {
+        const parsed = JSON.parse(manifestJson([entry], new Date(Date.UTC(2024, 0, 2))));
+        expect(parsed).toMatchObject({
+            format: "img2dmg-manifest",
+            version: 1,
+            created: "2024-01-02T00:00:00.000Z"
+        });
+        expect(parsed.files).toEqual([JSON.parse(JSON.stringify(entry))]);
+    });
+
+    it("writes one quoted CSV row per image", () => {
+        const [header, row, end] = manifestCsv([entry]).split("\r\n");
+        expect(header.split(",")).toHaveLength(9);
+        expect(row.startsWith('"sprites/hero, idle.png",abab')).toBe(true);
+        expect(row).toContain(',16,16,,Gray,0f0f0f 565656 aaaaaa f0f0f0,"{""hardware"":""dmg""');
+        expect(end).toBe("");
+    });
+
+    it("adds no file when manifests are off", () => {
+        expect(manifestFile("none", [entry], new Date())).toBeNull();
+        expect(manifestFile("csv", [entry], new Date())?.name).toBe("manifest.csv");
+    });
+});
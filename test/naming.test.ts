@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { archiveName, outputFileName } from "../src/core/files";
+import {
+    ARCHIVE_NAME_TOKENS,
+    dateToken,
+    expandTemplate,
+    FILE_NAME_TOKENS,
+    indexToken,
+    templateError,
+    uniqueNames,
+    uniqueSymbols
+} from "../src/core/naming";
+import { DMG_PALETTE, GRAY_PALETTE } from "../src/core/palettes";
+
+describe("expandTemplate", () => {
+    it("fills in tokens and leaves unknown ones", () => {
+        const values = { index: "07", name: "cat", w: "8" };
+        expect(expandTemplate("{index}_{name}@{w}x{h}", values)).toBe("07_cat@8x{h}");
+    });
+
+    it("drops an empty token with the separator before it", () => {
+        expect(expandTemplate("img2dmg-{label}-{palette}", { label: "all", palette: "" })).toBe(
+            "img2dmg-all"
+        );
+        expect(expandTemplate("{palette}_{name}", { palette: "", name: "cat" })).toBe("cat");
+    });
+
+    it("replaces characters file systems reject", () => {
+        expect(expandTemplate("{name}:{date}", { name: 'a/b"c', date: "2024-01-02" })).toBe(
+            "a_b_c_2024-01-02"
+        );
+    });
+
+    it("falls back to a name when nothing is left", () => {
+        expect(expandTemplate("{palette}", { palette: "" })).toBe("image");
+    });
+});
+
+describe("templateError", () => {
+    it("accepts known tokens and rejects others", () => {
+        expect(templateError("{name}-{w}x{h}", FILE_NAME_TOKENS)).toBeNull();
+        expect(templateError("{name}-{label}", FILE_NAME_TOKENS)).toBe("Unknown token {label}.");
+        expect(templateError("{label}-{count}", ARCHIVE_NAME_TOKENS)).toBeNull();
+        expect(templateError("  ", FILE_NAME_TOKENS)).not.toBeNull();
+    });
+});
+
+describe("tokens", () => {
+    it("pads the index to the batch size and formats local dates", () => {
+        expect(indexToken(6, 120)).toBe("007");
+        expect(indexToken(0, 9)).toBe("1");
+        expect(dateToken(new Date(2024, 0, 2))).toBe("2024-01-02");
+    });
+});
+
+describe("named outputs", () => {
+    it("keeps the names from before templates by default", () => {
+        expect(outputFileName("photo.jpg", GRAY_PALETTE)).toBe("photo-gs.png");
+        expect(archiveName("all", DMG_PALETTE)).toBe("img2dmg-all.zip");
+    });
+
+    it("uses the template and extra values", () => {
+        const values = { w: "160", h: "144", index: "02", date: "2024-01-02" };
+        const template = "{index}-{name}-{w}x{h}";
+        expect(outputFileName("photo.jpg", DMG_PALETTE, "bmp", template, values)).toBe(
+            "02-photo-160x144.bmp"
+        );
+        const archive = { date: "2024-01-02", count: "3" };
+        expect(archiveName("selected", GRAY_PALETTE, "{date}-{label}-{count}", archive)).toBe(
+            "2024-01-02-selected-3.zip"
+        );
+    });
+});
+
+describe("uniqueNames", () => {
+    it("numbers later duplicates, ignoring case", () => {
+        expect(uniqueNames(["a/cat.png", "a/Cat.png", "b/cat.png", "a/cat.png"])).toEqual([
+            "a/cat.png",
+            "a/Cat-2.png",
+            "b/cat.png",
+            "a/cat-3.png"
+        ]);
+    });
+
+    it("skips numbers a later path already uses", () => {
+        expect(uniqueNames(["cat.png", "cat.png", "cat-2.png"])).toEqual([
+            "cat.png",
+            "cat-3.png",
+            "cat-2.png"
+        ]);
+    });
+
+    it("adds the number at the end of names without an extension", () => {
+        expect(uniqueNames(["v1.0/cat", "v1.0/cat"])).toEqual(["v1.0/cat", "v1.0/cat-2"]);
+    });
+});
+
+describe("uniqueSymbols", () => {
+    it("numbers repeated symbols, ignoring case", () => {
+        const symbol = uniqueSymbols();
+        expect(["cat", "Cat", "cat 2", "cat_2", "title screen"].map(symbol)).toEqual([
+            "cat",
+            "Cat_2",
+            "cat_2_2",
+            "cat_2_3",
+            "title_screen"
+        ]);
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ALPHA } from "../src/core/alpha";
+import { DitherMode } from "../src/core/dither";
+import { BUILT_IN_PALETTES, DMG_PALETTE, GRAY_PALETTE } from "../src/core/palettes";
+import { quantizeImage, withOverrides } from "../src/core/pipeline";
+import { DEFAULT_RESIZE, resizeLayout } from "../src/core/resize";
+import { DEFAULT_TONE, Thresholds } from "../src/core/tone";
+import { goldenText, loadFixture, settingsWith } from "./helpers";
+
+const FIXTURES = ["gradient.png", "colors.png"];
+
+const DITHERS: DitherMode[] = ["none", "bayer4", "floyd-steinberg", "atkinson"];
+
+const golden = (fixture: string, name: string) =>
+    `golden/${fixture.replace(/\.png$/, "")}/${name}.txt`;
+
+describe.each(FIXTURES)("%s", (fixture) => {
+    const source = loadFixture(fixture);
+
+    it.each(DITHERS)("matches the golden levels by luminance, dither %s", async (mode) => {
+        const result = quantizeImage(source, settingsWith({ dither: { mode, strength: 1 } }));
+        await expect(goldenText(result)).toMatchFileSnapshot(
+            golden(fixture, `luminance-${mode}`)
+        );
+    });
+
+    it("matches the golden levels with tone and custom thresholds", async () => {
+        const thresholds: Thresholds = [40, 110, 200];
+        const tone = { ...DEFAULT_TONE, contrast: 0.3, gamma: 1.4, thresholds };
+        const result = quantizeImage(source, settingsWith({ tone }));
+        await expect(goldenText(result)).toMatchFileSnapshot(golden(fixture, "luminance-tone"));
+    });
+
+    it.each(BUILT_IN_PALETTES)("matches the golden levels by nearest color, $name", async (p) => {
+        const result = quantizeImage(
+            source,
+            settingsWith({ matching: "nearest", palette: p.colors })
+        );
+        await expect(goldenText(result)).toMatchFileSnapshot(golden(fixture, `nearest-${p.id}`));
+    });
+
+    it("matches the golden auto palette and levels", async () => {
+        const result = quantizeImage(source, settingsWith({ matching: "auto" }));
+        await expect(goldenText(result)).toMatchFileSnapshot(golden(fixture, "auto"));
+    });
+
+    it("matches the golden CGB palettes and levels", async () => {
+        const result = quantizeImage(source, settingsWith({ hardware: "cgb" }));
+        await expect(goldenText(result)).toMatchFileSnapshot(golden(fixture, "cgb"));
+    });
+
+    it("matches the golden levels after resizing", async () => {
+        const resize = { ...DEFAULT_RESIZE, preset: "custom" as const, width: 8, height: 8 };
+        const result = quantizeImage(source, settingsWith({ resize }));
+        await expect(goldenText(result)).toMatchFileSnapshot(golden(fixture, "resize-8x8"));
+    });
+});
+
+describe("quantizeImage", () => {
+    it("leaves the source buffer untouched", () => {
+        const source = loadFixture("colors.png");
+        const before = Uint8ClampedArray.from(source.data);
+        quantizeImage(source, settingsWith());
+        expect(source.data).toEqual(before);
+    });
+
+    it("keeps levels independent of the palette colors when matching by luminance", () => {
+        const source = loadFixture("gradient.png");
+        const dmg = quantizeImage(source, settingsWith());
+        const gray = quantizeImage(source, settingsWith({ palette: GRAY_PALETTE.colors }));
+        expect(gray.levels).toEqual(dmg.levels);
+    });
+
+    it("paints every opaque pixel with its level's palette color", () => {
+        const result = quantizeImage(loadFixture("colors.png"), settingsWith());
+        const { data } = result.image;
+        result.levels.forEach((level, p) => {
+            if (result.opaque[p]) {
+                const { r, g, b } = result.palette[level];
+                expect([data[p * 4], data[p * 4 + 1], data[p * 4 + 2]]).toEqual([r, g, b]);
+            }
+        });
+    });
+
+    it("maps fully transparent pixels to transparent", () => {
+        const result = quantizeImage(loadFixture("colors.png"), settingsWith());
+        expect(result.opaque[0]).toBe(0);
+        expect(result.image.data[3]).toBe(0);
+    });
+
+    it("keeps partial alpha above the threshold opaque and drops it below", () => {
+        const alphas = [0, 64, DEFAULT_ALPHA.threshold - 1, DEFAULT_ALPHA.threshold + 1, 200, 255];
+        const image = {
+            data: Uint8ClampedArray.from(alphas.flatMap((alpha) => [90, 90, 90, alpha])),
+            width: alphas.length,
+            height: 1
+        };
+        const result = quantizeImage(image, settingsWith());
+        expect([...result.opaque]).toEqual([0, 0, 0, 1, 1, 1]);
+    });
+});
+
+describe("withOverrides", () => {
+    it("returns the global settings when an item has no overrides", () => {
+        const settings = settingsWith();
+        expect(withOverrides(settings, undefined)).toBe(settings);
+    });
+
+    it("replaces only the overridden sections", () => {
+        const dither = { mode: "bayer4" as const, strength: 0.5 };
+        const result = withOverrides(settingsWith(), { palette: GRAY_PALETTE, dither });
+        expect(result).toEqual(settingsWith({ palette: GRAY_PALETTE.colors, dither }));
+        expect(result.resize).toBe(DEFAULT_RESIZE);
+    });
+
+    it("converts like the same settings made global", () => {
+        const source = loadFixture("colors.png");
+        const resize = { ...DEFAULT_RESIZE, preset: "custom" as const, width: 8, height: 8 };
+        const tone = { ...DEFAULT_TONE, contrast: 0.3 };
+        const own = quantizeImage(source, withOverrides(settingsWith(), { resize, tone }));
+        const global = quantizeImage(source, settingsWith({ resize, tone }));
+        expect(own.levels).toEqual(global.levels);
+        expect(own.palette).toEqual(DMG_PALETTE.colors);
+    });
+});
+
+describe("resizeLayout", () => {
+    const screen = { ...DEFAULT_RESIZE, preset: "screen" as const };
+
+    it("keeps the source as it is", () => {
+        expect(resizeLayout(300, 200, DEFAULT_RESIZE)).toBeNull();
+    });
+
+    it("letterboxes fit and crops fill around the focus", () => {
+        expect(resizeLayout(320, 160, screen)?.to).toEqual({
+            x: 0,
+            y: 32,
+            width: 160,
+            height: 80
+        });
+        const fill = resizeLayout(320, 144, { ...screen, fit: "fill", focusX: 0 });
+        expect(fill?.from).toEqual({ x: 0, y: 0, width: 160, height: 144 });
+        expect(fill?.to).toEqual({ x: 0, y: 0, width: 160, height: 144 });
+    });
+});
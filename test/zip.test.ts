@@ -0,0 +1,137 @@
+import { readFileSync } from "node:fs";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { readImageZip, splitPath } from "../src/core/zip";
+import { fixturePath } from "./helpers";
+
+const png = new Uint8Array(readFileSync(fixturePath("gradient.png")));
+
+type Entries = Record<string, Uint8Array | string | null>;
+
+/** Builds a ZIP; null values become folders, nested ZIPs are built from objects. */
+const makeZip = async (entries: Entries) => {
+    const zip = new JSZip();
+    Object.entries(entries).forEach(([name, data]) =>
+        data === null ? zip.folder(name) : zip.file(name, data)
+    );
+    return zip.generateAsync({ type: "uint8array" });
+};
+
+/** A ZIP holding nested ZIPs, levels deep, with one image at the bottom. */
+const nestedZip = async (levels: number, top: Entries = {}): Promise<Uint8Array> => {
+    let data = await makeZip({ "deep.png": png });
+    for (let level = levels; level > 1; level -= 1) {
+        data = await makeZip({ [`level${level}.zip`]: data });
+    }
+    return makeZip({ ...top, "level1.zip": data });
+};
+
+describe("readImageZip", () => {
+    it("rejects an empty ZIP", async () => {
+        await expect(readImageZip(await makeZip({}))).rejects.toThrow("Zip is empty.");
+    });
+
+    it("rejects a ZIP with only folders", async () => {
+        await expect(readImageZip(await makeZip({ empty: null }))).rejects.toThrow(
+            "Zip is empty."
+        );
+    });
+
+    it("rejects a ZIP without supported images", async () => {
+        const data = await makeZip({ "notes.txt": "hello", "photo.bmp": png });
+        await expect(readImageZip(data)).rejects.toThrow("Zip contains no supported images.");
+    });
+
+    it("rejects data that isn't a ZIP", async () => {
+        await expect(readImageZip(png)).rejects.toThrow();
+    });
+
+    it("imports mixed image types and reports everything else", async () => {
+        const data = await makeZip({
+            "b.jpg": png,
+            "a.PNG": png,
+            "c.webp": png,
+            "tiles/d.gif": png,
+            "readme.md": "# notes",
+            "__MACOSX/._a.PNG": png,
+            "tiles/.DS_Store": "x"
+        });
+        const { images, skipped } = await readImageZip(data);
+        expect(images.map(({ name, ext }) => [name, ext])).toEqual([
+            ["a.PNG", "png"],
+            ["b.jpg", "jpg"],
+            ["c.webp", "webp"],
+            ["tiles/d.gif", "gif"]
+        ]);
+        expect(images[0].data).toEqual(png);
+        expect(skipped).toEqual([
+            { name: "__MACOSX/._a.PNG", reason: "macOS metadata" },
+            { name: "readme.md", reason: "unsupported file type" },
+            { name: "tiles/.DS_Store", reason: "hidden file" }
+        ]);
+    });
+
+    it("follows nested ZIPs as folders", async () => {
+        const inner = await makeZip({ "hero.png": png, "sub/villain.png": png });
+        const data = await makeZip({ "packs/more.zip": inner, "top.png": png });
+        const { images, skipped } = await readImageZip(data);
+        expect(images.map((image) => image.name)).toEqual([
+            "packs/more/hero.png",
+            "packs/more/sub/villain.png",
+            "top.png"
+        ]);
+        expect(skipped).toEqual([]);
+    });
+
+    it("follows ZIPs three levels deep and skips deeper ones", async () => {
+        const three = await readImageZip(await nestedZip(3));
+        expect(three.images.map((image) => image.name)).toEqual([
+            "level1/level2/level3/deep.png"
+        ]);
+
+        const four = await readImageZip(await nestedZip(4, { "top.png": png }));
+        expect(four.images.map((image) => image.name)).toEqual(["top.png"]);
+        expect(four.skipped).toEqual([
+            { name: "level1/level2/level3/level4.zip", reason: "ZIP nested too deep" }
+        ]);
+    });
+
+    it("reports unreadable nested ZIPs", async () => {
+        const data = await makeZip({ "broken.zip": "not a zip", "ok.png": png });
+        const { images, skipped } = await readImageZip(data);
+        expect(images.map((image) => image.name)).toEqual(["ok.png"]);
+        expect(skipped).toEqual([{ name: "broken.zip", reason: "unreadable ZIP" }]);
+    });
+
+    it("recognises images without an extension by their bytes", async () => {
+        const data = await makeZip({ IMG_0001: png, LICENSE: "MIT" });
+        const { images, skipped } = await readImageZip(data);
+        expect(images.map((image) => [image.name, image.ext])).toEqual([["IMG_0001", "png"]]);
+        expect(skipped).toEqual([{ name: "LICENSE", reason: "unsupported file type" }]);
+    });
+
+    it("normalizes backslashes and leading slashes in entry names", async () => {
+        const { images } = await readImageZip(await makeZip({ "/art\\hero.png": png }));
+        expect(images.map((image) => image.name)).toEqual(["art/hero.png"]);
+    });
+
+    it("drops empty, . and .. segments so entries stay inside the batch", async () => {
+        const data = await makeZip({
+            "../../up.png": png,
+            "a\\..\\..\\x.png": png,
+            "b/./c//y.png": png
+        });
+        const { images } = await readImageZip(data);
+        expect(images.map((image) => image.name)).toEqual(["a/x.png", "b/c/y.png", "up.png"]);
+    });
+});
+
+describe("splitPath", () => {
+    it("splits the folder from the file name", () => {
+        expect(splitPath("tiles/extra/hero.png")).toEqual({
+            folder: "tiles/extra",
+            fileName: "hero.png"
+        });
+        expect(splitPath("hero.png")).toEqual({ folder: "", fileName: "hero.png" });
+    });
+});
@@ -3,5 +3,8 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
     base: "/img2dmg/",
-    plugins: [react()]
+    plugins: [react()],
+    worker: {
+        format: "es"
+    }
 });